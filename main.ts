@@ -3,12 +3,17 @@ import { VaultVisualizerSettings, DEFAULT_SETTINGS } from './src/types';
 import { DailyNoteClassifier } from './src/utils/daily-note-classifier';
 import { BacklinkAnalysisService } from './src/services/backlink-analysis-service';
 import { SettingsService } from './src/services/settings-service';
+import { CodeBlockRefreshBus } from './src/services/code-block-refresh-bus';
+import { NavigationSyncBus } from './src/services/navigation-sync-bus';
 import { BacklinkWatcher } from './src/features/backlink-watcher';
 import { ViewManager } from './src/ui/view-manager';
 import { CounterCodeBlockProcessor } from './src/features/counter-code-block-processor';
 import { YearlyTrackerCodeBlockProcessor } from './src/features/yearly-tracker-code-block-processor';
 import { MonthlyTrackerCodeBlockProcessor } from './src/features/monthly-tracker-code-block-processor';
+import { CorrelationCodeBlockProcessor } from './src/features/correlation-code-block-processor';
 import { NoteInsightContextMenuManager } from './src/features/note-insight-context-menu-manager';
+import { FolderDataExportCommand } from './src/features/folder-data-export-command';
+import { InsightsTargetMenuManager } from './src/features/insights-target-menu-manager';
 import { VaultVisualizerSettingTab } from './src/ui/settings-tab';
 import { logger } from './src/utils/logger';
 
@@ -32,12 +37,17 @@ export default class VaultVisualizerPlugin extends Plugin {
 	settingsService: SettingsService;
 	private dailyNoteClassifier: DailyNoteClassifier;
 	private analysisService: BacklinkAnalysisService;
+	private refreshBus: CodeBlockRefreshBus;
+	private navigationSyncBus: NavigationSyncBus;
 	private backlinkWatcher: BacklinkWatcher;
 	private viewManager: ViewManager;
 	private counterProcessor: CounterCodeBlockProcessor;
 	private yearlyProcessor: YearlyTrackerCodeBlockProcessor;
 	private monthlyProcessor: MonthlyTrackerCodeBlockProcessor;
+	private correlationProcessor: CorrelationCodeBlockProcessor;
 	private contextMenuManager: NoteInsightContextMenuManager;
+	private folderDataExportCommand: FolderDataExportCommand;
+	private insightsTargetMenuManager: InsightsTargetMenuManager;
 
 	async onload() {
 		// Load settings
@@ -53,8 +63,9 @@ export default class VaultVisualizerPlugin extends Plugin {
 		this.addSettingTab(new VaultVisualizerSettingTab(this.app, this));
 
 		// Initialize components
-		this.dailyNoteClassifier = new DailyNoteClassifier(this.app);
+		this.dailyNoteClassifier = new DailyNoteClassifier(this.app, this.settingsService);
 		this.analysisService = new BacklinkAnalysisService(this.app, this.dailyNoteClassifier);
+		this.analysisService.startIndexing(this);
 		this.viewManager = new ViewManager(this.app, this, this.analysisService, this.settingsService);
 		
 		// Register the view with Obsidian
@@ -80,36 +91,78 @@ export default class VaultVisualizerPlugin extends Plugin {
 			this.backlinkWatcher.setCurrentMonth(month, year);
 		});
 
+		// Persist the notes pinned in the Note Insights panel
+		this.viewManager.setOnPinnedNotesChangeCallback((notePaths: string[]) => {
+			this.settings.pinnedNotes = notePaths;
+			void this.saveSettings();
+		});
+		this.viewManager.setOnSectionsChangeCallback((sections) => {
+			this.settings.insightsSections = sections;
+			void this.saveSettings();
+		});
+
 		// Start watching for note changes
 		this.backlinkWatcher.startWatching();
 
 		// Register code block processors for FEA004
+		// All embedded blocks share one refresh dispatcher
+		this.refreshBus = new CodeBlockRefreshBus(this.app, this.analysisService);
+		this.refreshBus.start(this);
+		// Trackers with a syncGroup navigate together
+		this.navigationSyncBus = new NavigationSyncBus();
+
 		this.counterProcessor = new CounterCodeBlockProcessor(
 			this.app,
 			this,
 			this.analysisService,
-			this.settingsService
+			this.settingsService,
+			this.refreshBus
 		);
 		this.counterProcessor.register();
 
 		this.yearlyProcessor = new YearlyTrackerCodeBlockProcessor(
 			this.app,
 			this,
-			this.analysisService
+			this.analysisService,
+			this.settingsService,
+			this.refreshBus,
+			this.navigationSyncBus
 		);
 		this.yearlyProcessor.register();
 
 		this.monthlyProcessor = new MonthlyTrackerCodeBlockProcessor(
 			this.app,
 			this,
-			this.analysisService
+			this.analysisService,
+			this.settingsService,
+			this.refreshBus,
+			this.navigationSyncBus
 		);
 		this.monthlyProcessor.register();
 
+		this.correlationProcessor = new CorrelationCodeBlockProcessor(
+			this.app,
+			this,
+			this.analysisService,
+			this.settingsService,
+			this.refreshBus
+		);
+		this.correlationProcessor.register();
+
 		// Register context menu manager for FEA004
 		this.contextMenuManager = new NoteInsightContextMenuManager(this.app, this);
 		this.contextMenuManager.register();
 
+		// Register the folder data export commands
+		this.folderDataExportCommand = new FolderDataExportCommand(this.app, this, this.analysisService);
+		this.folderDataExportCommand.register();
+
+		// Show folders and tags in the Note Insights panel from their context menus
+		this.insightsTargetMenuManager = new InsightsTargetMenuManager(this.app, this, (target) => {
+			void this.viewManager.showTarget(target);
+		});
+		this.insightsTargetMenuManager.register();
+
 		// Register for cleanup
 		this.registerEvent(this.app.workspace.on('quit', () => {
 			this.backlinkWatcher.stopWatching();
@@ -130,6 +183,9 @@ export default class VaultVisualizerPlugin extends Plugin {
 		if (this.monthlyProcessor) {
 			this.monthlyProcessor.unload();
 		}
+		if (this.correlationProcessor) {
+			this.correlationProcessor.unload();
+		}
 		if (this.viewManager) {
 			this.viewManager.cleanup();
 		}
@@ -1,22 +1,24 @@
-import { App, Plugin, MarkdownPostProcessorContext, TFile, EventRef } from 'obsidian';
+import { App, Plugin, MarkdownPostProcessorContext, TFile } from 'obsidian';
 import { logger } from '../utils/logger';
 import { BacklinkCounterComponent } from 'src/ui/backlink-counter-component';
 import { YearlyTrackerComponent } from 'src/ui/yearly-tracker-component';
 import { MonthlyTrackerComponent } from 'src/ui/monthly-tracker-component';
+import { CorrelationMatrixComponent } from 'src/ui/correlation-matrix-component';
+import { CodeBlockRefreshBus } from '../services/code-block-refresh-bus';
 
 /**
  * Tracks a code block instance for cleanup and updates
  */
 export interface CodeBlockInstance {
-	component: BacklinkCounterComponent | YearlyTrackerComponent | MonthlyTrackerComponent | {cleanup: () => void} | null;
+	component: BacklinkCounterComponent | YearlyTrackerComponent | MonthlyTrackerComponent | CorrelationMatrixComponent | {cleanup: () => void} | null;
 	codeblockId: string; // ID from the codeblock config (for updates)
-	eventRef: EventRef;
-	type: 'yearly' | 'monthly' | 'counter';
+	type: 'yearly' | 'monthly' | 'counter' | 'correlation';
 	ctx: MarkdownPostProcessorContext;
 	el: HTMLElement;
 	lastKnownPeriod: number | string;
 	isUpdatingCodeblock: boolean;
-	notePath?: string | string[]; // For counter component - track watched notes
+	notePath?: string | string[]; // For counter and monthly tracker components - track watched notes
+	syncGroup?: string; // For yearly and monthly trackers - navigation shared with the other blocks of the group
 }
 
 /**
@@ -26,11 +28,13 @@ export interface CodeBlockInstance {
 export abstract class BaseCodeBlockProcessor {
 	protected app: App;
 	protected plugin: Plugin;
+	protected refreshBus: CodeBlockRefreshBus;
 	protected instances: Map<string, CodeBlockInstance> = new Map();
 
-	constructor(app: App, plugin: Plugin) {
+	constructor(app: App, plugin: Plugin, refreshBus: CodeBlockRefreshBus) {
 		this.app = app;
 		this.plugin = plugin;
+		this.refreshBus = refreshBus;
 	}
 
 	/**
@@ -60,10 +64,8 @@ export abstract class BaseCodeBlockProcessor {
 				instance.component.cleanup();
 			}
 			
-			// Remove event reference if it exists (though usually handled by component)
-			if (instance.eventRef) {
-				this.app.metadataCache.offref(instance.eventRef);
-			}
+			// Stop receiving refreshes for this instance
+			this.refreshBus.unregister(id);
 			
 			this.instances.delete(id);
 		}
@@ -94,6 +96,22 @@ export abstract class BaseCodeBlockProcessor {
 		return canvasFile;
 	}
 
+	/**
+	 * Get the canvas file whose view shows an element (a canvas in another pane than the active one)
+	 */
+	protected getCanvasFileContaining(el: HTMLElement): TFile | null {
+		for (const leaf of this.app.workspace.getLeavesOfType('canvas')) {
+			if (!leaf.view.containerEl.contains(el)) {
+				continue;
+			}
+			// needed to use undocumented API
+			// eslint-disable-next-line @typescript-eslint/no-explicit-any
+			const canvasFile = (leaf.view as any).file;
+			return canvasFile instanceof TFile ? canvasFile : null;
+		}
+		return null;
+	}
+
 	/**
 	 * Check if we're in a canvas context
 	 */
@@ -154,6 +172,16 @@ export abstract class BaseCodeBlockProcessor {
 		return config
 	}
 
+	/**
+	 * Normalize a single or repeated code block value to a list, without empty entries
+	 */
+	protected toArray(value: string | string[] | undefined): string[] {
+		if (!value) {
+			return [];
+		}
+		return (Array.isArray(value) ? value : [value]).map(item => item.trim()).filter(item => !!item);
+	}
+
 	/**
 	 * Generate a unique instance ID for component lifecycle tracking
 	 */
@@ -225,47 +253,49 @@ export abstract class BaseCodeBlockProcessor {
 		propertyName: string,
 		propertyValue: string[]
 	): Promise<void> {
-		const canvasFile = this.getActiveCanvasFile();
+		// Synced blocks are updated from another view: prefer the canvas showing the block
+		const canvasFile = this.getCanvasFileContaining(instance.el) ?? this.getActiveCanvasFile();
 		if (!canvasFile) {
 			logger.error('[BaseCodeBlockProcessor] No active canvas file found');
 			return;
 		}
 
 		try {
-			// Read and parse canvas data
-			const canvasContent = await this.app.vault.read(canvasFile);
-			const canvasData = JSON.parse(canvasContent);
+			// Read, update and save in one step: blocks of a sync group write to the same file at once
+			await this.app.vault.process(canvasFile, (canvasContent) => {
+				const canvasData = JSON.parse(canvasContent);
 
-			// Find text nodes containing matching codeblock by ID
+				// Find text nodes containing matching codeblock by ID
 			 
-			const matchingNodes = [];
-			for (const node of canvasData.nodes || []) {
-				if (node.type === 'text' && typeof node.text === 'string') {
-					if (node.text.includes('```note-insight-') && node.text.includes(`id: ${instance.codeblockId}`)) {
-						matchingNodes.push(node);
+				const matchingNodes = [];
+				for (const node of canvasData.nodes || []) {
+					if (node.type === 'text' && typeof node.text === 'string') {
+						if (node.text.includes('```note-insight-') && node.text.includes(`id: ${instance.codeblockId}`)) {
+							matchingNodes.push(node);
+						}
 					}
 				}
-			}
 
-			if (matchingNodes.length === 0) {
-				logger.warn('[BaseCodeBlockProcessor] No matching canvas nodes found for ID:', instance.codeblockId);
-				return;
-			}
+				if (matchingNodes.length === 0) {
+					logger.warn('[BaseCodeBlockProcessor] No matching canvas nodes found for ID:', instance.codeblockId);
+					return canvasContent;
+				}
 
-			// Update all matching nodes
-			for (const node of matchingNodes) {
-				const lines = node.text.split('\n');
-				const updatedLines = this.updateCodeblockContent(
-					lines,
-					instance.codeblockId,
-					propertyName,
-					propertyValue
-				);
-				node.text = updatedLines.join('\n');
-			}
+				// Update all matching nodes
+				for (const node of matchingNodes) {
+					const lines = node.text.split('\n');
+					const updatedLines = this.updateCodeblockContent(
+						lines,
+						instance.codeblockId,
+						propertyName,
+						propertyValue
+					);
+					node.text = updatedLines.join('\n');
+				}
 
-		// Save canvas file
-		await this.app.vault.modify(canvasFile, JSON.stringify(canvasData, null, 2));
+				// Save canvas file
+				return JSON.stringify(canvasData, null, 2);
+			});
 	} catch (error) {
 		logger.error('[BaseCodeBlockProcessor] Canvas update error:', error);
 		}
@@ -287,21 +317,19 @@ export abstract class BaseCodeBlockProcessor {
 		}
 
 		try {
-			// Read note content
-			const content = await this.app.vault.read(file);
-			const lines = content.split('\n');
-
-			// Update codeblock content
-			const updatedLines = this.updateCodeblockContent(
-				lines,
-				instance.codeblockId,
-				propertyName,
-				propertyValue
-			);
-
-		// Write updated content
-		const updatedContent = updatedLines.join('\n');
-		await this.app.vault.modify(file, updatedContent);
+			// Read, update and write the note in one step, so concurrent updates are not lost
+			await this.app.vault.process(file, (content) => {
+				const lines = content.split('\n');
+
+				// Update codeblock content
+				const updatedLines = this.updateCodeblockContent(
+					lines,
+					instance.codeblockId,
+					propertyName,
+					propertyValue
+				);
+				return updatedLines.join('\n');
+			});
 	} catch (error) {
 		logger.error('[BaseCodeBlockProcessor] Note update error:', error);
 		}
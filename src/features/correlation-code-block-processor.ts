@@ -0,0 +1,224 @@
+import { App, Plugin, MarkdownPostProcessorContext, MarkdownRenderChild } from 'obsidian';
+import { BaseCodeBlockProcessor } from './base-code-block-processor';
+import { CorrelationMatrixComponent } from '../ui/correlation-matrix-component';
+import { BacklinkAnalysisService } from '../services/backlink-analysis-service';
+import { CodeBlockRefreshBus } from '../services/code-block-refresh-bus';
+import { SettingsService } from '../services/settings-service';
+import { TimePeriod, CorrelationMetric, CustomDateRange } from '../types';
+import { DateRangeCalculator } from '../utils/date-range-calculator';
+import { logger } from '../utils/logger';
+
+/**
+ * Configuration parsed from correlation code block
+ */
+interface CorrelationCodeBlockConfig {
+	id: string; // Required - written by insert command
+	notePath: string[];
+	folderPath: string[];
+	selectedPeriod: TimePeriod;
+	customRange?: CustomDateRange; // startDate/endDate used by the custom period
+	metric: CorrelationMetric;
+}
+
+/**
+ * Processes note-insight-correlation code blocks
+ * Handles correlation matrix rendering and persistence
+ */
+export class CorrelationCodeBlockProcessor extends BaseCodeBlockProcessor {
+	private analysisService: BacklinkAnalysisService;
+	private settingsService: SettingsService;
+
+	constructor(
+		app: App,
+		plugin: Plugin,
+		analysisService: BacklinkAnalysisService,
+		settingsService: SettingsService,
+		refreshBus: CodeBlockRefreshBus
+	) {
+		super(app, plugin, refreshBus);
+		this.analysisService = analysisService;
+		this.settingsService = settingsService;
+	}
+
+	/**
+	 * Register the correlation code block processor
+	 */
+	register(): void {
+		this.plugin.registerMarkdownCodeBlockProcessor(
+			'note-insight-correlation',
+			this.process.bind(this)
+		);
+	}
+
+	/**
+	 * Process a correlation code block
+	 */
+	process(
+		source: string,
+		el: HTMLElement,
+		ctx: MarkdownPostProcessorContext
+	): void {
+		try {
+			const config = this.parseConfig(source);
+
+			// Cleanup existing instance if any (prevents memory leaks)
+			this.cleanupInstance(config.id);
+
+			// Create container
+			const container = el.createEl('div', { cls: 'note-insight-code-block correlation' });
+			const matrixContainer = container.createEl('div', { cls: 'correlation-matrix-wrapper' });
+
+			const matrix = new CorrelationMatrixComponent(
+				matrixContainer,
+				this.app,
+				this.analysisService.getClassifier(),
+				this.analysisService,
+				this.settingsService,
+				(period: TimePeriod) => this.onPeriodChanged(ctx, config.id, period),
+				(metric: CorrelationMetric) => this.onMetricChanged(ctx, config.id, metric)
+			);
+
+			matrix.setCustomRange(config.customRange);
+			matrix.setSelectedPeriod(config.selectedPeriod);
+			matrix.setMetric(config.metric);
+			matrix.updateWatchedItems({
+				notePath: config.notePath,
+				folderPath: config.folderPath
+			});
+
+			// Refresh when a watched note's backlinks or a watched folder change
+			this.refreshBus.register(config.id, { notePaths: config.notePath, folderPaths: config.folderPath }, () => {
+				const instance = this.instances.get(config.id);
+				if (!instance || instance.isUpdatingCodeblock) {
+					return;
+				}
+
+				matrix.updateWatchedItems({
+					notePath: config.notePath,
+					folderPath: config.folderPath
+				});
+			});
+
+			// Store instance
+			this.instances.set(config.id, {
+				component: matrix,
+				codeblockId: config.id,
+				type: 'correlation',
+				ctx,
+				el,
+				lastKnownPeriod: config.selectedPeriod,
+				isUpdatingCodeblock: false,
+				notePath: config.notePath
+			});
+
+			// Register cleanup
+			const renderChild = new MarkdownRenderChild(container);
+			renderChild.onunload = () => {
+				this.cleanupInstance(config.id);
+			};
+			ctx.addChild(renderChild);
+		} catch (error) {
+			logger.error('[CorrelationCodeBlockProcessor] Error:', error);
+			let errorMessage = 'Error rendering correlation matrix';
+			if (error instanceof Error) {
+				errorMessage = `Error rendering correlation matrix: ${error.message}`;
+			}
+			el.createEl('div', {
+				text: errorMessage,
+				cls: 'note-insight-error'
+			});
+		}
+	}
+
+	/**
+	 * Parse correlation configuration from code block source
+	 */
+	private parseConfig(source: string): CorrelationCodeBlockConfig {
+		const rawConfig = this.parseCodeBlockConfig(source);
+
+		// Validate id (required)
+		if (typeof rawConfig.id !== 'string' || !rawConfig.id) {
+			throw new Error(`Invalid code block config: missing required 'id' property`);
+		}
+
+		// notePath and folderPath may be repeated - one path per line
+		const toArray = (value: string | string[] | undefined): string[] => {
+			const values = Array.isArray(value) ? value : (value ? [value] : []);
+			return values.filter(path => path && path !== 'undefined');
+		};
+
+		// Parse selectedPeriod with validation
+		const selectedPeriod = Object.values(TimePeriod).includes(rawConfig.selectedPeriod as TimePeriod)
+			? rawConfig.selectedPeriod as TimePeriod
+			: TimePeriod.PAST_90_DAYS;
+
+		// Parse startDate/endDate - only kept when both are valid YYYY-MM-DD dates
+		let customRange: CustomDateRange | undefined = undefined;
+		if (typeof rawConfig.startDate === 'string' && typeof rawConfig.endDate === 'string') {
+			const candidate = { startDate: rawConfig.startDate, endDate: rawConfig.endDate };
+			if (DateRangeCalculator.parseCustomRange(candidate)) {
+				customRange = candidate;
+			}
+		}
+
+		// Parse metric with validation
+		const metric = Object.values(CorrelationMetric).includes(rawConfig.metric as CorrelationMetric)
+			? rawConfig.metric as CorrelationMetric
+			: CorrelationMetric.LIFT;
+
+		return {
+			id: rawConfig.id,
+			notePath: toArray(rawConfig.notePath),
+			folderPath: toArray(rawConfig.folderPath),
+			selectedPeriod,
+			customRange,
+			metric
+		};
+	}
+
+	/**
+	 * Handle period selection change
+	 */
+	private onPeriodChanged(
+		ctx: MarkdownPostProcessorContext,
+		instanceId: string,
+		newPeriod: TimePeriod
+	): void {
+		const instance = this.instances.get(instanceId);
+		if (!instance || instance.isUpdatingCodeblock) {
+			return;
+		}
+
+		if (instance.lastKnownPeriod === newPeriod) {
+			return;
+		}
+
+		instance.isUpdatingCodeblock = true;
+
+		this.updateCodeblockProperty(ctx, instance, 'selectedPeriod', newPeriod).catch(() => {});
+		setTimeout(() => {
+			instance.isUpdatingCodeblock = false;
+		}, 100);
+	}
+
+	/**
+	 * Handle metric toggle
+	 */
+	private onMetricChanged(
+		ctx: MarkdownPostProcessorContext,
+		instanceId: string,
+		newMetric: CorrelationMetric
+	): void {
+		const instance = this.instances.get(instanceId);
+		if (!instance || instance.isUpdatingCodeblock) {
+			return;
+		}
+
+		instance.isUpdatingCodeblock = true;
+
+		this.updateCodeblockProperty(ctx, instance, 'metric', newMetric).catch(() => {});
+		setTimeout(() => {
+			instance.isUpdatingCodeblock = false;
+		}, 100);
+	}
+}
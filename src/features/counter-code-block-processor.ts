@@ -2,9 +2,12 @@ import { App, Plugin, MarkdownPostProcessorContext, MarkdownRenderChild } from '
 import { BaseCodeBlockProcessor } from './base-code-block-processor';
 import { BacklinkCounterComponent } from '../ui/backlink-counter-component';
 import { BacklinkAnalysisService } from '../services/backlink-analysis-service';
+import { CodeBlockRefreshBus } from '../services/code-block-refresh-bus';
 import { SettingsService } from '../services/settings-service';
-import { TimePeriod, DisplayMode, WatchMode } from '../types';
-import { debounce } from '../utils/debounce';
+import { TimePeriod, DisplayMode, WatchMode, PeriodicGranularity, CustomDateRange, SignalSourceConfig, SignalSourceType, TimeSeriesGranularity, TimeSeriesOptions, DEFAULT_TIME_SERIES_OPTIONS, ValueAggregation } from '../types';
+import { parseSignalSourceConfig } from '../services/signal-sources';
+import { ValueAggregator } from '../utils/value-aggregator';
+import { DateRangeCalculator } from '../utils/date-range-calculator';
 import { logger } from '../utils/logger';
 
 
@@ -15,9 +18,18 @@ interface CounterCodeBlockConfig {
 	id: string; // Required - written by insert command
 	notePath?: string | string[];
 	watchMode?: WatchMode; // FEA009: watch mode (note or folder)
-	folderPath?: string | string[]; // FEA009: folder path for folder watching
+	folderPath: string[]; // FEA009: folders watched in folder mode (one path per line)
+	recursive?: boolean; // Include the notes of nested folders (default true)
+	exclude: string[]; // Glob patterns of note paths left out in folder mode
 	selectedPeriod?: TimePeriod;
 	displayAs?: DisplayMode; // FEA007: Display mode support
+	includePeriodic?: PeriodicGranularity[]; // Weekly, monthly and quarterly notes to count
+	customRange?: CustomDateRange; // startDate/endDate used by the custom period
+	compareToPrevious?: boolean; // Show change since the previous equivalent window
+	sources?: SignalSourceConfig[]; // Tags, properties or unresolved links to count (one source per line)
+	aggregate?: ValueAggregation; // Weighted counting over the numbers logged with the links or mentions
+	query?: string; // Notes selected by tags, properties and path globs (replaces notePath and folderPath)
+	timeSeries: TimeSeriesOptions; // granularity, cumulative and movingAverage lines of the time-series display
 }
 
 /**
@@ -33,9 +45,10 @@ export class CounterCodeBlockProcessor extends BaseCodeBlockProcessor {
 		app: App,
 		plugin: Plugin,
 		analysisService: BacklinkAnalysisService,
-		settingsService: SettingsService
+		settingsService: SettingsService,
+		refreshBus: CodeBlockRefreshBus
 	) {
-		super(app, plugin);
+		super(app, plugin, refreshBus);
 		this.analysisService = analysisService;
 		this.settingsService = settingsService;
 	}
@@ -72,21 +85,8 @@ export class CounterCodeBlockProcessor extends BaseCodeBlockProcessor {
 				return;
 			}
 		
-			// Validate required fields
-			// FEA009: Allow empty state (no notePath and no folderPath) for mode toggle
-			const hasNotes = config.notePath && config.notePath.length > 0;
-			const hasFolder = config.folderPath && config.folderPath.length > 0;
-			const isEmptyState = !hasNotes && !hasFolder;
-			
-			// Empty state is allowed - it shows the mode toggle UI
-			// Other states require either notes or folder path
-			if (!isEmptyState && !hasNotes && !hasFolder) {
-				el.createEl('div', {
-					text: 'Error: note path or folder path must be specified',
-					cls: 'note-insight-error'
-				});
-				return;
-			}
+			// No selection is required: notes, a folder or a query are watched when set,
+			// otherwise the empty state shows the mode toggle UI (FEA009)
 
 			if (!config.id) {
 				el.createEl('div', {
@@ -115,8 +115,14 @@ export class CounterCodeBlockProcessor extends BaseCodeBlockProcessor {
 				(notePath: string) => this.onNoteRemoved(ctx, config.id, notePath),
 				(mode: DisplayMode) => this.onDisplayModeChanged(ctx, config.id, mode),
 				(mode: WatchMode) => this.onWatchModeChanged(ctx, config.id, mode),
-				(folderPath: string) => this.onFolderAdded(ctx, config.id, folderPath),
-				() => this.onFolderRemoved(ctx, config.id)
+				(folderPath: string) => this.onFolderAdded(ctx, config.id, config.folderPath, folderPath),
+				(folderPath: string) => this.onFolderRemoved(ctx, config.id, config.folderPath, folderPath),
+				(granularities: PeriodicGranularity[]) => this.onIncludePeriodicChanged(ctx, config.id, granularities),
+				(customRange: CustomDateRange) => this.onCustomRangeChanged(ctx, config.id, customRange),
+				(enabled: boolean) => this.onCompareToPreviousChanged(ctx, config.id, enabled),
+				(recursive: boolean) => this.onRecursiveChanged(ctx, config.id, recursive),
+				(patterns: string[]) => this.onExcludeChanged(ctx, config.id, patterns),
+				(options: TimeSeriesOptions) => this.onTimeSeriesOptionsChanged(ctx, config.id, options)
 			);
 
 			// Set initial period and display mode
@@ -124,6 +130,7 @@ export class CounterCodeBlockProcessor extends BaseCodeBlockProcessor {
 			const initialDisplayMode = config.displayAs ?? DisplayMode.DEFAULT;
 			// FEA009: Initialize watch mode (default to 'note' for backward compatibility)
 			const initialWatchMode = config.watchMode ?? WatchMode.NOTE;
+			counter.setCustomRange(config.customRange);
 			counter.setSelectedPeriod(initialPeriod);
 			counter.setDisplayMode(initialDisplayMode);
 
@@ -133,10 +140,27 @@ export class CounterCodeBlockProcessor extends BaseCodeBlockProcessor {
 				notePath: config.notePath,
 				displayAs: initialDisplayMode,
 				watchMode: initialWatchMode,
-				folderPath: config.folderPath
+				folderPath: config.folderPath,
+				recursive: config.recursive,
+				exclude: config.exclude,
+				includePeriodic: config.includePeriodic,
+				compareToPrevious: config.compareToPrevious,
+				sources: config.sources,
+				aggregate: config.aggregate,
+				query: config.query,
+				timeSeries: config.timeSeries
 			});
-			// Register metadata-cache listener for auto-refresh
-			const eventRef = this.app.metadataCache.on('resolved', debounce(() => {
+			// Refresh when a watched note's backlinks, the watched folder or a signal source change
+			const sources = config.sources ?? [];
+			const notePaths = Array.isArray(config.notePath) ? config.notePath : (config.notePath ? [config.notePath] : []);
+			const folderPaths = [...config.folderPath];
+			notePaths.push(...sources.filter(source => source.type === SignalSourceType.LINK).map(source => source.value));
+			// Logged values are not links: aggregated blocks also refresh when periodic notes change
+			const aggregation = config.aggregate ?? ValueAggregation.COUNT;
+			const signals = aggregation !== ValueAggregation.COUNT || sources.some(source => source.type !== SignalSourceType.LINK);
+			// A query can start or stop matching any note when its tags or properties change
+			const metadata = !!config.query;
+			this.refreshBus.register(config.id, { notePaths, folderPaths, signals, metadata }, () => {
 				const instance = this.instances.get(config.id);
 				if (!instance || instance.isUpdatingCodeblock) {
 					return;
@@ -146,28 +170,36 @@ export class CounterCodeBlockProcessor extends BaseCodeBlockProcessor {
 				// FEA009: Handle both note and folder modes
 				const currentDisplayMode = config.displayAs ?? DisplayMode.DEFAULT;
 				const hasNotes = instance.notePath && instance.notePath.length > 0;
-				if (hasNotes) {
+				if (config.query) {
+					// Re-evaluate the query against the current metadata
+					void counter.updateWatchedItems({
+						query: config.query,
+						displayAs: currentDisplayMode
+					});
+				} else if (hasNotes) {
 					void counter.updateWatchedItems({ 
 						notePath: instance.notePath,
 						displayAs: currentDisplayMode
 					});
-			} else if (config.folderPath) {
-				// Trigger re-render by updating with the same folder path
+			} else if (config.folderPath.length > 0) {
+				// Trigger re-render by updating with the same folder paths
 				void counter.updateWatchedItems({
 					folderPath: config.folderPath,
 					displayAs: currentDisplayMode,
 					watchMode: WatchMode.FOLDER
 				});
+				} else if (sources.length > 0) {
+					// Only signal sources - recount them with the current state
+					void counter.updateWatchedItems({
+						displayAs: currentDisplayMode
+					});
 				}
-			}, 5000));
-
-			this.plugin.registerEvent(eventRef);
+			});
 
 			// Store instance
 			this.instances.set(config.id, {
 				component: counter,
 				codeblockId: config.id,
-				eventRef,
 				type: 'counter',
 				ctx,
 				el,
@@ -223,19 +255,14 @@ export class CounterCodeBlockProcessor extends BaseCodeBlockProcessor {
 			config.watchMode = WatchMode.NOTE;
 		}
 
-		// FEA009: Parse folderPath - keep as string if present, undefined otherwise
-		if (typeof rawConfig.folderPath === 'string') {
-			// Only set folderPath if it's a non-empty string and not the literal 'undefined'
-			if (rawConfig.folderPath && rawConfig.folderPath !== 'undefined') {
-				config.folderPath = rawConfig.folderPath;
-			}
-		} else if (rawConfig.folderPath) {
-			// Convert non-string values to string if present
-			const folderPathStr = JSON.stringify(rawConfig.folderPath);
-			if (folderPathStr && folderPathStr !== 'undefined') {
-				config.folderPath = folderPathStr;
-			}
-		}
+		// FEA009: Parse folderPath - one folder per line, the literal 'undefined' ignored
+		const folderPath = this.toArray(rawConfig.folderPath).filter(path => path !== 'undefined');
+
+		// Parse recursive - only the literal 'false' leaves out nested folders
+		const recursive = rawConfig.recursive === 'false' ? false : undefined;
+
+		// Parse exclude - one glob pattern per line
+		const exclude = this.toArray(rawConfig.exclude);
 
 		// Parse selectedPeriod with validation
 		if (rawConfig.selectedPeriod && Object.values(TimePeriod).includes(rawConfig.selectedPeriod as TimePeriod)) {
@@ -244,13 +271,58 @@ export class CounterCodeBlockProcessor extends BaseCodeBlockProcessor {
 			config.selectedPeriod = TimePeriod.PAST_30_DAYS;
 		}
 
-		// Parse displayMode with validation
-		if (rawConfig.displayMode && Object.values(DisplayMode).includes(rawConfig.displayMode as DisplayMode)) {
-			config.displayMode = rawConfig.displayMode as DisplayMode;
+		// Parse displayMode with validation (displayAs is the key written by the mode toggle)
+		const rawDisplayMode = rawConfig.displayAs ?? rawConfig.displayMode;
+		if (rawDisplayMode && Object.values(DisplayMode).includes(rawDisplayMode as DisplayMode)) {
+			config.displayMode = rawDisplayMode as DisplayMode;
 		} else {
 			config.displayMode = DisplayMode.DEFAULT;
 		}
 
+		// Parse includePeriodic - one granularity per line, invalid values ignored
+		const rawPeriodic = rawConfig.includePeriodic;
+		const periodicValues = Array.isArray(rawPeriodic) ? rawPeriodic : (rawPeriodic ? [rawPeriodic] : []);
+		const includePeriodic = periodicValues.filter(
+			(value): value is PeriodicGranularity => Object.values(PeriodicGranularity).includes(value as PeriodicGranularity)
+		);
+
+		// Parse startDate/endDate - only kept when both are valid YYYY-MM-DD dates
+		let customRange: CustomDateRange | undefined = undefined;
+		if (typeof rawConfig.startDate === 'string' && typeof rawConfig.endDate === 'string') {
+			const candidate = { startDate: rawConfig.startDate, endDate: rawConfig.endDate };
+			if (DateRangeCalculator.parseCustomRange(candidate)) {
+				customRange = candidate;
+			}
+		}
+
+		// Parse compareToPrevious - only the literal 'true' enables it
+		const compareToPrevious = rawConfig.compareToPrevious === 'true';
+
+		// Parse sources - one per line, invalid values ignored
+		const rawSources = rawConfig.source;
+		const sourceValues = Array.isArray(rawSources) ? rawSources : (rawSources ? [rawSources] : []);
+		const sources = sourceValues
+			.map(value => parseSignalSourceConfig(value))
+			.filter((source): source is SignalSourceConfig => source !== null);
+
+		// Parse aggregate - invalid values fall back to counting
+		const aggregate = ValueAggregator.parseAggregation(rawConfig.aggregate);
+
+		// Parse time-series options - invalid values fall back to one point per day, no smoothing
+		const rawGranularity = rawConfig.granularity as TimeSeriesGranularity;
+		const movingAverage = typeof rawConfig.movingAverage === 'string' ? parseInt(rawConfig.movingAverage, 10) : NaN;
+		const timeSeries: TimeSeriesOptions = {
+			granularity: Object.values(TimeSeriesGranularity).includes(rawGranularity) ? rawGranularity : DEFAULT_TIME_SERIES_OPTIONS.granularity,
+			cumulative: rawConfig.cumulative === 'true',
+			movingAverage: movingAverage > 1 ? movingAverage : DEFAULT_TIME_SERIES_OPTIONS.movingAverage
+		};
+
+		// Parse query - several query lines must all match
+		const queryLines = this.toArray(rawConfig.query).map(line => line.trim()).filter(line => line.length > 0);
+		const query = queryLines.length > 1
+			? queryLines.map(line => `(${line})`).join(' and ')
+			: queryLines[0];
+
 		// if watchMode is not valid enum value, make it undefined
 
 
@@ -259,9 +331,18 @@ export class CounterCodeBlockProcessor extends BaseCodeBlockProcessor {
 			id: config.id,
 			notePath: config.notePath,
 			watchMode: Object.values(WatchMode).includes(config.watchMode as WatchMode) ? config.watchMode as WatchMode : WatchMode.NOTE,
-			folderPath: config.folderPath,
+			folderPath,
+			recursive,
+			exclude,
 			selectedPeriod: Object.values(TimePeriod).includes(config.selectedPeriod as TimePeriod) ? config.selectedPeriod as TimePeriod : TimePeriod.PAST_30_DAYS,
-			displayAs: Object.values(DisplayMode).includes(config.displayMode as DisplayMode) ? config.displayMode as DisplayMode : DisplayMode.DEFAULT
+			displayAs: Object.values(DisplayMode).includes(config.displayMode as DisplayMode) ? config.displayMode as DisplayMode : DisplayMode.DEFAULT,
+			includePeriodic,
+			customRange,
+			compareToPrevious,
+			sources,
+			aggregate,
+			query,
+			timeSeries
 		}
 		return JSON.parse(JSON.stringify(this.config)) as CounterCodeBlockConfig;
 	}
@@ -398,16 +479,17 @@ export class CounterCodeBlockProcessor extends BaseCodeBlockProcessor {
 	private onFolderAdded(
 		ctx: MarkdownPostProcessorContext,
 		instanceId: string,
+		folderPaths: string[],
 		folderPath: string
 	): void {
 		const instance = this.instances.get(instanceId);
-		if (!instance || instance.isUpdatingCodeblock) {
+		if (!instance || instance.isUpdatingCodeblock || folderPaths.includes(folderPath)) {
 			return;
 		}
 
 		instance.isUpdatingCodeblock = true;
 
-		this.updateCodeblockProperty(ctx, instance, 'folderPath', folderPath).catch(() => {});
+		this.updateCodeblockProperty(ctx, instance, 'folderPath', [...folderPaths, folderPath]).catch(() => {});
 		setTimeout(() => {
 			instance.isUpdatingCodeblock = false;
 		}, 100);
@@ -418,7 +500,9 @@ export class CounterCodeBlockProcessor extends BaseCodeBlockProcessor {
 	 */
 	private onFolderRemoved(
 		ctx: MarkdownPostProcessorContext,
-		instanceId: string
+		instanceId: string,
+		folderPaths: string[],
+		folderPath: string
 	): void {
 		const instance = this.instances.get(instanceId);
 		if (!instance || instance.isUpdatingCodeblock) {
@@ -427,11 +511,153 @@ export class CounterCodeBlockProcessor extends BaseCodeBlockProcessor {
 
 		instance.isUpdatingCodeblock = true;
 
-		// Remove folderPath property by writing empty string array
-		this.updateCodeblockProperty(ctx, instance, 'folderPath', []).catch(() => {});
+		// Removing the last folder writes an empty array, which removes the folderPath property
+		this.updateCodeblockProperty(ctx, instance, 'folderPath', folderPaths.filter(path => path !== folderPath)).catch(() => {});
 		setTimeout(() => {
 			instance.isUpdatingCodeblock = false;
 		}, 100);
 	}
-}
 
+	/**
+	 * Handle nested folders toggle
+	 */
+	private onRecursiveChanged(
+		ctx: MarkdownPostProcessorContext,
+		instanceId: string,
+		recursive: boolean
+	): void {
+		const instance = this.instances.get(instanceId);
+		if (!instance || instance.isUpdatingCodeblock) {
+			return;
+		}
+
+		instance.isUpdatingCodeblock = true;
+
+		// Nested folders are included by default: only 'false' is written
+		this.updateCodeblockProperty(ctx, instance, 'recursive', recursive ? [] : 'false').catch(() => {});
+		setTimeout(() => {
+			instance.isUpdatingCodeblock = false;
+		}, 100);
+	}
+
+	/**
+	 * Handle exclusion patterns change
+	 */
+	private onExcludeChanged(
+		ctx: MarkdownPostProcessorContext,
+		instanceId: string,
+		patterns: string[]
+	): void {
+		const instance = this.instances.get(instanceId);
+		if (!instance || instance.isUpdatingCodeblock) {
+			return;
+		}
+
+		instance.isUpdatingCodeblock = true;
+
+		this.updateCodeblockProperty(ctx, instance, 'exclude', patterns).catch(() => {});
+		setTimeout(() => {
+			instance.isUpdatingCodeblock = false;
+		}, 100);
+	}
+
+	/**
+	 * Handle periodic notes inclusion change
+	 */
+	private onIncludePeriodicChanged(
+		ctx: MarkdownPostProcessorContext,
+		instanceId: string,
+		granularities: PeriodicGranularity[]
+	): void {
+		const instance = this.instances.get(instanceId);
+		if (!instance || instance.isUpdatingCodeblock) {
+			return;
+		}
+
+		instance.isUpdatingCodeblock = true;
+
+		// Empty array removes the includePeriodic lines
+		this.updateCodeblockProperty(ctx, instance, 'includePeriodic', granularities).catch(() => {});
+		setTimeout(() => {
+			instance.isUpdatingCodeblock = false;
+		}, 100);
+	}
+
+	/**
+	 * Handle custom range change
+	 * Persists the range and switches the period to custom, one property at a time
+	 */
+	private onCustomRangeChanged(
+		ctx: MarkdownPostProcessorContext,
+		instanceId: string,
+		customRange: CustomDateRange
+	): void {
+		const instance = this.instances.get(instanceId);
+		if (!instance || instance.isUpdatingCodeblock) {
+			return;
+		}
+
+		instance.isUpdatingCodeblock = true;
+
+		// Sequential writes - each one re-reads the file the previous one modified
+		void this.updateCodeblockProperty(ctx, instance, 'startDate', customRange.startDate)
+			.then(() => this.updateCodeblockProperty(ctx, instance, 'endDate', customRange.endDate))
+			.then(() => this.updateCodeblockProperty(ctx, instance, 'selectedPeriod', TimePeriod.CUSTOM))
+			.catch(() => {})
+			.then(() => {
+				setTimeout(() => {
+					instance.isUpdatingCodeblock = false;
+				}, 100);
+			});
+	}
+
+	/**
+	 * Handle time-series options change - default values remove their line
+	 */
+	private onTimeSeriesOptionsChanged(
+		ctx: MarkdownPostProcessorContext,
+		instanceId: string,
+		options: TimeSeriesOptions
+	): void {
+		const instance = this.instances.get(instanceId);
+		if (!instance || instance.isUpdatingCodeblock) {
+			return;
+		}
+
+		instance.isUpdatingCodeblock = true;
+
+		// Sequential writes - each one re-reads the file the previous one modified
+		const granularity = options.granularity !== TimeSeriesGranularity.DAY ? options.granularity : [];
+		void this.updateCodeblockProperty(ctx, instance, 'granularity', granularity)
+			.then(() => this.updateCodeblockProperty(ctx, instance, 'cumulative', options.cumulative ? 'true' : []))
+			.then(() => this.updateCodeblockProperty(ctx, instance, 'movingAverage', options.movingAverage > 0 ? options.movingAverage.toString() : []))
+			.catch(() => {})
+			.then(() => {
+				setTimeout(() => {
+					instance.isUpdatingCodeblock = false;
+				}, 100);
+			});
+	}
+
+	/**
+	 * Handle previous period comparison toggle
+	 */
+	private onCompareToPreviousChanged(
+		ctx: MarkdownPostProcessorContext,
+		instanceId: string,
+		enabled: boolean
+	): void {
+		const instance = this.instances.get(instanceId);
+		if (!instance || instance.isUpdatingCodeblock) {
+			return;
+		}
+
+		instance.isUpdatingCodeblock = true;
+
+		// Empty array removes the compareToPrevious line
+		this.updateCodeblockProperty(ctx, instance, 'compareToPrevious', enabled ? 'true' : []).catch(() => {});
+		setTimeout(() => {
+			instance.isUpdatingCodeblock = false;
+		}, 100);
+	}
+}
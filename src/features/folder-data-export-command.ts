@@ -0,0 +1,79 @@
+import { App, Notice, Plugin, TFolder } from 'obsidian';
+import { DataExportFormat } from '../types';
+import { BacklinkAnalysisService } from '../services/backlink-analysis-service';
+import { FolderSelector } from '../ui/folder-selector';
+import { DataExporter } from '../utils/data-exporter';
+import { DateRangeCalculator } from '../utils/date-range-calculator';
+import { FolderResolver } from '../utils/folder-resolver';
+import { logger } from '../utils/logger';
+
+/**
+ * Commands exporting the full date × note matrix of a folder as CSV or JSON
+ * One row per day from the first to the last daily note linking a note of the folder
+ */
+export class FolderDataExportCommand {
+	private app: App;
+	private plugin: Plugin;
+	private analysisService: BacklinkAnalysisService;
+	private folderResolver: FolderResolver;
+
+	constructor(app: App, plugin: Plugin, analysisService: BacklinkAnalysisService) {
+		this.app = app;
+		this.plugin = plugin;
+		this.analysisService = analysisService;
+		this.folderResolver = new FolderResolver(app);
+	}
+
+	/**
+	 * Register one command per format
+	 */
+	register(): void {
+		for (const format of [DataExportFormat.CSV, DataExportFormat.JSON]) {
+			this.plugin.addCommand({
+				id: `export-folder-data-${format}`,
+				name: `Export folder data as ${format.toUpperCase()}`,
+				callback: () => {
+					new FolderSelector(this.app, (folder: TFolder) => {
+						void this.exportFolder(folder, format);
+					}).open();
+				}
+			});
+		}
+	}
+
+	/**
+	 * Export the daily links to every note of a folder (nested folders included)
+	 */
+	private async exportFolder(folder: TFolder, format: DataExportFormat): Promise<void> {
+		const files = this.folderResolver.getNotesInFolder(folder.path);
+		if (files.length === 0) {
+			new Notice(`No notes in ${folder.path}`);
+			return;
+		}
+
+		// No date bounds: the table spans whatever years the journal goes back to
+		const series = files.map(file => ({
+			// Path within the folder keeps notes with the same name apart
+			title: file.path.substring(folder.path.length + 1).replace(/\.md$/, ''),
+			data: this.analysisService.getAllDailyBacklinks(file)
+		}));
+
+		const dates = series.reduce<string[]>((keys, item) => keys.concat(Object.keys(item.data)), []).sort();
+		const startDate = dates.length > 0 ? DateRangeCalculator.parseDateKey(dates[0]) : null;
+		const endDate = dates.length > 0 ? DateRangeCalculator.parseDateKey(dates[dates.length - 1]) : null;
+		if (!startDate || !endDate) {
+			new Notice(`No daily note links to the notes of ${folder.path}`);
+			return;
+		}
+
+		try {
+			const table = DataExporter.buildDailyTable(DataExporter.getDates({ startDate, endDate }), series);
+			const sourcePath = this.app.workspace.getActiveFile()?.path ?? '';
+			const file = await new DataExporter(this.app).export(table, format, `${folder.name} data`, sourcePath);
+			new Notice(`Exported ${table.rows.length} days × ${files.length} notes to ${file.path}`);
+		} catch (error) {
+			logger.error('[FolderDataExportCommand] Export failed:', error);
+			new Notice('Export failed, see the console for details');
+		}
+	}
+}
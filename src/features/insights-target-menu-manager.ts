@@ -0,0 +1,80 @@
+import { App, Menu, Plugin, TAbstractFile, TFolder } from 'obsidian';
+import { InsightsTarget, InsightsTargetType } from '../types';
+
+/**
+ * Adds "Show insights" items to the folder menu of the file explorer and to tags of the tag pane
+ * FEA001: Note Insights panel for folders and tags
+ */
+export class InsightsTargetMenuManager {
+	private app: App;
+	private plugin: Plugin;
+	private onShowTarget: (target: InsightsTarget) => void;
+
+	constructor(app: App, plugin: Plugin, onShowTarget: (target: InsightsTarget) => void) {
+		this.app = app;
+		this.plugin = plugin;
+		this.onShowTarget = onShowTarget;
+	}
+
+	/**
+	 * Register the file menu event and the tag pane context menu
+	 */
+	register(): void {
+		this.plugin.registerEvent(
+			this.app.workspace.on('file-menu', (menu: Menu, file: TAbstractFile) => {
+				if (file instanceof TFolder) {
+					this.addMenuItem(menu, { type: InsightsTargetType.FOLDER, value: file.path });
+				}
+			})
+		);
+
+		// The tag pane has no menu event: its items are recognized in the DOM
+		this.plugin.registerDomEvent(this.app.workspace.containerEl, 'contextmenu', (event: MouseEvent) => {
+			const tag = this.getTagPaneTag(event.target);
+			if (!tag) {
+				return;
+			}
+			event.preventDefault();
+			const menu = new Menu();
+			this.addMenuItem(menu, { type: InsightsTargetType.TAG, value: tag });
+			menu.showAtMouseEvent(event);
+		});
+	}
+
+	private addMenuItem(menu: Menu, target: InsightsTarget): void {
+		menu.addItem((item) => {
+			item
+				.setTitle('Show insights')
+				.setIcon('bar-chart-3')
+				.onClick(() => {
+					this.onShowTarget(target);
+				});
+		});
+	}
+
+	/**
+	 * Full name of the tag pane item under the pointer (without "#")
+	 * Nested tags only show their last segment, so the segments of the parent items are prepended
+	 */
+	private getTagPaneTag(eventTarget: EventTarget | null): string | null {
+		if (!(eventTarget instanceof HTMLElement) || !eventTarget.closest('.tag-pane-tag')) {
+			return null;
+		}
+
+		const segments: string[] = [];
+		for (let item = eventTarget.closest('.tree-item'); item; item = item.parentElement?.closest('.tree-item') ?? null) {
+			const text = item.querySelector(':scope > .tag-pane-tag .tree-item-inner-text, :scope > .tag-pane-tag .tag-pane-tag-text');
+			if (text?.textContent) {
+				segments.unshift(text.textContent.trim());
+			}
+		}
+		if (segments.length === 0) {
+			// Flat list layout: the item holds the full tag name
+			const text = eventTarget.closest('.tag-pane-tag')?.querySelector('.tree-item-inner-text, .tag-pane-tag-text');
+			segments.push(text?.textContent?.trim() ?? '');
+		}
+
+		const tag = segments.join('/').replace(/^#/, '');
+		return tag || null;
+	}
+}
@@ -2,7 +2,13 @@ import { App, Plugin, MarkdownPostProcessorContext, MarkdownRenderChild, TFile }
 import { BaseCodeBlockProcessor } from './base-code-block-processor';
 import { MonthlyTrackerComponent } from '../ui/monthly-tracker-component';
 import { BacklinkAnalysisService } from '../services/backlink-analysis-service';
-import { debounce } from '../utils/debounce';
+import { CodeBlockRefreshBus } from '../services/code-block-refresh-bus';
+import { NavigationSyncBus, SyncedPeriod } from '../services/navigation-sync-bus';
+import { SettingsService } from '../services/settings-service';
+import { SignalSource, parseSignalSourceConfig } from '../services/signal-sources';
+import { SignalSourceConfig, SignalSourceType, ValueAggregation, WatchMode, TrackerSeries, MonthBounds } from '../types';
+import { FolderResolver } from '../utils/folder-resolver';
+import { ValueAggregator } from '../utils/value-aggregator';
 import { logger } from '../utils/logger';
 
 /**
@@ -10,8 +16,13 @@ import { logger } from '../utils/logger';
  */
 interface MonthlyCodeBlockConfig {
 	id: string; // Required - written by insert command
-	notePath: string;
+	notePath: string[]; // One line per watched note
+	folderPath: string[]; // Watched folder (folder mode)
+	watchMode?: WatchMode; // Note (default) or folder, like the counter
+	source?: SignalSourceConfig; // What to count instead of links to notePath (tag, property...)
+	aggregate?: ValueAggregation; // Weighted counting over the numbers logged with the mentions
 	selectedMonth?: string;
+	syncGroup?: string; // Blocks of the same group navigate together
 }
 
 /**
@@ -20,14 +31,23 @@ interface MonthlyCodeBlockConfig {
  */
 export class MonthlyTrackerCodeBlockProcessor extends BaseCodeBlockProcessor {
 	private analysisService: BacklinkAnalysisService;
+	private settingsService: SettingsService;
+	private folderResolver: FolderResolver;
+	private navigationSyncBus: NavigationSyncBus;
 
 	constructor(
 		app: App,
 		plugin: Plugin,
-		analysisService: BacklinkAnalysisService
+		analysisService: BacklinkAnalysisService,
+		settingsService: SettingsService,
+		refreshBus: CodeBlockRefreshBus,
+		navigationSyncBus: NavigationSyncBus
 	) {
-		super(app, plugin);
+		super(app, plugin, refreshBus);
 		this.analysisService = analysisService;
+		this.settingsService = settingsService;
+		this.folderResolver = new FolderResolver(app);
+		this.navigationSyncBus = navigationSyncBus;
 	}
 
 	/**
@@ -62,107 +82,125 @@ export class MonthlyTrackerCodeBlockProcessor extends BaseCodeBlockProcessor {
 				return;
 			}
 
-			const { id, notePath, selectedMonth } = config;
+			// Several notes, a folder or nothing watched yet: tracker with a stacked breakdown per day
+			if (!config.source && (config.watchMode === WatchMode.FOLDER || config.notePath.length !== 1)) {
+				this.processWatchedNotes(config, el, ctx);
+				return;
+			}
 
-		// Validate required fields
-		if (!notePath) {
-			el.createEl('div', {
-				text: 'Error: note path must be specified',
+			const { id } = config;
+			const aggregation = config.aggregate ?? ValueAggregation.COUNT;
+			// A link source is the same as a notePath
+			const notePath = config.source?.type === SignalSourceType.LINK ? config.source.value : config.notePath[0];
+
+		let signalSource: SignalSource | null = null;
+		if (config.source && config.source.type !== SignalSourceType.LINK) {
+			signalSource = this.analysisService.createSignalSource(config.source);
+		} else {
+			// Validate required fields
+			if (!notePath) {
+				el.createEl('div', {
+					text: 'Error: note path must be specified',
 					cls: 'note-insight-error'
 				});
 				return;
 			}
 
-		// Get the file
-		const file = this.app.vault.getAbstractFileByPath(notePath);
-		if (!file) {
-			el.createEl('div', {
-				text: `Error: note not found: ${notePath}`,
-				cls: 'note-insight-error'
-			});
-			return;
+			// Get the file
+			const file = this.app.vault.getAbstractFileByPath(notePath);
+			if (!file) {
+				el.createEl('div', {
+					text: `Error: note not found: ${notePath}`,
+					cls: 'note-insight-error'
+				});
+				return;
+			}
+
+			if (!(file instanceof TFile)) {
+				el.createEl('div', {
+					text: `Error: path is not a file: ${notePath}`,
+					cls: 'note-insight-error'
+				});
+				return;
+			}
+
+			signalSource = this.analysisService.createSignalSource({ type: SignalSourceType.LINK, value: notePath });
 		}
 
-		if (!(file instanceof TFile)) {
+		if (!signalSource) {
 			el.createEl('div', {
-				text: `Error: path is not a file: ${notePath}`,
+				text: 'Error: unable to analyze note',
 				cls: 'note-insight-error'
 			});
 			return;
 		}
+		const signal = signalSource;
 
-		// Parse selectedMonth or use current month
-		let initialMonth: number;
-		let initialYear: number;
-
-		if (selectedMonth) {
-			const [yearStr, monthStr] = selectedMonth.split('-');
-			initialYear = parseInt(yearStr, 10);
-			initialMonth = parseInt(monthStr, 10) - 1; // Month is 0-indexed
-		} else {
-			const now = new Date();
-			initialMonth = now.getMonth();
-			initialYear = now.getFullYear();
-		}
+		// Month of the sync group, or the persisted one
+		const { month: initialMonth, year: initialYear } = this.getInitialMonth(config);
 
 		// Get monthly data
-		const monthlyData = this.analysisService.getMonthlyData(file, initialMonth, initialYear);
+		const monthlyData = this.analysisService.getMonthlyDataForSource(signal, initialMonth, initialYear, aggregation);
 
 		// Get month bounds
-		const monthBounds = this.analysisService.getMonthBounds(file);
+		const monthBounds = this.analysisService.getMonthBoundsForSource(signal);
 
 		// Create container
 		const container = el.createEl('div', { cls: 'note-insight-code-block monthly' });
 
 		// Create monthly tracker component with callback (use ID as instance key)
 		const trackerContainer = container.createEl('div', { cls: 'monthly-tracker-wrapper' });
-		const tracker = new MonthlyTrackerComponent(
-			this.app,
-			trackerContainer,
-			(month: number, year: number) => this.onMonthChanged(ctx, id, month, year)
-		);
+		// Sources are edited in the code block; a watched note gets the add/remove controls
+		const tracker = this.createTracker(trackerContainer, ctx, id, !config.source);
+		if (!config.source && notePath) {
+			tracker.setWatchedItems(WatchMode.NOTE, [notePath], null);
+		}
 
-		// Set month bounds and data with watched note path
+		// Set month bounds and data with watched note path (or the source title for other signals)
+		const isLinkSource = signal.type === SignalSourceType.LINK;
+		tracker.setAggregation(aggregation);
 		tracker.setMonthBounds(monthBounds);
-		void tracker.updateData(monthlyData, notePath);
+		if (isLinkSource) {
+			void tracker.updateData(monthlyData, notePath);
+		} else {
+			tracker.setSourceTitle(signal.title);
+			void tracker.updateData(monthlyData);
+		}
 		void tracker.setCurrentMonth(initialMonth, initialYear);
 
-		// Register metadata-cache listener for auto-refresh
-		const eventRef = this.app.metadataCache.on('resolved', debounce(() => {
+		// Refresh when the watched note's backlinks (or the signal mentions) change
+		// Logged values are not links: aggregated blocks also refresh when periodic notes change
+		this.refreshBus.register(id, { notePaths: isLinkSource && notePath ? [notePath] : [], folderPaths: [], signals: !isLinkSource || aggregation !== ValueAggregation.COUNT }, () => {
 			const instance = this.instances.get(id);
 			if (!instance || instance.isUpdatingCodeblock) {
 				return;
 			}
 
-			// Re-analyze the watched note and update the component
-			const updatedFile = this.app.vault.getAbstractFileByPath(notePath);
-			if (updatedFile && updatedFile instanceof TFile) {
-				// Get the currently displayed month/year from the component
-				const { month, year } = tracker.getCurrentMonth();
-
-				// Get updated monthly data for the current view
-				const updatedMonthlyData = this.analysisService.getMonthlyData(updatedFile, month, year);
-				const updatedMonthBounds = this.analysisService.getMonthBounds(updatedFile);
+			// Get the currently displayed month/year from the component
+			const { month, year } = tracker.getCurrentMonth();
 
-				tracker.setMonthBounds(updatedMonthBounds);
-				void tracker.updateData(updatedMonthlyData, notePath);
-			}
-		}, 5000));
+			// Get updated monthly data for the current view
+			const updatedMonthlyData = this.analysisService.getMonthlyDataForSource(signal, month, year, aggregation);
+			const updatedMonthBounds = this.analysisService.getMonthBoundsForSource(signal);
 
-		this.plugin.registerEvent(eventRef);
+			tracker.setMonthBounds(updatedMonthBounds);
+			void tracker.updateData(updatedMonthlyData);
+		});
 
 		// Store instance using codeblock ID (not instanceId)
 		const initialMonthStr = `${initialYear}-${String(initialMonth + 1).padStart(2, '0')}`;
 		this.instances.set(id, {
 			component: tracker,
 			codeblockId: id,
-			eventRef,
 			type: 'monthly',
 			ctx,
 			el,
 			lastKnownPeriod: initialMonthStr,
-			isUpdatingCodeblock: false
+			isUpdatingCodeblock: false,
+			notePath: config.notePath,
+			syncGroup: config.syncGroup
 		});
+		this.registerSyncGroup(ctx, id, tracker, config.syncGroup);
 
 		// Register cleanup
 		const renderChild = new MarkdownRenderChild(container);
@@ -191,19 +229,217 @@ export class MonthlyTrackerCodeBlockProcessor extends BaseCodeBlockProcessor {
 
 		// Extract and validate required fields
 		const id = config.id as string | undefined;
-		const notePath = config.notePath as string | undefined;
+		const notePath = this.toArray(config.notePath);
+		const folderPath = this.toArray(config.folderPath);
+		const watchMode = Object.values(WatchMode).includes(config.watchMode as WatchMode)
+			? config.watchMode as WatchMode
+			: undefined;
+		const signalSource = typeof config.source === 'string' ? parseSignalSourceConfig(config.source) ?? undefined : undefined;
 		const selectedMonth = config.selectedMonth as string | undefined;
+		const aggregate = ValueAggregator.parseAggregation(config.aggregate);
+		const syncGroup = typeof config.syncGroup === 'string' && config.syncGroup.trim() ? config.syncGroup.trim() : undefined;
 
 		// ID is required (written by insert command)
 		if (!id) {
 			return null;
 		}
 
-		if (!notePath) {
-			return null;
+		return { id, notePath, folderPath, watchMode, source: signalSource, aggregate, selectedMonth, syncGroup };
+	}
+
+	/**
+	 * Month shown when the block renders: where its sync group is, or the persisted month
+	 * A group last moved by a calendar year tracker keeps the persisted month of that year
+	 */
+	private getInitialMonth(config: MonthlyCodeBlockConfig): { month: number; year: number } {
+		const persisted = this.parseSelectedMonth(config.selectedMonth);
+		const synced = config.syncGroup ? this.navigationSyncBus.getPeriod(config.syncGroup) : null;
+		if (!synced) {
+			return persisted;
 		}
+		return { month: synced.month ?? persisted.month, year: synced.year };
+	}
 
-		return { id, notePath, selectedMonth };
+	/**
+	 * Parse the persisted "YYYY-MM" month, or use the current month
+	 */
+	private parseSelectedMonth(selectedMonth: string | undefined): { month: number; year: number } {
+		if (selectedMonth) {
+			const [yearStr, monthStr] = selectedMonth.split('-');
+			return { year: parseInt(yearStr, 10), month: parseInt(monthStr, 10) - 1 }; // Month is 0-indexed
+		}
+		const now = new Date();
+		return { month: now.getMonth(), year: now.getFullYear() };
+	}
+
+	/**
+	 * Create the tracker component, with the watch controls callbacks when requested
+	 */
+	private createTracker(
+		container: HTMLElement,
+		ctx: MarkdownPostProcessorContext,
+		id: string,
+		withWatchControls: boolean
+	): MonthlyTrackerComponent {
+		const onMonthChange = (month: number, year: number) => this.onMonthChanged(ctx, id, month, year);
+		if (!withWatchControls) {
+			return new MonthlyTrackerComponent(this.app, container, onMonthChange, this.analysisService.getClassifier());
+		}
+		return new MonthlyTrackerComponent(
+			this.app,
+			container,
+			onMonthChange,
+			this.analysisService.getClassifier(),
+			(notePath: string) => this.onNoteAdded(ctx, id, notePath),
+			(notePath: string) => this.onNoteRemoved(ctx, id, notePath),
+			(mode: WatchMode) => this.onWatchModeChanged(ctx, id, mode),
+			(folderPath: string) => this.onFolderAdded(ctx, id, folderPath),
+			() => this.onFolderRemoved(ctx, id)
+		);
+	}
+
+	/**
+	 * Render a tracker for several notes or the notes of a folder (or the empty state)
+	 */
+	private processWatchedNotes(config: MonthlyCodeBlockConfig, el: HTMLElement, ctx: MarkdownPostProcessorContext): void {
+		const { id } = config;
+		const watchMode = config.watchMode ?? WatchMode.NOTE;
+		const aggregation = config.aggregate ?? ValueAggregation.COUNT;
+		const { month: initialMonth, year: initialYear } = this.getInitialMonth(config);
+		// Folder mode watches one folder, note mode the listed notes
+		const notePaths = watchMode === WatchMode.NOTE ? config.notePath : [];
+		const folderPath = watchMode === WatchMode.FOLDER ? config.folderPath[0] ?? null : null;
+
+		const container = el.createEl('div', { cls: 'note-insight-code-block monthly' });
+		const trackerContainer = container.createEl('div', { cls: 'monthly-tracker-wrapper' });
+		const tracker = this.createTracker(trackerContainer, ctx, id, true);
+		tracker.setAggregation(aggregation);
+		tracker.setWatchedItems(watchMode, notePaths, folderPath);
+
+		// Folder contents are re-read on each update, so new notes join the breakdown
+		const update = (month: number, year: number) => {
+			const files = this.getWatchedFiles(notePaths, folderPath);
+			const colors = this.settingsService.getSeriesColors();
+			const sources: SignalSource[] = [];
+			const series: TrackerSeries[] = [];
+			for (const file of files) {
+				const source = this.analysisService.createSignalSource({ type: SignalSourceType.LINK, value: file.path });
+				if (!source) {
+					continue;
+				}
+				sources.push(source);
+				series.push({
+					notePath: file.path,
+					noteTitle: file.basename,
+					color: colors[series.length % colors.length],
+					data: this.analysisService.getMonthlyDataForSource(source, month, year, aggregation)
+				});
+			}
+
+			tracker.setMonthBounds(this.getMonthBounds(sources));
+			tracker.updateSeries(series);
+		};
+		update(initialMonth, initialYear);
+		tracker.setCurrentMonth(initialMonth, initialYear);
+
+		// Refresh when a watched note's backlinks or the watched folder change
+		this.refreshBus.register(id, {
+			notePaths,
+			folderPaths: folderPath !== null ? [folderPath] : [],
+			signals: aggregation !== ValueAggregation.COUNT
+		}, () => {
+			const instance = this.instances.get(id);
+			if (!instance || instance.isUpdatingCodeblock) {
+				return;
+			}
+			const { month, year } = tracker.getCurrentMonth();
+			update(month, year);
+		});
+
+		this.instances.set(id, {
+			component: tracker,
+			codeblockId: id,
+			type: 'monthly',
+			ctx,
+			el,
+			lastKnownPeriod: `${initialYear}-${String(initialMonth + 1).padStart(2, '0')}`,
+			isUpdatingCodeblock: false,
+			notePath: config.notePath,
+			syncGroup: config.syncGroup
+		});
+		this.registerSyncGroup(ctx, id, tracker, config.syncGroup);
+
+		const renderChild = new MarkdownRenderChild(container);
+		renderChild.onunload = () => {
+			this.cleanupInstance(id);
+		};
+		ctx.addChild(renderChild);
+	}
+
+	/**
+	 * Also leave the sync group
+	 */
+	protected cleanupInstance(id: string): void {
+		this.navigationSyncBus.unregister(id);
+		super.cleanupInstance(id);
+	}
+
+	/**
+	 * Notes watched by the tracker, without duplicates
+	 */
+	private getWatchedFiles(notePaths: string[], folderPath: string | null): TFile[] {
+		const files = new Map<string, TFile>();
+		for (const notePath of notePaths) {
+			const file = this.app.vault.getAbstractFileByPath(notePath);
+			if (file instanceof TFile) {
+				files.set(file.path, file);
+			}
+		}
+		if (folderPath !== null) {
+			for (const file of this.folderResolver.getNotesInFolder(folderPath)) {
+				files.set(file.path, file);
+			}
+		}
+		return Array.from(files.values());
+	}
+
+	/**
+	 * Months covered by any of the watched notes
+	 */
+	private getMonthBounds(sources: SignalSource[]): MonthBounds {
+		const now = new Date();
+		const bounds: MonthBounds = { minMonth: now.getMonth(), minYear: now.getFullYear(), maxMonth: now.getMonth(), maxYear: now.getFullYear() };
+		for (const source of sources) {
+			const sourceBounds = this.analysisService.getMonthBoundsForSource(source);
+			if (sourceBounds.minYear * 12 + sourceBounds.minMonth < bounds.minYear * 12 + bounds.minMonth) {
+				bounds.minMonth = sourceBounds.minMonth;
+				bounds.minYear = sourceBounds.minYear;
+			}
+			if (sourceBounds.maxYear * 12 + sourceBounds.maxMonth > bounds.maxYear * 12 + bounds.maxMonth) {
+				bounds.maxMonth = sourceBounds.maxMonth;
+				bounds.maxYear = sourceBounds.maxYear;
+			}
+		}
+		return bounds;
+	}
+
+	/**
+	 * Follow the navigation of the other blocks of the sync group
+	 */
+	private registerSyncGroup(
+		ctx: MarkdownPostProcessorContext,
+		id: string,
+		tracker: MonthlyTrackerComponent,
+		syncGroup: string | undefined
+	): void {
+		if (!syncGroup) {
+			return;
+		}
+		this.navigationSyncBus.register(id, syncGroup, (period: SyncedPeriod) => {
+			// A calendar year tracker only moves the year
+			const month = period.month ?? tracker.getCurrentMonth().month;
+			this.saveSelectedMonth(ctx, id, month, period.year);
+		});
 	}
 
 	/**
@@ -216,13 +452,31 @@ export class MonthlyTrackerCodeBlockProcessor extends BaseCodeBlockProcessor {
 		year: number
 	): void {
 		const instance = this.instances.get(instanceId);
-		if (!instance || instance.isUpdatingCodeblock) {
+		if (!this.saveSelectedMonth(ctx, instanceId, month, year) || !instance?.syncGroup) {
 			return;
 		}
 
+		this.navigationSyncBus.publish(instance.syncGroup, instanceId, { month, year });
+	}
+
+	/**
+	 * Persist the selected month; the block re-renders with the data of that month
+	 * @returns false when nothing was written
+	 */
+	private saveSelectedMonth(
+		ctx: MarkdownPostProcessorContext,
+		instanceId: string,
+		month: number,
+		year: number
+	): boolean {
+		const instance = this.instances.get(instanceId);
+		if (!instance || instance.isUpdatingCodeblock) {
+			return false;
+		}
+
 		const newMonthStr = `${year}-${String(month + 1).padStart(2, '0')}`;
 		if (instance.lastKnownPeriod === newMonthStr) {
-			return;
+			return false;
 		}
 
 		instance.isUpdatingCodeblock = true;
@@ -231,5 +485,119 @@ export class MonthlyTrackerCodeBlockProcessor extends BaseCodeBlockProcessor {
 		setTimeout(() => {
 			instance.isUpdatingCodeblock = false;
 		}, 100);
+		return true;
+	}
+
+	/**
+	 * Handle note added from the watch controls
+	 */
+	private onNoteAdded(
+		ctx: MarkdownPostProcessorContext,
+		instanceId: string,
+		notePath: string
+	): void {
+		const instance = this.instances.get(instanceId);
+		if (!instance || instance.isUpdatingCodeblock) {
+			return;
+		}
+
+		const notePaths = this.toArray(instance.notePath);
+		if (notePaths.includes(notePath)) {
+			return;
+		}
+
+		instance.isUpdatingCodeblock = true;
+		instance.notePath = [...notePaths, notePath];
+
+		this.updateCodeblockProperty(ctx, instance, 'notePath', instance.notePath).catch(() => {});
+		setTimeout(() => {
+			instance.isUpdatingCodeblock = false;
+		}, 100);
+	}
+
+	/**
+	 * Handle note removed from the watch controls
+	 */
+	private onNoteRemoved(
+		ctx: MarkdownPostProcessorContext,
+		instanceId: string,
+		notePath: string
+	): void {
+		const instance = this.instances.get(instanceId);
+		if (!instance || instance.isUpdatingCodeblock) {
+			return;
+		}
+
+		instance.isUpdatingCodeblock = true;
+		instance.notePath = this.toArray(instance.notePath).filter(path => path !== notePath);
+
+		// Empty array removes the notePath lines
+		this.updateCodeblockProperty(ctx, instance, 'notePath', instance.notePath).catch(() => {});
+		setTimeout(() => {
+			instance.isUpdatingCodeblock = false;
+		}, 100);
+	}
+
+	/**
+	 * Handle watch mode change
+	 */
+	private onWatchModeChanged(
+		ctx: MarkdownPostProcessorContext,
+		instanceId: string,
+		newMode: WatchMode
+	): void {
+		const instance = this.instances.get(instanceId);
+		if (!instance || instance.isUpdatingCodeblock) {
+			return;
+		}
+
+		instance.isUpdatingCodeblock = true;
+
+		this.updateCodeblockProperty(ctx, instance, 'watchMode', newMode).catch(() => {});
+		setTimeout(() => {
+			instance.isUpdatingCodeblock = false;
+		}, 100);
+	}
+
+	/**
+	 * Handle folder added from the watch controls
+	 */
+	private onFolderAdded(
+		ctx: MarkdownPostProcessorContext,
+		instanceId: string,
+		folderPath: string
+	): void {
+		const instance = this.instances.get(instanceId);
+		if (!instance || instance.isUpdatingCodeblock) {
+			return;
+		}
+
+		instance.isUpdatingCodeblock = true;
+
+		this.updateCodeblockProperty(ctx, instance, 'folderPath', folderPath).catch(() => {});
+		setTimeout(() => {
+			instance.isUpdatingCodeblock = false;
+		}, 100);
+	}
+
+	/**
+	 * Handle folder removed from the watch controls
+	 */
+	private onFolderRemoved(
+		ctx: MarkdownPostProcessorContext,
+		instanceId: string
+	): void {
+		const instance = this.instances.get(instanceId);
+		if (!instance || instance.isUpdatingCodeblock) {
+			return;
+		}
+
+		instance.isUpdatingCodeblock = true;
+
+		// Empty array removes the folderPath line
+		this.updateCodeblockProperty(ctx, instance, 'folderPath', []).catch(() => {});
+		setTimeout(() => {
+			instance.isUpdatingCodeblock = false;
+		}, 100);
 	}
 }
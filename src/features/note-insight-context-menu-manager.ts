@@ -1,5 +1,6 @@
 import { App, Editor, Menu, Plugin, MarkdownView, MarkdownFileInfo } from 'obsidian';
 import { NoteSelector } from '../ui/note-selector';
+import { FolderSelector } from '../ui/folder-selector';
 
 /**
  * Manages context menu integration for adding note insight components
@@ -43,6 +44,16 @@ export class NoteInsightContextMenuManager {
 				});
 		});
 
+		// Add "Add yearly tracker from folder" option
+		menu.addItem((item) => {
+			item
+				.setTitle('Add yearly tracker from folder')
+				.setIcon('bar-chart-3')
+				.onClick(() => {
+					this.showFolderSelectorForYearly(editor);
+				});
+		});
+
 		// Add "Add monthly tracker from vault" option
 		menu.addItem((item) => {
 			item
@@ -62,6 +73,16 @@ export class NoteInsightContextMenuManager {
 					this.insertCounterComponent(editor);
 				});
 		});
+
+		// Add "Add correlation matrix from folder" option
+		menu.addItem((item) => {
+			item
+				.setTitle('Add correlation matrix from folder')
+				.setIcon('grid-3x3')
+				.onClick(() => {
+					this.showFolderSelectorForCorrelation(editor);
+				});
+		});
 	}
 
 	/**
@@ -84,6 +105,19 @@ export class NoteInsightContextMenuManager {
 		modal.open();
 	}
 
+	/**
+	 * Show folder selector modal for a yearly tracker of all notes in a folder
+	 */
+	private showFolderSelectorForYearly(editor: Editor): void {
+		const modal = new FolderSelector(this.app, (folder) => {
+			const id = this.generateCodeblockId();
+			const codeBlock = `\`\`\`note-insight-yearly\nid: ${id}\nfolderPath: ${folder.path}\n\`\`\`\n`;
+			editor.replaceSelection(codeBlock);
+			this.resizeCanvasNodeIfNeeded(800, 320);
+		});
+		modal.open();
+	}
+
 	/**
 	 * Show note selector modal for monthly tracker
 	 */
@@ -107,6 +141,19 @@ export class NoteInsightContextMenuManager {
 		this.resizeCanvasNodeIfNeeded(420, 410);
 	}
 
+	/**
+	 * Show folder selector modal for correlation matrix
+	 */
+	private showFolderSelectorForCorrelation(editor: Editor): void {
+		const modal = new FolderSelector(this.app, (folder) => {
+			const id = this.generateCodeblockId();
+			const codeBlock = `\`\`\`note-insight-correlation\nid: ${id}\nfolderPath: ${folder.path}\n\`\`\`\n`;
+			editor.replaceSelection(codeBlock);
+			this.resizeCanvasNodeIfNeeded(600, 520);
+		});
+		modal.open();
+	}
+
 	/**
 	 * Resize canvas node if we are in a canvas context
 	 */
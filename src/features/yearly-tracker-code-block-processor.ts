@@ -2,15 +2,38 @@ import { App, Plugin, MarkdownPostProcessorContext, MarkdownRenderChild, TFile }
 import { BaseCodeBlockProcessor } from './base-code-block-processor';
 import { YearlyTrackerComponent } from '../ui/yearly-tracker-component';
 import { BacklinkAnalysisService } from '../services/backlink-analysis-service';
-import { debounce } from '../utils/debounce';
+import { CodeBlockRefreshBus } from '../services/code-block-refresh-bus';
+import { NavigationSyncBus, SyncedPeriod } from '../services/navigation-sync-bus';
+import { SettingsService } from '../services/settings-service';
+import { SignalSource, parseSignalSourceConfig } from '../services/signal-sources';
+import { SignalSourceConfig, SignalSourceType, ValueAggregation, TrackerCombineMode, TrackerSeries, YearBounds, YearlyTrackerWindow, DailyNoteYearlyData } from '../types';
+import { DateRangeCalculator } from '../utils/date-range-calculator';
+import { FolderResolver } from '../utils/folder-resolver';
+import { ValueAggregator } from '../utils/value-aggregator';
 import { logger } from '../utils/logger';
 /**
  * Configuration parsed from yearly code block
  */
 interface YearlyCodeBlockConfig {
 	id: string; // Required - written by insert command
-	notePath: string;
+	notePath: string[]; // One line per note; several notes (or a folder) render a multi-note tracker
+	folderPath: string[];
+	combine?: TrackerCombineMode; // Multi-note trackers: sum into one intensity (default) or split days per note
+	source?: SignalSourceConfig; // What to count instead of links to notePath (tag, property...)
+	aggregate?: ValueAggregation; // Weighted counting over the numbers logged with the mentions
+	window?: YearlyTrackerWindow; // Calendar year or rolling 12 months (defaults to the plugin setting)
 	selectedYear?: number;
+	selectedMonth?: string; // Last month of the rolling window (YYYY-MM)
+	syncGroup?: string; // Blocks of the same group navigate together
+}
+
+/**
+ * Period shown by a yearly tracker: a calendar year, or the rolling window ending at a month
+ */
+interface YearlyPeriod {
+	window: YearlyTrackerWindow;
+	year: number;
+	month: number; // Rolling window only
 }
 
 /**
@@ -19,14 +42,23 @@ interface YearlyCodeBlockConfig {
  */
 export class YearlyTrackerCodeBlockProcessor extends BaseCodeBlockProcessor {
 	private analysisService: BacklinkAnalysisService;
+	private settingsService: SettingsService;
+	private folderResolver: FolderResolver;
+	private navigationSyncBus: NavigationSyncBus;
 
 	constructor(
 		app: App,
 		plugin: Plugin,
-		analysisService: BacklinkAnalysisService
+		analysisService: BacklinkAnalysisService,
+		settingsService: SettingsService,
+		refreshBus: CodeBlockRefreshBus,
+		navigationSyncBus: NavigationSyncBus
 	) {
-		super(app, plugin);
+		super(app, plugin, refreshBus);
 		this.analysisService = analysisService;
+		this.settingsService = settingsService;
+		this.folderResolver = new FolderResolver(app);
+		this.navigationSyncBus = navigationSyncBus;
 	}
 
 	/**
@@ -61,97 +93,112 @@ export class YearlyTrackerCodeBlockProcessor extends BaseCodeBlockProcessor {
 				return;
 			}
 
-			const { id, notePath, selectedYear } = config;
+			// Several notes or a folder: one tracker for the group
+			if (!config.source && (config.notePath.length > 1 || config.folderPath.length > 0)) {
+				this.processMultiNote(config, el, ctx);
+				return;
+			}
+
+			const { id } = config;
+			const period = this.getInitialPeriod(config);
+			const aggregation = config.aggregate ?? ValueAggregation.COUNT;
+			// A link source is the same as a notePath
+			const notePath = config.source?.type === SignalSourceType.LINK ? config.source.value : config.notePath[0];
 
-		// Validate required fields
-		if (!notePath) {
-			el.createEl('div', {
-				text: 'Error: note path must be specified',
+		let signalSource: SignalSource | null = null;
+		if (config.source && config.source.type !== SignalSourceType.LINK) {
+			signalSource = this.analysisService.createSignalSource(config.source);
+		} else {
+			// Validate required fields
+			if (!notePath) {
+				el.createEl('div', {
+					text: 'Error: note path must be specified',
 					cls: 'note-insight-error'
 				});
 				return;
 			}
 
-		// Get the file
-		const file = this.app.vault.getAbstractFileByPath(notePath);
-		if (!file) {
-			el.createEl('div', {
-				text: `Error: note not found: ${notePath}`,
-				cls: 'note-insight-error'
-			});
-			return;
-		}
+			// Get the file
+			const file = this.app.vault.getAbstractFileByPath(notePath);
+			if (!file) {
+				el.createEl('div', {
+					text: `Error: note not found: ${notePath}`,
+					cls: 'note-insight-error'
+				});
+				return;
+			}
 
-		if (!(file instanceof TFile)) {
-			el.createEl('div', {
-				text: `Error: path is not a file: ${notePath}`,
-				cls: 'note-insight-error'
-			});
-			return;
+			if (!(file instanceof TFile)) {
+				el.createEl('div', {
+					text: `Error: path is not a file: ${notePath}`,
+					cls: 'note-insight-error'
+				});
+				return;
+			}
+
+			signalSource = this.analysisService.createSignalSource({ type: SignalSourceType.LINK, value: notePath });
 		}
 
-		// Analyze the note
-		const noteInfo = this.analysisService.analyzeNoteByPath(notePath, selectedYear);
-		if (!noteInfo || !noteInfo.yearlyData) {
+		if (!signalSource) {
 			el.createEl('div', {
 				text: 'Error: unable to analyze note',
 				cls: 'note-insight-error'
 			});
 			return;
 		}
+		const signal = signalSource;
+
+		// Analyze the signal for the selected year (or rolling window)
+		const yearlyData = this.getPeriodData(signal, period, aggregation);
 
 		// Get year bounds
-		const yearBounds = this.analysisService.getYearBounds(file);		
+		const yearBounds = this.analysisService.getYearBoundsForSource(signal);
 		// Create container
 		const container = el.createEl('div', { cls: 'note-insight-code-block yearly' });
 
 		// Create yearly tracker component with callback (use ID as instance key)
 		const trackerContainer = container.createEl('div', { cls: 'yearly-tracker-wrapper' });
-		const tracker = new YearlyTrackerComponent(
-			this.app,
-			trackerContainer,
-			(year: number) => this.onYearChanged(ctx, id, year)
-		);
-		// Set year bounds and data with watched note path
+		const tracker = this.createTracker(trackerContainer, ctx, id, period.window);
+		// Set year bounds and data with watched note path (or the source title for other signals)
+		tracker.setAggregation(aggregation);
 		tracker.setYearBounds(yearBounds);
-		tracker.updateData(noteInfo.yearlyData, notePath);
+		if (signal.type === SignalSourceType.LINK) {
+			tracker.updateData(yearlyData, notePath);
+		} else {
+			tracker.setSourceTitle(signal.title);
+			tracker.updateData(yearlyData);
+		}
 
-		// Set the selected year
-		const initialYear = selectedYear ?? new Date().getFullYear();
-		tracker.setCurrentYear(initialYear);
+		// Set the selected year (or the last month of the rolling window)
+		this.showPeriod(tracker, period);
 
-		// Register metadata-cache listener for auto-refresh
-		const eventRef = this.app.metadataCache.on('resolved', debounce(() => {
+		// Refresh when the watched note's backlinks (or the signal mentions) change
+		// Logged values are not links: aggregated blocks also refresh when periodic notes change
+		const isLinkSource = signal.type === SignalSourceType.LINK;
+		this.refreshBus.register(id, { notePaths: isLinkSource && notePath ? [notePath] : [], folderPaths: [], signals: !isLinkSource || aggregation !== ValueAggregation.COUNT }, () => {
 			const instance = this.instances.get(id);
 			if (!instance || instance.isUpdatingCodeblock) {
 				return;
 			}
 
-			// Re-analyze the watched note and update the component
-			const updatedNoteInfo = this.analysisService.analyzeNoteByPath(notePath);
-			if (updatedNoteInfo && updatedNoteInfo.yearlyData) {
-				const updatedFile = this.app.vault.getAbstractFileByPath(notePath);
-				if (updatedFile && updatedFile instanceof TFile) {
-					const updatedYearBounds = this.analysisService.getYearBounds(updatedFile);
-					tracker.setYearBounds(updatedYearBounds);
-					void tracker.updateData(updatedNoteInfo.yearlyData, notePath);
-				}
-			}
-		}, 5000));
-
-		this.plugin.registerEvent(eventRef);
+			// Re-analyze the signal and update the component
+			const updatedYearlyData = this.getPeriodData(signal, period, aggregation);
+			tracker.setYearBounds(this.analysisService.getYearBoundsForSource(signal));
+			void tracker.updateData(updatedYearlyData);
+		});
 
 		// Store instance using codeblock ID (not instanceId)
 		this.instances.set(id, {
 			component: tracker,
 			codeblockId: id,
-			eventRef,
 			type: 'yearly',
 			ctx,
 			el,
-			lastKnownPeriod: initialYear,
-			isUpdatingCodeblock: false
+			lastKnownPeriod: this.getPeriodKey(period),
+			isUpdatingCodeblock: false,
+			syncGroup: config.syncGroup
 		});
+		this.registerSyncGroup(ctx, id, period.window, config.syncGroup);
 
 
 		// Register cleanup
@@ -181,15 +228,26 @@ export class YearlyTrackerCodeBlockProcessor extends BaseCodeBlockProcessor {
 
 		// Extract and validate required fields
 		const id = config.id as string | undefined;
-		const notePath = config.notePath as string | undefined;
+		const notePath = this.toArray(config.notePath);
+		const folderPath = this.toArray(config.folderPath);
+		const combine = Object.values(TrackerCombineMode).includes(config.combine as TrackerCombineMode)
+			? config.combine as TrackerCombineMode
+			: undefined;
+		const signalSource = typeof config.source === 'string' ? parseSignalSourceConfig(config.source) ?? undefined : undefined;
 		const selectedYearStr = config.selectedYear as string | undefined;
+		const selectedMonth = config.selectedMonth as string | undefined;
+		const window = Object.values(YearlyTrackerWindow).includes(config.window as YearlyTrackerWindow)
+			? config.window as YearlyTrackerWindow
+			: undefined;
+		const aggregate = ValueAggregator.parseAggregation(config.aggregate);
+		const syncGroup = typeof config.syncGroup === 'string' && config.syncGroup.trim() ? config.syncGroup.trim() : undefined;
 
 		// ID is required (written by insert command)
 		if (!id) {
 			return null;
 		}
 
-		if (!notePath) {
+		if (notePath.length === 0 && folderPath.length === 0 && !signalSource) {
 			return null;
 		}
 
@@ -202,7 +260,227 @@ export class YearlyTrackerCodeBlockProcessor extends BaseCodeBlockProcessor {
 			}
 		}
 
-		return { id, notePath, selectedYear };
+		return { id, notePath, folderPath, combine, source: signalSource, aggregate, window, selectedYear, selectedMonth, syncGroup };
+	}
+
+	/**
+	 * Period shown when the block renders: where its sync group is,
+	 * or the persisted year, or the persisted last month of the rolling window
+	 */
+	private getInitialPeriod(config: YearlyCodeBlockConfig): YearlyPeriod {
+		const window = config.window ?? this.settingsService.getSettings().yearlyTrackerWindow;
+		const synced = config.syncGroup ? this.navigationSyncBus.getPeriod(config.syncGroup) : null;
+		if (synced) {
+			return this.toYearlyPeriod(window, synced);
+		}
+		const now = new Date();
+		if (window === YearlyTrackerWindow.ROLLING_12_MONTHS && config.selectedMonth) {
+			const [yearStr, monthStr] = config.selectedMonth.split('-');
+			const year = parseInt(yearStr, 10);
+			const month = parseInt(monthStr, 10) - 1; // Month is 0-indexed
+			if (!isNaN(year) && month >= 0 && month <= 11) {
+				return { window, year, month };
+			}
+		}
+		if (window === YearlyTrackerWindow.ROLLING_12_MONTHS) {
+			return { window, year: now.getFullYear(), month: now.getMonth() };
+		}
+		return { window, year: config.selectedYear ?? now.getFullYear(), month: 11 };
+	}
+
+	/**
+	 * Period of a yearly tracker matching the period of its sync group
+	 * A calendar year tracker shows the year of a month; a rolling window given a year ends in its December
+	 */
+	private toYearlyPeriod(window: YearlyTrackerWindow, synced: SyncedPeriod): YearlyPeriod {
+		return { window, year: synced.year, month: synced.month ?? 11 };
+	}
+
+	/**
+	 * Daily data of a signal for the period shown
+	 */
+	private getPeriodData(source: SignalSource, period: YearlyPeriod, aggregation: ValueAggregation): DailyNoteYearlyData {
+		if (period.window === YearlyTrackerWindow.ROLLING_12_MONTHS) {
+			const dateRange = DateRangeCalculator.calculateRollingYearRange(period.month, period.year);
+			return this.analysisService.getWindowDataForSource(source, dateRange, aggregation);
+		}
+		return this.analysisService.getYearlyDataForSource(source, period.year, aggregation);
+	}
+
+	/**
+	 * Persisted form of a period: the year, or the last month of the rolling window (YYYY-MM)
+	 */
+	private getPeriodKey(period: YearlyPeriod): number | string {
+		return period.window === YearlyTrackerWindow.ROLLING_12_MONTHS
+			? `${period.year}-${String(period.month + 1).padStart(2, '0')}`
+			: period.year;
+	}
+
+	/**
+	 * Create the tracker component, navigating by year or by month depending on the window
+	 */
+	private createTracker(
+		container: HTMLElement,
+		ctx: MarkdownPostProcessorContext,
+		id: string,
+		window: YearlyTrackerWindow
+	): YearlyTrackerComponent {
+		const tracker = new YearlyTrackerComponent(
+			this.app,
+			container,
+			(year: number) => this.onYearChanged(ctx, id, year),
+			this.analysisService.getClassifier(),
+			(month: number, year: number) => this.onWindowChanged(ctx, id, month, year)
+		);
+		tracker.setWindow(window);
+		return tracker;
+	}
+
+	/**
+	 * Move the tracker to the period of the block, once its bounds are set
+	 */
+	private showPeriod(tracker: YearlyTrackerComponent, period: YearlyPeriod): void {
+		if (period.window === YearlyTrackerWindow.ROLLING_12_MONTHS) {
+			tracker.setWindowEnd(period.month, period.year, false);
+		} else {
+			tracker.setCurrentYear(period.year);
+		}
+	}
+
+	/**
+	 * Render a tracker for several notes: repeated notePath lines and/or folderPath
+	 */
+	private processMultiNote(config: YearlyCodeBlockConfig, el: HTMLElement, ctx: MarkdownPostProcessorContext): void {
+		const { id } = config;
+		const aggregation = config.aggregate ?? ValueAggregation.COUNT;
+		const combineMode = config.combine ?? TrackerCombineMode.SUM;
+		const period = this.getInitialPeriod(config);
+
+		const container = el.createEl('div', { cls: 'note-insight-code-block yearly' });
+		const trackerContainer = container.createEl('div', { cls: 'yearly-tracker-wrapper' });
+		const tracker = this.createTracker(trackerContainer, ctx, id, period.window);
+		tracker.setAggregation(aggregation);
+
+		// Folder contents are re-read on each update, so new notes join the group
+		const update = () => {
+			const files = this.getWatchedFiles(config);
+			const colors = this.settingsService.getSeriesColors();
+			const sources: SignalSource[] = [];
+			const series: TrackerSeries[] = [];
+			for (const file of files) {
+				const source = this.analysisService.createSignalSource({ type: SignalSourceType.LINK, value: file.path });
+				if (!source) {
+					continue;
+				}
+				sources.push(source);
+				series.push({
+					notePath: file.path,
+					noteTitle: file.basename,
+					color: colors[series.length % colors.length],
+					data: this.getPeriodData(source, period, aggregation)
+				});
+			}
+
+			tracker.setSourceTitle(this.getGroupTitle(config, files.length));
+			tracker.setYearBounds(this.getYearBounds(sources));
+			tracker.updateSeries(series, combineMode);
+		};
+		update();
+		this.showPeriod(tracker, period);
+
+		// Refresh when a watched note's backlinks or the watched folders change
+		this.refreshBus.register(id, { notePaths: config.notePath, folderPaths: config.folderPath, signals: aggregation !== ValueAggregation.COUNT }, () => {
+			const instance = this.instances.get(id);
+			if (!instance || instance.isUpdatingCodeblock) {
+				return;
+			}
+			update();
+		});
+
+		this.instances.set(id, {
+			component: tracker,
+			codeblockId: id,
+			type: 'yearly',
+			ctx,
+			el,
+			lastKnownPeriod: this.getPeriodKey(period),
+			isUpdatingCodeblock: false,
+			syncGroup: config.syncGroup
+		});
+		this.registerSyncGroup(ctx, id, period.window, config.syncGroup);
+
+		const renderChild = new MarkdownRenderChild(container);
+		renderChild.onunload = () => {
+			this.cleanupInstance(id);
+		};
+		ctx.addChild(renderChild);
+	}
+
+	/**
+	 * Notes watched by a multi-note tracker, without duplicates
+	 */
+	private getWatchedFiles(config: YearlyCodeBlockConfig): TFile[] {
+		const files = new Map<string, TFile>();
+		for (const notePath of config.notePath) {
+			const file = this.app.vault.getAbstractFileByPath(notePath);
+			if (file instanceof TFile) {
+				files.set(file.path, file);
+			}
+		}
+		for (const folderPath of config.folderPath) {
+			for (const file of this.folderResolver.getNotesInFolder(folderPath)) {
+				files.set(file.path, file);
+			}
+		}
+		return Array.from(files.values());
+	}
+
+	/**
+	 * Title of a multi-note tracker: the folder name for a single folder, the note count otherwise
+	 */
+	private getGroupTitle(config: YearlyCodeBlockConfig, noteCount: number): string {
+		if (config.notePath.length === 0 && config.folderPath.length === 1) {
+			return config.folderPath[0].replace(/\/+$/, '').split('/').pop() || config.folderPath[0];
+		}
+		return `${noteCount} ${noteCount === 1 ? 'note' : 'notes'}`;
+	}
+
+	/**
+	 * Years covered by any of the watched notes
+	 */
+	private getYearBounds(sources: SignalSource[]): YearBounds {
+		const currentYear = new Date().getFullYear();
+		return sources
+			.map(source => this.analysisService.getYearBoundsForSource(source))
+			.reduce(
+				(bounds, sourceBounds) => ({
+					minYear: Math.min(bounds.minYear, sourceBounds.minYear),
+					maxYear: Math.max(bounds.maxYear, sourceBounds.maxYear)
+				}),
+				{ minYear: currentYear, maxYear: currentYear }
+			);
+	}
+
+	/**
+	 * Follow the navigation of the other blocks of the sync group
+	 */
+	private registerSyncGroup(
+		ctx: MarkdownPostProcessorContext,
+		id: string,
+		window: YearlyTrackerWindow,
+		syncGroup: string | undefined
+	): void {
+		if (!syncGroup) {
+			return;
+		}
+		this.navigationSyncBus.register(id, syncGroup, (synced: SyncedPeriod) => {
+			const period = this.toYearlyPeriod(window, synced);
+			if (window === YearlyTrackerWindow.ROLLING_12_MONTHS) {
+				this.saveWindowEnd(ctx, id, period.month, period.year);
+			} else {
+				this.saveSelectedYear(ctx, id, period.year);
+			}
+		});
 	}
 
 	/**
@@ -214,19 +492,91 @@ export class YearlyTrackerCodeBlockProcessor extends BaseCodeBlockProcessor {
 		newYear: number
 	): void {
 		const instance = this.instances.get(instanceId);
-		if (!instance || instance.isUpdatingCodeblock) {
+		if (!this.saveSelectedYear(ctx, instanceId, newYear) || !instance?.syncGroup) {
 			return;
 		}
 
-		if (instance.lastKnownPeriod === newYear) {
+		this.navigationSyncBus.publish(instance.syncGroup, instanceId, { year: newYear });
+	}
+
+	/**
+	 * Handle rolling window change (navigation shifts the last month of the window)
+	 */
+	private onWindowChanged(
+		ctx: MarkdownPostProcessorContext,
+		instanceId: string,
+		newMonth: number,
+		newYear: number
+	): void {
+		const instance = this.instances.get(instanceId);
+		if (!this.saveWindowEnd(ctx, instanceId, newMonth, newYear) || !instance?.syncGroup) {
 			return;
 		}
 
+		this.navigationSyncBus.publish(instance.syncGroup, instanceId, { month: newMonth, year: newYear });
+	}
+
+	/**
+	 * Persist the selected year; the block re-renders with the data of that year
+	 * @returns false when nothing was written
+	 */
+	private saveSelectedYear(
+		ctx: MarkdownPostProcessorContext,
+		instanceId: string,
+		newYear: number
+	): boolean {
+		const instance = this.instances.get(instanceId);
+		if (!instance || instance.isUpdatingCodeblock) {
+			return false;
+		}
+
+		if (instance.lastKnownPeriod === newYear) {
+			return false;
+		}
+
 		instance.isUpdatingCodeblock = true;
 
 		this.updateCodeblockProperty(ctx, instance, 'selectedYear', newYear).catch(() => {});
 		setTimeout(() => {
 			instance.isUpdatingCodeblock = false;
 		}, 100);
+		return true;
+	}
+
+	/**
+	 * Persist the last month of the rolling window; the block re-renders with the data of that window
+	 * @returns false when nothing was written
+	 */
+	private saveWindowEnd(
+		ctx: MarkdownPostProcessorContext,
+		instanceId: string,
+		newMonth: number,
+		newYear: number
+	): boolean {
+		const instance = this.instances.get(instanceId);
+		if (!instance || instance.isUpdatingCodeblock) {
+			return false;
+		}
+
+		const newMonthStr = `${newYear}-${String(newMonth + 1).padStart(2, '0')}`;
+		if (instance.lastKnownPeriod === newMonthStr) {
+			return false;
+		}
+
+		instance.isUpdatingCodeblock = true;
+
+		this.updateCodeblockProperty(ctx, instance, 'selectedMonth', newMonthStr).catch(() => {});
+		setTimeout(() => {
+			instance.isUpdatingCodeblock = false;
+		}, 100);
+		return true;
+	}
+
+	/**
+	 * Also leave the sync group
+	 */
+	protected cleanupInstance(id: string): void {
+		this.navigationSyncBus.unregister(id);
+		super.cleanupInstance(id);
 	}
 }
@@ -1,6 +1,9 @@
-import { App, TFile } from 'obsidian';
+import { App, Plugin, TAbstractFile, TFile, TFolder, Vault } from 'obsidian';
 import { DailyNoteClassifier } from '../utils/daily-note-classifier';
-import { BacklinkInfo, DailyNoteBacklinkInfo, YearBounds, MonthBounds, DailyNoteYearlyData } from '../types';
+import { BacklinkInfo, DailyNoteBacklinkInfo, YearBounds, MonthBounds, DailyNoteYearlyData, DateRange, PeriodicGranularity, CorrelationMatrixData, CorrelationNote, CorrelationCell, SignalSourceConfig, SignalSourceType, ValueAggregation, OutgoingLinkInfo } from '../types';
+import { ValueAggregator } from '../utils/value-aggregator';
+import { DateRangeCalculator } from '../utils/date-range-calculator';
+import { SignalSource, FileSignalSource, LinkSignalSource, TagSignalSource, PropertySignalSource, UnresolvedLinkSignalSource, parseInlineFields } from './signal-sources';
 
 /**
  * Centralized service for analyzing note backlinks
@@ -10,39 +13,427 @@ export class BacklinkAnalysisService {
 	private app: App;
 	private dailyNoteClassifier: DailyNoteClassifier;
 
+	// Reverse link index: target path -> (source path -> link count)
+	// Built lazily from resolvedLinks, then kept up to date from metadata cache events
+	private reverseIndex: Map<string, Map<string, number>> | null = null;
+	// Forward snapshot of what each source linked to when it was last indexed
+	private indexedSources: Map<string, Record<string, number>> = new Map();
+	private backlinkListeners: Array<(paths: string[]) => void> = [];
+	// Inline fields (key:: value) of periodic notes - metadataCache does not parse them,
+	// so they are read once on layout ready, then from the content of 'changed' events
+	private inlineFields: Map<string, Record<string, string[]>> = new Map();
+	private signalListeners: Array<() => void> = [];
+	// Mentions of tag and property sources: source id -> (file path -> mention)
+	// Each source is indexed by one vault scan on first use, then kept up to date note by note from metadata cache events
+	private mentionIndex: Map<string, { source: FileSignalSource; mentions: Map<string, BacklinkInfo> }> = new Map();
+
 	constructor(app: App, dailyNoteClassifier: DailyNoteClassifier) {
 		this.app = app;
 		this.dailyNoteClassifier = dailyNoteClassifier;
 	}
 
+	/**
+	 * Keep the backlink index in sync with the vault
+	 * Events are registered on the plugin so they are cleaned up on unload
+	 */
+	startIndexing(plugin: Plugin): void {
+		// resolvedLinks for a file are only final once it has been resolved, so 'changed' is not used
+		plugin.registerEvent(
+			this.app.metadataCache.on('resolve', (file: TFile) => this.reindexSource(file.path))
+		);
+		plugin.registerEvent(
+			this.app.metadataCache.on('deleted', (file: TFile) => this.handleDeleted(file.path))
+		);
+		plugin.registerEvent(
+			this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => this.handleRenamed(file, oldPath))
+		);
+
+		// Tags, properties and unresolved links of periodic notes feed the other signal sources
+		plugin.registerEvent(
+			this.app.metadataCache.on('changed', (file: TFile, data: string) => this.handleSignalsChanged(file, data))
+		);
+		plugin.registerEvent(
+			this.app.metadataCache.on('deleted', (file: TFile) => {
+				this.inlineFields.delete(file.path);
+				this.mentionIndex.forEach(entry => entry.mentions.delete(file.path));
+			})
+		);
+		plugin.registerEvent(
+			this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => this.handleSignalsRenamed(file, oldPath))
+		);
+		this.app.workspace.onLayoutReady(() => {
+			void this.indexInlineFields();
+		});
+	}
+
+	/**
+	 * Subscribe to index updates
+	 * @param listener Called with the paths of notes whose backlinks (or existence) may have changed
+	 * @returns Unsubscribe function
+	 */
+	onBacklinksChanged(listener: (paths: string[]) => void): () => void {
+		this.backlinkListeners.push(listener);
+		return () => {
+			this.backlinkListeners = this.backlinkListeners.filter(l => l !== listener);
+		};
+	}
+
+	/**
+	 * Subscribe to changes of tags, properties or unresolved links in periodic notes
+	 * @returns Unsubscribe function
+	 */
+	onSignalsChanged(listener: () => void): () => void {
+		this.signalListeners.push(listener);
+		return () => {
+			this.signalListeners = this.signalListeners.filter(l => l !== listener);
+		};
+	}
+
+	/**
+	 * Create the signal source described by a code block config
+	 * @returns null when a link source targets a note that does not exist
+	 */
+	createSignalSource(config: SignalSourceConfig): SignalSource | null {
+		switch (config.type) {
+			case SignalSourceType.LINK: {
+				const file = this.app.vault.getAbstractFileByPath(config.value);
+				return file instanceof TFile
+					? new LinkSignalSource(this.app, file, f => this.getBacklinksForFile(f), f => this.inlineFields.get(f.path))
+					: null;
+			}
+			case SignalSourceType.TAG:
+				return new TagSignalSource(this.app, config.value, source => this.getIndexedMentions(source));
+			case SignalSourceType.PROPERTY:
+				return new PropertySignalSource(
+					this.app,
+					config.value,
+					config.propertyValue,
+					file => this.inlineFields.get(file.path),
+					source => this.getIndexedMentions(source)
+				);
+			case SignalSourceType.UNRESOLVED:
+				return new UnresolvedLinkSignalSource(this.app, config.value, file => this.inlineFields.get(file.path));
+		}
+	}
+
 	/**
 	 * Get all files that link to the specified file with their link counts
 	 */
 	getBacklinksForFile(file: TFile): BacklinkInfo[] {
 		const backlinks: BacklinkInfo[] = [];
-		const resolvedLinks = this.app.metadataCache.resolvedLinks;
-		
-		// Iterate through all files to find those that link to our target file
-		if (!resolvedLinks || typeof resolvedLinks !== 'object') {
+		const sources = this.getReverseIndex().get(file.path);
+		if (!sources) {
 			return backlinks;
 		}
-		
-		for (const sourcePath in resolvedLinks) {
-			const links = (resolvedLinks)[sourcePath];
-			if (links && typeof links === 'object' && links[file.path]) {
-				const sourceFile = this.app.vault.getAbstractFileByPath(sourcePath);
-				if (sourceFile instanceof TFile) {
-					backlinks.push({
-						file: sourceFile,
-						linkCount: links[file.path]
-					});
-				}
+
+		for (const [sourcePath, linkCount] of sources) {
+			const sourceFile = this.app.vault.getAbstractFileByPath(sourcePath);
+			if (sourceFile instanceof TFile) {
+				backlinks.push({
+					file: sourceFile,
+					linkCount
+				});
 			}
 		}
-		
+
 		return backlinks;
 	}
 
+	/**
+	 * Get the reverse link index, building it from resolvedLinks on first use
+	 */
+	private getReverseIndex(): Map<string, Map<string, number>> {
+		if (!this.reverseIndex) {
+			this.reverseIndex = new Map();
+			this.indexedSources.clear();
+
+			const resolvedLinks = this.app.metadataCache.resolvedLinks;
+			if (resolvedLinks && typeof resolvedLinks === 'object') {
+				for (const sourcePath in resolvedLinks) {
+					this.indexSource(sourcePath, resolvedLinks[sourcePath]);
+				}
+			}
+		}
+		return this.reverseIndex;
+	}
+
+	/**
+	 * Replace the index entries of a source note with its current resolved links
+	 */
+	private reindexSource(sourcePath: string): void {
+		this.notifyBacklinksChanged(this.updateSourceEntries(sourcePath));
+	}
+
+	/**
+	 * Re-read the resolved links of a source note without notifying
+	 * @returns Paths of the targets linked before and after the change
+	 */
+	private updateSourceEntries(sourcePath: string): string[] {
+		if (!this.reverseIndex) {
+			// Index not built yet, it will read the latest links when first needed
+			return [];
+		}
+		const affected = this.getIndexedTargets(sourcePath);
+		this.unindexSource(sourcePath);
+		this.indexSource(sourcePath, this.app.metadataCache.resolvedLinks[sourcePath]);
+		affected.push(...this.getIndexedTargets(sourcePath));
+		return affected;
+	}
+
+	private getIndexedTargets(sourcePath: string): string[] {
+		return Object.keys(this.indexedSources.get(sourcePath) ?? {});
+	}
+
+	private notifyBacklinksChanged(paths: string[]): void {
+		if (paths.length === 0) {
+			return;
+		}
+		this.backlinkListeners.forEach(listener => listener(paths));
+	}
+
+	private indexSource(sourcePath: string, links: Record<string, number> | undefined): void {
+		if (!this.reverseIndex || !links || typeof links !== 'object') {
+			return;
+		}
+
+		const snapshot: Record<string, number> = {};
+		for (const targetPath in links) {
+			const linkCount = links[targetPath];
+			if (!linkCount) {
+				continue;
+			}
+			snapshot[targetPath] = linkCount;
+
+			let sources = this.reverseIndex.get(targetPath);
+			if (!sources) {
+				sources = new Map();
+				this.reverseIndex.set(targetPath, sources);
+			}
+			sources.set(sourcePath, linkCount);
+		}
+		this.indexedSources.set(sourcePath, snapshot);
+	}
+
+	private unindexSource(sourcePath: string): void {
+		const previous = this.indexedSources.get(sourcePath);
+		if (!this.reverseIndex || !previous) {
+			return;
+		}
+
+		for (const targetPath in previous) {
+			const sources = this.reverseIndex.get(targetPath);
+			if (sources) {
+				sources.delete(sourcePath);
+				if (sources.size === 0) {
+					this.reverseIndex.delete(targetPath);
+				}
+			}
+		}
+		this.indexedSources.delete(sourcePath);
+	}
+
+	/**
+	 * Drop a deleted note both as a link source and as a link target
+	 */
+	private handleDeleted(path: string): void {
+		if (!this.reverseIndex) {
+			return;
+		}
+		const affected = [path, ...this.getIndexedTargets(path)];
+		this.unindexSource(path);
+
+		// Notes linking to it are re-resolved by Obsidian, but clear them now so no stale counts remain
+		const sources = this.reverseIndex.get(path);
+		if (sources) {
+			for (const sourcePath of sources.keys()) {
+				delete this.indexedSources.get(sourcePath)?.[path];
+			}
+			this.reverseIndex.delete(path);
+		}
+		this.notifyBacklinksChanged(affected);
+	}
+
+	/**
+	 * Move index entries from the old paths to the new ones
+	 * A renamed folder moves the entries of every note it contains, with a single notification
+	 */
+	private handleRenamed(file: TAbstractFile, oldPath: string): void {
+		if (!this.reverseIndex) {
+			return;
+		}
+		const affected: string[] = [];
+		for (const renamed of this.getRenamedFiles(file, oldPath)) {
+			affected.push(...this.moveIndexEntries(renamed.file, renamed.oldPath));
+		}
+		this.notifyBacklinksChanged(Array.from(new Set(affected)));
+	}
+
+	/**
+	 * Files moved by a rename with their previous paths: the file itself, or the files of a renamed folder
+	 */
+	private getRenamedFiles(file: TAbstractFile, oldPath: string): Array<{ file: TFile; oldPath: string }> {
+		if (file instanceof TFile) {
+			return [{ file, oldPath }];
+		}
+		const renamed: Array<{ file: TFile; oldPath: string }> = [];
+		if (file instanceof TFolder) {
+			Vault.recurseChildren(file, (child: TAbstractFile) => {
+				if (child instanceof TFile) {
+					renamed.push({ file: child, oldPath: oldPath + child.path.substring(file.path.length) });
+				}
+			});
+		}
+		return renamed;
+	}
+
+	/**
+	 * Move the index entries of one note from its old path to the new one
+	 * @returns Paths whose backlinks may have changed
+	 */
+	private moveIndexEntries(file: TFile, oldPath: string): string[] {
+		if (!this.reverseIndex) {
+			return [];
+		}
+
+		// As a target: existing links now resolve to the new path
+		const sources = this.reverseIndex.get(oldPath);
+		if (sources) {
+			this.reverseIndex.delete(oldPath);
+			this.reverseIndex.set(file.path, sources);
+			for (const [sourcePath, linkCount] of sources) {
+				const snapshot = this.indexedSources.get(sourcePath);
+				if (snapshot) {
+					delete snapshot[oldPath];
+					snapshot[file.path] = linkCount;
+				}
+			}
+		}
+
+		// As a source: re-read its links under the new path
+		const affected = [oldPath, file.path, ...this.getIndexedTargets(oldPath)];
+		this.unindexSource(oldPath);
+		return affected.concat(this.updateSourceEntries(file.path));
+	}
+
+	/**
+	 * Read the inline fields of all periodic notes
+	 */
+	private async indexInlineFields(): Promise<void> {
+		const files = this.app.vault.getMarkdownFiles().filter(file => this.isPeriodicNote(file));
+		for (const file of files) {
+			this.inlineFields.set(file.path, parseInlineFields(await this.app.vault.cachedRead(file)));
+		}
+		// Property mentions indexed before the inline fields were read miss their values
+		this.mentionIndex.clear();
+		this.notifySignalsChanged();
+	}
+
+	/**
+	 * Update the inline fields and mentions of a changed note and notify signal listeners
+	 * Only periodic notes count, but the mentions of every note are kept so the index matches a vault scan.
+	 * Every periodic note has an inline fields entry: a note whose date was edited out of the periodic notes loses it.
+	 */
+	private handleSignalsChanged(file: TFile, data: string): void {
+		if (!this.isPeriodicNote(file)) {
+			const wasPeriodic = this.inlineFields.delete(file.path);
+			this.reindexMentions(file);
+			if (wasPeriodic) {
+				this.notifySignalsChanged();
+			}
+			return;
+		}
+		this.inlineFields.set(file.path, parseInlineFields(data));
+		this.reindexMentions(file);
+		this.notifySignalsChanged();
+	}
+
+	/**
+	 * Move the inline fields and mentions of renamed notes, checking again which ones are periodic notes
+	 */
+	private handleSignalsRenamed(file: TAbstractFile, oldPath: string): void {
+		let changed = false;
+		for (const renamed of this.getRenamedFiles(file, oldPath)) {
+			const fields = this.inlineFields.get(renamed.oldPath);
+			this.inlineFields.delete(renamed.oldPath);
+			this.mentionIndex.forEach(entry => {
+				const mention = entry.mentions.get(renamed.oldPath);
+				if (mention) {
+					entry.mentions.delete(renamed.oldPath);
+					entry.mentions.set(renamed.file.path, mention);
+				}
+			});
+
+			if (!this.isPeriodicNote(renamed.file)) {
+				// Moved out of the periodic notes folder, or renamed away from the date format
+				if (fields) {
+					this.reindexMentions(renamed.file);
+					changed = true;
+				}
+				continue;
+			}
+			if (fields) {
+				this.inlineFields.set(renamed.file.path, fields);
+				changed = true;
+			} else {
+				// Became a periodic note: its inline fields were never read
+				void this.readInlineFields(renamed.file);
+			}
+		}
+		if (changed) {
+			this.notifySignalsChanged();
+		}
+	}
+
+	/**
+	 * Read the inline fields of a note that became a periodic note
+	 */
+	private async readInlineFields(file: TFile): Promise<void> {
+		this.inlineFields.set(file.path, parseInlineFields(await this.app.vault.cachedRead(file)));
+		this.reindexMentions(file);
+		this.notifySignalsChanged();
+	}
+
+	private isPeriodicNote(file: TFile): boolean {
+		return this.dailyNoteClassifier.getPeriodicNoteSpan(file, Object.values(PeriodicGranularity)) !== null;
+	}
+
+	/**
+	 * Mentions of a tag or property source, scanning the vault the first time the source is read
+	 */
+	private getIndexedMentions(source: FileSignalSource): BacklinkInfo[] {
+		let entry = this.mentionIndex.get(source.id);
+		if (!entry) {
+			const mentions = new Map<string, BacklinkInfo>();
+			for (const file of this.app.vault.getMarkdownFiles()) {
+				const mention = source.getFileMention(file);
+				if (mention) {
+					mentions.set(file.path, mention);
+				}
+			}
+			entry = { source, mentions };
+			this.mentionIndex.set(source.id, entry);
+		}
+		return Array.from(entry.mentions.values());
+	}
+
+	/**
+	 * Re-read the mentions of a changed note for every indexed source
+	 */
+	private reindexMentions(file: TFile): void {
+		this.mentionIndex.forEach(({ source, mentions }) => {
+			const mention = source.getFileMention(file);
+			if (mention) {
+				mentions.set(file.path, mention);
+			} else {
+				mentions.delete(file.path);
+			}
+		});
+	}
+
+	private notifySignalsChanged(): void {
+		this.signalListeners.forEach(listener => listener());
+	}
+
 	/**
 	 * Analyze a note by its path and return complete backlink information
 	 */
@@ -75,6 +466,14 @@ export class BacklinkAnalysisService {
 		};
 	}
 
+	/**
+	 * Get daily data for a specific note over a date range (rolling yearly window)
+	 */
+	getWindowData(file: TFile, dateRange: DateRange): DailyNoteYearlyData {
+		const backlinks = this.getBacklinksForFile(file);
+		return this.dailyNoteClassifier.getWindowDailyNoteBacklinks(backlinks, dateRange);
+	}
+
 	/**
 	 * Get yearly data for a specific note and year
 	 */
@@ -91,6 +490,117 @@ export class BacklinkAnalysisService {
 		return this.dailyNoteClassifier.getMonthlyDailyNoteBacklinks(backlinks, month, year);
 	}
 
+	/**
+	 * Count links to a note from periodic notes within a date range
+	 * @param granularities Periodic note granularities to include (daily notes only by default)
+	 */
+	countBacklinksInRange(file: TFile, dateRange: DateRange, granularities?: PeriodicGranularity[]): number {
+		const backlinks = this.getBacklinksForFile(file);
+		return this.dailyNoteClassifier.countBacklinksInRange(backlinks, dateRange, granularities);
+	}
+
+	/**
+	 * Get per-day backlink data for a note within a date range
+	 * @param granularities Periodic note granularities to include (daily notes only by default)
+	 */
+	getDailyBacklinksInRange(file: TFile, dateRange: DateRange, granularities?: PeriodicGranularity[]): DailyNoteYearlyData {
+		const backlinks = this.getBacklinksForFile(file);
+		return this.dailyNoteClassifier.getDailyBacklinksInRange(backlinks, dateRange.startDate, dateRange.endDate, granularities);
+	}
+
+	/**
+	 * Get per-day backlink data for a note over every daily note, without date bounds
+	 */
+	getAllDailyBacklinks(file: TFile): DailyNoteYearlyData {
+		const backlinks = this.getBacklinksForFile(file);
+		return this.dailyNoteClassifier.getAllDailyNoteBacklinks(backlinks);
+	}
+
+	/**
+	 * Notes linked from a daily note, with the number of daily notes linking them in a surrounding period
+	 * and whether the day is the first time a daily note links them
+	 * Sorted by number of days in the period, most linked first
+	 */
+	getOutgoingLinks(dailyNote: TFile, dateRange: DateRange): OutgoingLinkInfo[] {
+		const day = this.dailyNoteClassifier.parseDailyNoteDate(dailyNote);
+		if (!day) {
+			return [];
+		}
+		const dayKey = DateRangeCalculator.formatDateKey(day);
+
+		const links: OutgoingLinkInfo[] = [];
+		for (const [targetPath, linkCount] of Object.entries(this.app.metadataCache.resolvedLinks[dailyNote.path] ?? {})) {
+			const target = this.app.vault.getAbstractFileByPath(targetPath);
+			if (!(target instanceof TFile) || target.extension !== 'md' || target.path === dailyNote.path) {
+				continue;
+			}
+
+			// Several daily notes can share a date: days are counted once
+			const periodDays = new Set<string>();
+			let isNew = true;
+			for (const backlink of this.getBacklinksForFile(target)) {
+				const date = this.dailyNoteClassifier.parseDailyNoteDate(backlink.file);
+				if (!date) {
+					continue;
+				}
+				const dateKey = DateRangeCalculator.formatDateKey(date);
+				if (date >= dateRange.startDate && date <= dateRange.endDate) {
+					periodDays.add(dateKey);
+				}
+				if (dateKey < dayKey) {
+					isNew = false;
+				}
+			}
+			links.push({ notePath: target.path, noteTitle: target.basename, linkCount, periodDays: periodDays.size, isNew });
+		}
+
+		return links.sort((a, b) => b.periodDays - a.periodDays || a.noteTitle.localeCompare(b.noteTitle));
+	}
+
+	/**
+	 * Compute how often each pair of notes is linked from the same daily note within a date range
+	 * Lift and phi are based on the number of daily notes in the range
+	 */
+	getCorrelationMatrix(files: TFile[], dateRange: DateRange): CorrelationMatrixData {
+		const notes: CorrelationNote[] = files.map(file => {
+			const backlinks = this.getBacklinksForFile(file);
+			const dailyData = this.dailyNoteClassifier.getDailyBacklinksInRange(backlinks, dateRange.startDate, dateRange.endDate);
+			return {
+				notePath: file.path,
+				noteTitle: file.basename,
+				days: Object.keys(dailyData).sort()
+			};
+		});
+		const totalDays = this.dailyNoteClassifier.getDailyNoteDatesInRange(dateRange).size;
+
+		const daySets = notes.map(note => new Set(note.days));
+		const cells: CorrelationCell[][] = notes.map((rowNote, row) =>
+			notes.map((columnNote, column) => {
+				const sharedDays = row === column
+					? rowNote.days
+					: rowNote.days.filter(day => daySets[column].has(day));
+				return this.calculateCorrelationCell(sharedDays, rowNote.days.length, columnNote.days.length, totalDays);
+			})
+		);
+
+		return { notes, cells, totalDays };
+	}
+
+	/**
+	 * Compute lift and phi for a pair from its day counts
+	 */
+	private calculateCorrelationCell(sharedDays: string[], countA: number, countB: number, totalDays: number): CorrelationCell {
+		const shared = sharedDays.length;
+		const lift = countA > 0 && countB > 0 && totalDays > 0
+			? (shared * totalDays) / (countA * countB)
+			: null;
+		const denominator = Math.sqrt(countA * countB * (totalDays - countA) * (totalDays - countB));
+		const phi = denominator > 0
+			? (shared * totalDays - countA * countB) / denominator
+			: null;
+		return { sharedDays, lift, phi };
+	}
+
 	/**
 	 * Calculate year bounds based on available daily notes
 	 */
@@ -107,6 +617,68 @@ export class BacklinkAnalysisService {
 		return this.dailyNoteClassifier.calculateMonthBounds(backlinks);
 	}
 
+	/**
+	 * Get the daily data of a signal source over a date range (rolling yearly window)
+	 */
+	getWindowDataForSource(source: SignalSource, dateRange: DateRange, aggregation: ValueAggregation = ValueAggregation.COUNT): DailyNoteYearlyData {
+		const data = this.dailyNoteClassifier.getWindowDailyNoteBacklinks(source.getMentions(), dateRange);
+		return ValueAggregator.aggregateDays(data, aggregation);
+	}
+
+	/**
+	 * Get yearly data for a signal source
+	 */
+	getYearlyDataForSource(source: SignalSource, year: number, aggregation: ValueAggregation = ValueAggregation.COUNT): DailyNoteYearlyData {
+		const data = this.dailyNoteClassifier.getYearlyDailyNoteBacklinks(source.getMentions(), year);
+		return ValueAggregator.aggregateDays(data, aggregation);
+	}
+
+	/**
+	 * Get monthly data for a signal source
+	 */
+	getMonthlyDataForSource(source: SignalSource, month: number, year: number, aggregation: ValueAggregation = ValueAggregation.COUNT): DailyNoteYearlyData {
+		const data = this.dailyNoteClassifier.getMonthlyDailyNoteBacklinks(source.getMentions(), month, year);
+		return ValueAggregator.aggregateDays(data, aggregation);
+	}
+
+	/**
+	 * Count mentions of a signal source in periodic notes within a date range
+	 * With an aggregation other than count, combines the values logged in the range instead
+	 * (the average is taken over all values, not over daily averages)
+	 * @param granularities Periodic note granularities to include (daily notes only by default)
+	 */
+	countMentionsInRange(source: SignalSource, dateRange: DateRange, granularities?: PeriodicGranularity[], aggregation: ValueAggregation = ValueAggregation.COUNT): number {
+		if (aggregation === ValueAggregation.COUNT) {
+			return this.dailyNoteClassifier.countBacklinksInRange(source.getMentions(), dateRange, granularities);
+		}
+		const values = this.dailyNoteClassifier.filterBacklinksInRange(source.getMentions(), dateRange, granularities)
+			.reduce((all: number[], mention) => all.concat(mention.values ?? []), []);
+		return ValueAggregator.aggregate(values, aggregation);
+	}
+
+	/**
+	 * Get per-day mentions (or aggregated values) of a signal source within a date range
+	 * @param granularities Periodic note granularities to include (daily notes only by default)
+	 */
+	getDailyMentionsInRange(source: SignalSource, dateRange: DateRange, granularities?: PeriodicGranularity[], aggregation: ValueAggregation = ValueAggregation.COUNT): DailyNoteYearlyData {
+		const data = this.dailyNoteClassifier.getDailyBacklinksInRange(source.getMentions(), dateRange.startDate, dateRange.endDate, granularities);
+		return ValueAggregator.aggregateDays(data, aggregation);
+	}
+
+	/**
+	 * Calculate year bounds for a signal source
+	 */
+	getYearBoundsForSource(source: SignalSource): YearBounds {
+		return this.dailyNoteClassifier.getYearBounds(source.getMentions());
+	}
+
+	/**
+	 * Calculate month bounds for a signal source
+	 */
+	getMonthBoundsForSource(source: SignalSource): MonthBounds {
+		return this.dailyNoteClassifier.calculateMonthBounds(source.getMentions());
+	}
+
 	/**
 	 * Get the DailyNoteClassifier instance
 	 */
@@ -0,0 +1,144 @@
+import { App, Plugin, TAbstractFile, TFile } from 'obsidian';
+import { BacklinkAnalysisService } from './backlink-analysis-service';
+import { debounce } from '../utils/debounce';
+import { logger } from '../utils/logger';
+
+/**
+ * Notes and folders a code block instance reads its data from
+ */
+export interface RefreshTargets {
+	notePaths: string[];
+	folderPaths: string[];
+	signals?: boolean; // Tag, property or unresolved link sources - refresh when periodic notes change
+	metadata?: boolean; // Query selection - refresh when the tags or properties of any note change
+}
+
+interface RefreshSubscription {
+	targets: RefreshTargets;
+	refresh: () => void;
+}
+
+// Same quiet period the per-block listeners used, so typing does not re-render on every keystroke
+const REFRESH_DEBOUNCE_MS = 5000;
+
+/**
+ * Shared refresh dispatcher for embedded code blocks
+ *
+ * Collects the paths whose backlinks changed (from the BacklinkAnalysisService index)
+ * and, once the vault settles, re-renders only the instances watching one of them.
+ */
+export class CodeBlockRefreshBus {
+	private app: App;
+	private analysisService: BacklinkAnalysisService;
+	private subscriptions: Map<string, RefreshSubscription> = new Map();
+	private dirtyPaths: Set<string> = new Set();
+	private signalsDirty = false;
+	private metadataDirty = false;
+	private scheduleFlush: () => void;
+
+	constructor(app: App, analysisService: BacklinkAnalysisService) {
+		this.app = app;
+		this.analysisService = analysisService;
+		this.scheduleFlush = debounce(() => this.flush(), REFRESH_DEBOUNCE_MS);
+	}
+
+	/**
+	 * Start listening for changes
+	 * Listeners are registered on the plugin so they are cleaned up on unload
+	 */
+	start(plugin: Plugin): void {
+		plugin.register(this.analysisService.onBacklinksChanged((paths) => this.markDirty(paths)));
+		plugin.register(this.analysisService.onSignalsChanged(() => {
+			this.signalsDirty = true;
+			this.scheduleFlush();
+		}));
+
+		// Tags and properties of any note change query membership
+		plugin.registerEvent(
+			this.app.metadataCache.on('changed', () => {
+				this.metadataDirty = true;
+				this.scheduleFlush();
+			})
+		);
+
+		// New notes change folder membership even before anything links to them
+		plugin.registerEvent(
+			this.app.vault.on('create', (file: TAbstractFile) => {
+				if (file instanceof TFile) {
+					this.markDirty([file.path]);
+				}
+			})
+		);
+	}
+
+	/**
+	 * Register (or replace) the refresh callback of a code block instance
+	 */
+	register(id: string, targets: RefreshTargets, refresh: () => void): void {
+		this.subscriptions.set(id, { targets: this.normalizeTargets(targets), refresh });
+	}
+
+	/**
+	 * Stop refreshing an instance
+	 */
+	unregister(id: string): void {
+		this.subscriptions.delete(id);
+	}
+
+	private markDirty(paths: string[]): void {
+		for (const path of paths) {
+			this.dirtyPaths.add(path);
+		}
+		this.scheduleFlush();
+	}
+
+	/**
+	 * Re-render the instances affected by the changes collected since the last flush
+	 */
+	private flush(): void {
+		const paths = Array.from(this.dirtyPaths);
+		const signalsDirty = this.signalsDirty;
+		const metadataDirty = this.metadataDirty;
+		this.dirtyPaths.clear();
+		this.signalsDirty = false;
+		this.metadataDirty = false;
+		if (paths.length === 0 && !signalsDirty && !metadataDirty) {
+			return;
+		}
+
+		let refreshed = 0;
+		for (const [id, subscription] of this.subscriptions) {
+			if (!(signalsDirty && subscription.targets.signals)
+				&& !(metadataDirty && subscription.targets.metadata)
+				&& !this.isAffected(subscription.targets, paths)) {
+				continue;
+			}
+			refreshed++;
+			try {
+				subscription.refresh();
+			} catch (error) {
+				logger.error('[CodeBlockRefreshBus] Refresh failed for instance', id, error);
+			}
+		}
+		logger.debug('[CodeBlockRefreshBus] Refreshed', refreshed, 'of', this.subscriptions.size, 'instances for', paths.length, 'changed paths');
+	}
+
+	private isAffected(targets: RefreshTargets, paths: string[]): boolean {
+		return paths.some(path =>
+			targets.notePaths.includes(path) ||
+			targets.folderPaths.some(folder => folder === '' || path.startsWith(`${folder}/`))
+		);
+	}
+
+	/**
+	 * Strip leading/trailing slashes from folders, like FolderResolver does
+	 */
+	private normalizeTargets(targets: RefreshTargets): RefreshTargets {
+		return {
+			notePaths: targets.notePaths.filter(path => !!path),
+			folderPaths: targets.folderPaths.map(folder => folder.trim().replace(/^\/+|\/+$/g, '')),
+			signals: targets.signals,
+			metadata: targets.metadata
+		};
+	}
+}
@@ -0,0 +1,68 @@
+import { logger } from '../utils/logger';
+
+/**
+ * Period a tracker navigated to: a month (monthly tracker, rolling yearly window) or a calendar year
+ */
+export interface SyncedPeriod {
+	year: number;
+	month?: number; // 0-indexed, missing for a calendar year
+}
+
+interface NavigationSubscription {
+	group: string;
+	follow: (period: SyncedPeriod) => void;
+}
+
+/**
+ * Shared navigation for embedded trackers with the same `syncGroup`
+ *
+ * A tracker navigating publishes its period and the other trackers of the group follow it,
+ * whatever note or canvas they are rendered in. The last period of each group is kept,
+ * so trackers rendered later start where the group is.
+ */
+export class NavigationSyncBus {
+	private subscriptions: Map<string, NavigationSubscription> = new Map();
+	private groupPeriods: Map<string, SyncedPeriod> = new Map();
+
+	/**
+	 * Register (or replace) the follow callback of a code block instance
+	 */
+	register(id: string, group: string, follow: (period: SyncedPeriod) => void): void {
+		this.subscriptions.set(id, { group, follow });
+	}
+
+	/**
+	 * Stop following the group of an instance
+	 */
+	unregister(id: string): void {
+		this.subscriptions.delete(id);
+	}
+
+	/**
+	 * Last period a tracker of the group navigated to, if any
+	 */
+	getPeriod(group: string): SyncedPeriod | null {
+		return this.groupPeriods.get(group) ?? null;
+	}
+
+	/**
+	 * Move the other trackers of the group to the period of the source instance
+	 */
+	publish(group: string, sourceId: string, period: SyncedPeriod): void {
+		this.groupPeriods.set(group, period);
+
+		let followed = 0;
+		for (const [id, subscription] of this.subscriptions) {
+			if (id === sourceId || subscription.group !== group) {
+				continue;
+			}
+			followed++;
+			try {
+				subscription.follow(period);
+			} catch (error) {
+				logger.error('[NavigationSyncBus] Follow failed for instance', id, error);
+			}
+		}
+		logger.debug('[NavigationSyncBus] Group', group, 'moved', followed, 'instances');
+	}
+}
@@ -1,4 +1,4 @@
-import { VaultVisualizerSettings } from '../types';
+import { DEFAULT_INSIGHTS_SECTIONS, InsightsSectionConfig, VaultVisualizerSettings } from '../types';
 
 /**
  * SettingsService - Manages plugin settings and provides subscription capabilities
@@ -61,6 +61,26 @@ export class SettingsService {
 		];
 	}
 
+	/**
+	 * Sections of the Note Insights panel in their configured order
+	 * Unknown entries are dropped and sections added since the layout was saved are appended
+	 */
+	getInsightsSections(): InsightsSectionConfig[] {
+		const known = new Set(DEFAULT_INSIGHTS_SECTIONS.map(section => section.id));
+		const sections: InsightsSectionConfig[] = [];
+		for (const section of this.settings.insightsSections ?? []) {
+			if (known.has(section.id) && !sections.some(existing => existing.id === section.id)) {
+				sections.push({ ...section });
+			}
+		}
+		for (const section of DEFAULT_INSIGHTS_SECTIONS) {
+			if (!sections.some(existing => existing.id === section.id)) {
+				sections.push({ ...section });
+			}
+		}
+		return sections;
+	}
+
 	private notifyListeners(): void {
 		this.listeners.forEach(listener => listener(this.settings));
 	}
@@ -0,0 +1,352 @@
+import { App, TFile, getAllTags, getLinkpath } from 'obsidian';
+import { BacklinkInfo, SignalSourceConfig, SignalSourceType } from '../types';
+import { ValueAggregator } from '../utils/value-aggregator';
+
+/**
+ * Something that can be counted in periodic notes: links to a note, a tag, a property value...
+ * Every source reports its mentions the same way backlinks are reported, so the classifier
+ * date helpers (yearly, monthly, range counts) work unchanged for all of them.
+ */
+export interface SignalSource {
+	readonly type: SignalSourceType;
+	/** Stable identifier, also used as the notePath of counter results (e.g., "tag:#mood/good") */
+	readonly id: string;
+	/** Title shown in components */
+	readonly title: string;
+	/** Files mentioning the signal, with the number of mentions and the numbers logged with them */
+	getMentions(): BacklinkInfo[];
+}
+
+/**
+ * Signal read from the metadata of each note (tags, properties)
+ * Mentions are found note by note, so they can be indexed and updated when a single note changes
+ */
+export interface FileSignalSource extends SignalSource {
+	/** Mentions of the signal in one file, or null when it does not mention it */
+	getFileMention(file: TFile): BacklinkInfo | null;
+}
+
+// Inline fields: "key:: value" or "[[Note]]:: value" on its own line, or "[key:: value]" / "(key:: value)" within a line
+const INLINE_FIELD_LINE = /^\s*(?:[-*+]\s+|>\s*)?(\[\[[^\]]+\]\]|[^\s:[\]()][^:[\]()]*?)::\s*(.*?)\s*$/;
+// Inline field keyed by a link: "[[Running]]:: 5km", "[[Running|run]]:: 5km"
+const LINK_FIELD_KEY = /^\[\[([^\]|]+)(?:\|[^\]]*)?\]\]$/;
+const INLINE_FIELD_BRACKETED = /[[(]([^:[\]()]+?)::\s*([^\])]*?)\s*[\])]/g;
+
+/**
+ * Parse a source from its code block value
+ * Formats: "link:path/to/note.md", "tag:#mood/good", "property:habit=exercise", "property:habit", "unresolved:Gym"
+ */
+export function parseSignalSourceConfig(raw: string): SignalSourceConfig | null {
+	const separator = raw.indexOf(':');
+	if (separator === -1) {
+		return null;
+	}
+
+	const type = raw.substring(0, separator).trim().toLowerCase() as SignalSourceType;
+	const value = raw.substring(separator + 1).trim();
+	if (!Object.values(SignalSourceType).includes(type) || !value) {
+		return null;
+	}
+
+	if (type === SignalSourceType.PROPERTY) {
+		const equals = value.indexOf('=');
+		if (equals !== -1) {
+			const property = value.substring(0, equals).trim();
+			const propertyValue = value.substring(equals + 1).trim();
+			return property ? { type, value: property, propertyValue: propertyValue || undefined } : null;
+		}
+	}
+
+	return { type, value };
+}
+
+/**
+ * Format a source as written in code blocks (inverse of parseSignalSourceConfig)
+ */
+export function formatSignalSourceConfig(config: SignalSourceConfig): string {
+	if (config.type === SignalSourceType.PROPERTY && config.propertyValue) {
+		return `${config.type}:${config.value}=${config.propertyValue}`;
+	}
+	return `${config.type}:${config.value}`;
+}
+
+/**
+ * Normalize a tag for comparison: lowercase, with a leading #
+ */
+function normalizeTag(tag: string): string {
+	const trimmed = tag.trim().toLowerCase();
+	return trimmed.startsWith('#') ? trimmed : `#${trimmed}`;
+}
+
+/**
+ * Normalize a property value for comparison: lowercase, without wikilink brackets or quotes
+ */
+function normalizePropertyValue(value: unknown): string {
+	const text = typeof value === 'string' ? value : (typeof value === 'number' || typeof value === 'boolean' ? String(value) : '');
+	return text.trim().replace(/^\[\[(.*?)(\|.*)?\]\]$/, '$1').replace(/^["']|["']$/g, '').trim().toLowerCase();
+}
+
+/**
+ * Numbers of the inline fields keyed by a link whose target matches
+ * @param matchesLink Receives the link path of each "[[link]]:: value" field
+ */
+function getLinkFieldValues(fields: Record<string, string[]> | undefined, matchesLink: (linkpath: string) => boolean): number[] {
+	const values: number[] = [];
+	if (!fields) {
+		return values;
+	}
+	for (const [key, fieldValues] of Object.entries(fields)) {
+		const match = LINK_FIELD_KEY.exec(key);
+		if (!match || !matchesLink(getLinkpath(match[1].trim()))) {
+			continue;
+		}
+		for (const fieldValue of fieldValues) {
+			const value = ValueAggregator.parse(fieldValue);
+			if (value !== null) {
+				values.push(value);
+			}
+		}
+	}
+	return values;
+}
+
+/**
+ * Extract inline fields (key:: value) from note content
+ * @returns Values of each field, keyed by lowercase field name
+ */
+export function parseInlineFields(content: string): Record<string, string[]> {
+	const fields: Record<string, string[]> = {};
+	const add = (key: string, value: string) => {
+		const normalizedKey = key.trim().toLowerCase();
+		if (!fields[normalizedKey]) {
+			fields[normalizedKey] = [];
+		}
+		fields[normalizedKey].push(value);
+	};
+
+	let inCodeBlock = false;
+	for (const line of content.split('\n')) {
+		if (line.trimStart().startsWith('```')) {
+			inCodeBlock = !inCodeBlock;
+			continue;
+		}
+		if (inCodeBlock) {
+			continue;
+		}
+
+		let bracketed = false;
+		INLINE_FIELD_BRACKETED.lastIndex = 0;
+		let match: RegExpExecArray | null;
+		while ((match = INLINE_FIELD_BRACKETED.exec(line)) !== null) {
+			add(match[1], match[2]);
+			bracketed = true;
+		}
+		if (!bracketed) {
+			const lineMatch = INLINE_FIELD_LINE.exec(line);
+			if (lineMatch) {
+				add(lineMatch[1], lineMatch[2]);
+			}
+		}
+	}
+	return fields;
+}
+
+/**
+ * Links to a note - the original backlink signal
+ */
+export class LinkSignalSource implements SignalSource {
+	readonly type = SignalSourceType.LINK;
+	readonly id: string;
+	readonly title: string;
+	private app: App;
+	private file: TFile;
+	private getBacklinks: (file: TFile) => BacklinkInfo[];
+	private getInlineFields: (file: TFile) => Record<string, string[]> | undefined;
+
+	constructor(
+		app: App,
+		file: TFile,
+		getBacklinks: (file: TFile) => BacklinkInfo[],
+		getInlineFields: (file: TFile) => Record<string, string[]> | undefined
+	) {
+		this.app = app;
+		this.file = file;
+		this.getBacklinks = getBacklinks;
+		this.getInlineFields = getInlineFields;
+		this.id = formatSignalSourceConfig({ type: this.type, value: file.path });
+		this.title = file.basename;
+	}
+
+	getMentions(): BacklinkInfo[] {
+		return this.getBacklinks(this.file).map(backlink => {
+			// "[[Running]]:: 5km" logs a value with the link
+			const values = getLinkFieldValues(this.getInlineFields(backlink.file), linkpath =>
+				this.app.metadataCache.getFirstLinkpathDest(linkpath, backlink.file.path)?.path === this.file.path
+			);
+			return values.length > 0 ? { ...backlink, values } : backlink;
+		});
+	}
+}
+
+/**
+ * Tag mentions, in the body or the frontmatter tags
+ * Nested tags count for their parents: "#mood" matches "#mood/good"
+ */
+export class TagSignalSource implements FileSignalSource {
+	readonly type = SignalSourceType.TAG;
+	readonly id: string;
+	readonly title: string;
+	private app: App;
+	private tag: string;
+	private getIndexedMentions: (source: FileSignalSource) => BacklinkInfo[];
+
+	constructor(app: App, tag: string, getIndexedMentions: (source: FileSignalSource) => BacklinkInfo[]) {
+		this.app = app;
+		this.tag = normalizeTag(tag);
+		this.getIndexedMentions = getIndexedMentions;
+		this.id = formatSignalSourceConfig({ type: this.type, value: this.tag });
+		this.title = this.tag;
+	}
+
+	getMentions(): BacklinkInfo[] {
+		return this.getIndexedMentions(this);
+	}
+
+	getFileMention(file: TFile): BacklinkInfo | null {
+		const cache = this.app.metadataCache.getFileCache(file);
+		if (!cache) {
+			return null;
+		}
+
+		// getAllTags returns one entry per occurrence (body and frontmatter)
+		const linkCount = (getAllTags(cache) ?? []).filter(tag => this.matches(tag)).length;
+		return linkCount > 0 ? { file, linkCount } : null;
+	}
+
+	private matches(tag: string): boolean {
+		const normalized = normalizeTag(tag);
+		return normalized === this.tag || normalized.startsWith(`${this.tag}/`);
+	}
+}
+
+/**
+ * Property mentions, from the frontmatter or inline fields (key:: value)
+ * Without a value, any non-empty value of the property counts
+ */
+export class PropertySignalSource implements FileSignalSource {
+	readonly type = SignalSourceType.PROPERTY;
+	readonly id: string;
+	readonly title: string;
+	private app: App;
+	private property: string;
+	private propertyValue?: string;
+	private getInlineFields: (file: TFile) => Record<string, string[]> | undefined;
+	private getIndexedMentions: (source: FileSignalSource) => BacklinkInfo[];
+
+	constructor(
+		app: App,
+		property: string,
+		propertyValue: string | undefined,
+		getInlineFields: (file: TFile) => Record<string, string[]> | undefined,
+		getIndexedMentions: (source: FileSignalSource) => BacklinkInfo[]
+	) {
+		this.app = app;
+		this.property = property.trim().toLowerCase();
+		this.propertyValue = propertyValue ? normalizePropertyValue(propertyValue) : undefined;
+		this.getInlineFields = getInlineFields;
+		this.getIndexedMentions = getIndexedMentions;
+		this.id = formatSignalSourceConfig({ type: this.type, value: property, propertyValue });
+		this.title = propertyValue ? `${property}: ${propertyValue}` : property;
+	}
+
+	getMentions(): BacklinkInfo[] {
+		return this.getIndexedMentions(this);
+	}
+
+	getFileMention(file: TFile): BacklinkInfo | null {
+		const values = [
+			...this.getFrontmatterValues(file),
+			...(this.getInlineFields(file)?.[this.property] ?? [])
+		];
+		const matching = values.filter(value => this.matches(value));
+		if (matching.length === 0) {
+			return null;
+		}
+
+		// "sleep:: 7.5" logs a value with the property
+		const numbers = matching
+			.map(value => ValueAggregator.parse(value))
+			.filter((value): value is number => value !== null);
+		return { file, linkCount: matching.length, values: numbers.length > 0 ? numbers : undefined };
+	}
+
+	private getFrontmatterValues(file: TFile): unknown[] {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!frontmatter) {
+			return [];
+		}
+
+		// Property names are case-insensitive in Obsidian
+		const key = Object.keys(frontmatter).find(name => name.toLowerCase() === this.property);
+		if (key === undefined) {
+			return [];
+		}
+		const value: unknown = frontmatter[key];
+		return Array.isArray(value) ? value : [value];
+	}
+
+	private matches(value: unknown): boolean {
+		const normalized = normalizePropertyValue(value);
+		if (!normalized) {
+			return false;
+		}
+		return this.propertyValue === undefined || normalized === this.propertyValue;
+	}
+}
+
+/**
+ * Links whose target note does not exist (yet), matched by link text
+ */
+export class UnresolvedLinkSignalSource implements SignalSource {
+	readonly type = SignalSourceType.UNRESOLVED;
+	readonly id: string;
+	readonly title: string;
+	private app: App;
+	private linkText: string;
+	private getInlineFields: (file: TFile) => Record<string, string[]> | undefined;
+
+	constructor(app: App, linkText: string, getInlineFields: (file: TFile) => Record<string, string[]> | undefined) {
+		this.app = app;
+		this.linkText = linkText.trim().toLowerCase();
+		this.getInlineFields = getInlineFields;
+		this.id = formatSignalSourceConfig({ type: this.type, value: linkText.trim() });
+		this.title = linkText.trim();
+	}
+
+	getMentions(): BacklinkInfo[] {
+		const mentions: BacklinkInfo[] = [];
+		const unresolvedLinks = this.app.metadataCache.unresolvedLinks;
+		for (const sourcePath in unresolvedLinks) {
+			let linkCount = 0;
+			for (const [linkText, count] of Object.entries(unresolvedLinks[sourcePath])) {
+				if (this.matches(linkText)) {
+					linkCount += count;
+				}
+			}
+			if (linkCount === 0) {
+				continue;
+			}
+
+			const file = this.app.vault.getAbstractFileByPath(sourcePath);
+			if (file instanceof TFile) {
+				const values = getLinkFieldValues(this.getInlineFields(file), linkpath => this.matches(linkpath));
+				mentions.push({ file, linkCount, values: values.length > 0 ? values : undefined });
+			}
+		}
+		return mentions;
+	}
+
+	private matches(linkText: string): boolean {
+		return linkText.toLowerCase().replace(/\.md$/, '') === this.linkText;
+	}
+}
@@ -40,6 +40,63 @@ export const COLOR_PALETTES: Record<ColorPalette, string[]> = {
 	]
 };
 
+/**
+ * Strategy used to decide whether a note is a daily note and which day it belongs to
+ */
+export enum DailyNoteDetectionMode {
+	FILENAME = 'filename', // Date parsed from the file name using the Daily Notes format
+	FRONTMATTER = 'frontmatter', // Date read from a frontmatter property
+	FRONTMATTER_OR_FILENAME = 'frontmatter-or-filename' // Frontmatter property first, file name as fallback
+}
+
+/**
+ * Period shown by yearly trackers
+ */
+export enum YearlyTrackerWindow {
+	CALENDAR_YEAR = 'calendar-year', // January to December of the selected year
+	ROLLING_12_MONTHS = 'rolling-12-months' // 53 weeks ending today, or at the end of the selected month
+}
+
+/**
+ * Sections of the Note Insights panel for a note
+ * FEA001: Note Insights panel layout
+ */
+export enum InsightsSection {
+	COUNTER = 'counter',
+	MONTHLY = 'monthly',
+	YEARLY = 'yearly',
+	TIME_SERIES = 'time-series',
+	STREAK = 'streak',
+	OUTGOING_LINKS = 'outgoing-links'
+}
+
+export interface InsightsSectionConfig {
+	id: InsightsSection;
+	enabled: boolean;
+	collapsed: boolean;
+}
+
+export const INSIGHTS_SECTION_LABELS: Record<InsightsSection, string> = {
+	[InsightsSection.COUNTER]: 'Counter',
+	[InsightsSection.MONTHLY]: 'Monthly tracker',
+	[InsightsSection.YEARLY]: 'Yearly tracker',
+	[InsightsSection.TIME_SERIES]: 'Time series',
+	[InsightsSection.STREAK]: 'Habit statistics',
+	[InsightsSection.OUTGOING_LINKS]: 'Outgoing links'
+};
+
+/**
+ * Default panel layout: the original sections first, the optional ones disabled
+ */
+export const DEFAULT_INSIGHTS_SECTIONS: InsightsSectionConfig[] = [
+	{ id: InsightsSection.COUNTER, enabled: true, collapsed: false },
+	{ id: InsightsSection.MONTHLY, enabled: true, collapsed: false },
+	{ id: InsightsSection.YEARLY, enabled: true, collapsed: false },
+	{ id: InsightsSection.TIME_SERIES, enabled: false, collapsed: false },
+	{ id: InsightsSection.STREAK, enabled: false, collapsed: false },
+	{ id: InsightsSection.OUTGOING_LINKS, enabled: false, collapsed: false }
+];
+
 /**
  * Plugin settings interface
  * FEA010: Plugin Settings
@@ -49,6 +106,11 @@ export interface VaultVisualizerSettings {
 	maxWatchedNotes: number;
 	suggestedColorPalette: ColorPalette; // FEA010 Requirement 5
 	logLevel: number; // Log level for debugging (0=DEBUG, 1=INFO, 2=WARN, 3=ERROR, 4=NONE)
+	dailyNoteDetectionMode: DailyNoteDetectionMode;
+	dailyNoteDateProperty: string; // Frontmatter key holding the journal date
+	yearlyTrackerWindow: YearlyTrackerWindow; // Default period of yearly trackers
+	pinnedNotes: string[]; // Notes compared with the active one in the Note Insights panel
+	insightsSections: InsightsSectionConfig[]; // Order, visibility and collapsed state of the panel sections
 	series1Color: string;
 	series2Color: string;
 	series3Color: string;
@@ -66,6 +128,11 @@ export const DEFAULT_SETTINGS: VaultVisualizerSettings = {
 	maxWatchedNotes: 50,
 	suggestedColorPalette: ColorPalette.VIBRANT,
 	logLevel: 3, // ERROR by default
+	dailyNoteDetectionMode: DailyNoteDetectionMode.FILENAME,
+	dailyNoteDateProperty: 'date',
+	yearlyTrackerWindow: YearlyTrackerWindow.CALENDAR_YEAR,
+	pinnedNotes: [],
+	insightsSections: DEFAULT_INSIGHTS_SECTIONS,
 	series1Color: '#8b5cf6', // purple
 	series2Color: '#3b82f6', // blue
 	series3Color: '#10b981', // green
@@ -84,15 +151,27 @@ export interface DailyNoteBacklinkInfo {
 	yearlyData?: DailyNoteYearlyData; // Optional yearly data for tracker
 }
 
+// Note linked from a daily note, see BacklinkAnalysisService.getOutgoingLinks
+export interface OutgoingLinkInfo {
+	notePath: string;
+	noteTitle: string;
+	linkCount: number; // Links from the daily note itself
+	periodDays: number; // Daily notes of the surrounding period linking the note (the day included)
+	isNew: boolean; // No earlier daily note links the note
+}
+
 export interface BacklinkInfo {
 	file: TFile;
 	linkCount: number;
+	values?: number[]; // Numbers logged with the mentions (e.g., "[[Running]]:: 5km"), for weighted counting
 }
 
 
 export interface DailyNoteBacklinkSummary {
-	linkCount: number;
+	linkCount: number; // Aggregated value of the day when an aggregation other than count is used
 	lines?: string[]; // Optional: lines or context from daily note
+	values?: number[]; // Numbers logged on the day, see ValueAggregation
+	files?: TFile[]; // Periodic notes the links come from, read for the lines on hover
 }
 
 export interface DailyNoteYearlyData {
@@ -143,7 +222,8 @@ export enum TimePeriod {
 	THIS_WEEK = 'this-week',
 	THIS_MONTH = 'this-month',
 	THIS_QUARTER = 'this-quarter',
-	THIS_YEAR = 'this-year'
+	THIS_YEAR = 'this-year',
+	CUSTOM = 'custom' // Absolute range given by CounterState.customRange
 }
 
 // FEA007: Display mode types
@@ -151,25 +231,76 @@ export enum DisplayMode {
 	DEFAULT = 'default',
 	TOP_N = 'top-n',
 	PIE = 'pie',
-	TIME_SERIES = 'time-series'
+	TIME_SERIES = 'time-series',
+	STREAK = 'streak'
 }
 
+// FEA008: Time-series bucketing and smoothing
+export enum TimeSeriesGranularity {
+	DAY = 'day',
+	WEEK = 'week',
+	MONTH = 'month'
+}
+
+export interface TimeSeriesOptions {
+	granularity: TimeSeriesGranularity;
+	cumulative: boolean; // Running total instead of the value of each bucket
+	movingAverage: number; // Window of the moving average overlay in buckets, 0 when hidden
+}
+
+export const DEFAULT_TIME_SERIES_OPTIONS: TimeSeriesOptions = {
+	granularity: TimeSeriesGranularity.DAY,
+	cumulative: false,
+	movingAverage: 0
+};
+
 // FEA009: Watch mode types for multiple notes watching
 export enum WatchMode {
 	NOTE = 'note',
 	FOLDER = 'folder'
 }
 
+// FEA001: Folder or tag shown by the Note Insights panel instead of the active note
+export enum InsightsTargetType {
+	FOLDER = 'folder',
+	TAG = 'tag'
+}
+
+export interface InsightsTarget {
+	type: InsightsTargetType;
+	value: string; // Folder path, or tag without "#" (e.g., "person/friend")
+}
+
 export interface CounterState {
 	selectedPeriod: TimePeriod;
 	// Support for watching multiple notes (FEA009)
 	notePath?: string[];
 	// FEA009: Watch mode (note or folder)
 	watchMode?: WatchMode;
-	// FEA009: Folder path for folder watching (array for future multi-folder support)
+	// FEA009: Folders watched in folder mode
 	folderPath?: string[];
+	// Include the notes of nested folders (default true)
+	recursive?: boolean;
+	// Glob patterns of note paths left out in folder mode (e.g., "Archive/**")
+	exclude?: string[];
 	// FEA007: Display mode support
 	displayAs?: DisplayMode;
+	// Weekly, monthly and quarterly notes counted alongside daily notes
+	includePeriodic?: PeriodicGranularity[];
+	// Absolute range used when selectedPeriod is CUSTOM
+	customRange?: CustomDateRange;
+	// Show the count of the previous equivalent window and the change since then
+	compareToPrevious?: boolean;
+	// Tags, properties and unresolved links counted alongside the watched notes
+	sources?: SignalSourceConfig[];
+	// Count mentions (default) or aggregate the numbers logged with them
+	aggregate?: ValueAggregation;
+	// Watch the notes matching a filter over tags, properties and paths (see NoteQuery)
+	query?: string;
+	// FEA008: Bucketing, cumulative mode and moving average of the time-series display
+	timeSeries?: TimeSeriesOptions;
+	// Show the sum of the counts above the results (Note Insights panel for folders and tags)
+	showTotal?: boolean;
 }
 
 export interface DateRange {
@@ -177,9 +308,128 @@ export interface DateRange {
 	endDate: Date;
 }
 
+// Inclusive absolute date range, as persisted in code blocks
+export interface CustomDateRange {
+	startDate: string; // YYYY-MM-DD
+	endDate: string; // YYYY-MM-DD
+}
+
+// Granularity of a periodic journal note (daily, weekly, monthly or quarterly review)
+export enum PeriodicGranularity {
+	DAY = 'day',
+	WEEK = 'week',
+	MONTH = 'month',
+	QUARTER = 'quarter'
+}
+
+// Date span covered by a periodic note; links from the note are attributed to this span
+export interface PeriodicNoteSpan {
+	granularity: PeriodicGranularity;
+	startDate: Date; // First day at midnight
+	endDate: Date; // Last day at 23:59:59.999
+}
+
 // Individual note counter result for multiple notes watching
 export interface NoteCounterResult {
 	notePath: string;
 	noteTitle: string;
 	count: number;
+	previousCount?: number; // Count in the previous equivalent window, when comparison is enabled
+	sourceType?: SignalSourceType; // Set for signal source results - notePath then holds the source id
+}
+
+// Correlation matrix: how often watched notes are linked from the same daily note
+export enum CorrelationMetric {
+	LIFT = 'lift',
+	PHI = 'phi'
+}
+
+export interface CorrelationState {
+	selectedPeriod: TimePeriod;
+	customRange?: CustomDateRange; // Used when selectedPeriod is CUSTOM
+	metric: CorrelationMetric;
+	notePath?: string[];
+	folderPath?: string[];
+}
+
+export interface CorrelationNote {
+	notePath: string;
+	noteTitle: string;
+	days: string[]; // YYYY-MM-DD keys of daily notes linking to the note, sorted
+}
+
+export interface CorrelationCell {
+	sharedDays: string[]; // YYYY-MM-DD keys of daily notes linking to both notes, sorted
+	lift: number | null; // P(A and B) / (P(A) * P(B)); null when either note is never linked
+	phi: number | null; // Phi coefficient in [-1, 1]; null when undefined (a note linked every day or never)
+}
+
+export interface CorrelationMatrixData {
+	notes: CorrelationNote[];
+	cells: CorrelationCell[][]; // cells[row][column], symmetric
+	totalDays: number; // Daily notes in the period
+}
+
+// Signal sources: what trackers and counters count in periodic notes
+export enum SignalSourceType {
+	LINK = 'link', // Links to a note (default)
+	TAG = 'tag', // Tag, including nested tags (#mood matches #mood/good)
+	PROPERTY = 'property', // Frontmatter property or inline field (key:: value)
+	UNRESOLVED = 'unresolved' // Link text of a note that does not exist
+}
+
+export interface SignalSourceConfig {
+	type: SignalSourceType;
+	value: string; // Note path, tag, property name or link text
+	propertyValue?: string; // Property sources only - count only this value
+}
+
+// Weighted counting: how the numbers logged with mentions ("[[Running]]:: 5km", "sleep:: 7.5") are combined
+export enum ValueAggregation {
+	COUNT = 'count', // Number of mentions, values ignored
+	SUM = 'sum',
+	AVERAGE = 'average',
+	MAX = 'max'
+}
+
+// Trackers watching several notes: one intensity for the group, or one color segment per note
+export enum TrackerCombineMode {
+	SUM = 'sum',
+	SPLIT = 'split'
+}
+
+// Habit statistics of a note over a period, see StreakCalculator
+export interface StreakStats {
+	currentStreak: number; // Consecutive active days up to the end of the period (today does not break it yet)
+	longestStreak: number;
+	activeDays: number;
+	totalDays: number; // Days of the period up to today
+	averageGap: number | null; // Average days from one active day to the next (1 = every day), null below 2 active days
+	weekdayCounts: number[]; // Active days per weekday, 0 = Sunday
+}
+
+// Image formats of the export action, see VisualizationExporter
+export enum ExportFormat {
+	SVG = 'svg',
+	PNG = 'png'
+}
+
+// Data formats of the export action, see DataExporter
+export enum DataExportFormat {
+	CSV = 'csv',
+	JSON = 'json'
+}
+
+// Numbers behind a visualization, one row per date or per note
+export interface DataTable {
+	columns: string[];
+	rows: Array<Array<string | number>>;
+}
+
+// Data of one watched note in a multi-note tracker
+export interface TrackerSeries {
+	notePath: string;
+	noteTitle: string;
+	color: string; // From SettingsService.getSeriesColors
+	data: DailyNoteYearlyData;
 }
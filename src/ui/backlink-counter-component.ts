@@ -1,15 +1,25 @@
 import { App, TFile, setIcon } from 'obsidian';
-import { TimePeriod, CounterState, BacklinkInfo, NoteCounterResult, DisplayMode, WatchMode, DailyNoteYearlyData } from '../types';
+import { TimePeriod, CounterState, BacklinkInfo, NoteCounterResult, DisplayMode, WatchMode, DailyNoteYearlyData, DataTable, PeriodicGranularity, DateRange, CustomDateRange, SignalSourceConfig, SignalSourceType, TimeSeriesOptions, DEFAULT_TIME_SERIES_OPTIONS, ValueAggregation } from '../types';
 import { DateRangeCalculator } from '../utils/date-range-calculator';
 import { DailyNoteClassifier } from '../utils/daily-note-classifier';
 import { BacklinkAnalysisService } from '../services/backlink-analysis-service';
+import { SignalSource } from '../services/signal-sources';
 import { SettingsService } from '../services/settings-service';
 import { FolderResolver } from '../utils/folder-resolver';
+import { GlobMatcher } from '../utils/glob-matcher';
+import { NoteQuery, NoteQueryError } from '../utils/note-query';
+import { ValueAggregator } from '../utils/value-aggregator';
+import { StreakCalculator } from '../utils/streak-calculator';
+import { DataExporter } from '../utils/data-exporter';
+import { EXPORT_IGNORE_CLASS } from '../utils/visualization-exporter';
 import { NoteSelector } from './note-selector';
 import { FolderSelector } from './folder-selector';
 import { TopNRenderer } from './top-n-renderer';
 import { PieRenderer } from './pie-renderer';
-import { TimeSeriesRenderer, buildTimeSeriesData } from './time-series-renderer';
+import { TimeSeriesRenderer, TimeSeriesData, buildTimeSeriesData } from './time-series-renderer';
+import { StreakRenderer, StreakRow } from './streak-renderer';
+import { renderTrendIndicator } from './trend-indicator';
+import { renderExportButton } from './export-button';
 import { logger } from '../utils/logger';
 
 /**
@@ -30,9 +40,12 @@ export class BacklinkCounterComponent {
 	private folderResolver: FolderResolver;
 	private state: CounterState;
 	private counterResults: NoteCounterResult[] = [];
+	private signalSources: Map<string, SignalSource> = new Map(); // Sources of the current results, by id
+	private queryError: string | null = null; // Parse error of the query, shown instead of the results
 	private topNRenderer: TopNRenderer;
 	private pieRenderer: PieRenderer;
 	private timeSeriesRenderer: TimeSeriesRenderer;
+	private streakRenderer: StreakRenderer;
 	private onPeriodChangeCallback?: (period: TimePeriod) => void;
 	private onNoteAddedCallback?: (notePath: string) => void;
 	private onNoteRemovedCallback?: (notePath: string) => void;
@@ -40,7 +53,13 @@ export class BacklinkCounterComponent {
 	// FEA009: Folder watching callbacks
 	private onModeChangeCallback?: (mode: WatchMode) => void;
 	private onFolderAddedCallback?: (folderPath: string) => void;
-	private onFolderRemovedCallback?: () => void;
+	private onFolderRemovedCallback?: (folderPath: string) => void;
+	private onIncludePeriodicChangeCallback?: (granularities: PeriodicGranularity[]) => void;
+	private onCustomRangeChangeCallback?: (customRange: CustomDateRange) => void;
+	private onCompareToPreviousChangeCallback?: (enabled: boolean) => void;
+	private onRecursiveChangeCallback?: (recursive: boolean) => void;
+	private onExcludeChangeCallback?: (patterns: string[]) => void;
+	private onTimeSeriesOptionsChangeCallback?: (options: TimeSeriesOptions) => void;
 	private unsubscribeSettings?: () => void;
 
 	constructor(
@@ -56,7 +75,13 @@ export class BacklinkCounterComponent {
 		// FEA009: Folder watching callbacks
 		onModeChangeCallback?: (mode: WatchMode) => void,
 		onFolderAddedCallback?: (folderPath: string) => void,
-		onFolderRemovedCallback?: () => void
+		onFolderRemovedCallback?: (folderPath: string) => void,
+		onIncludePeriodicChangeCallback?: (granularities: PeriodicGranularity[]) => void,
+		onCustomRangeChangeCallback?: (customRange: CustomDateRange) => void,
+		onCompareToPreviousChangeCallback?: (enabled: boolean) => void,
+		onRecursiveChangeCallback?: (recursive: boolean) => void,
+		onExcludeChangeCallback?: (patterns: string[]) => void,
+		onTimeSeriesOptionsChangeCallback?: (options: TimeSeriesOptions) => void
 	) {
 		this.container = container;
 		this.app = app;
@@ -72,6 +97,12 @@ export class BacklinkCounterComponent {
 		this.onModeChangeCallback = onModeChangeCallback;
 		this.onFolderAddedCallback = onFolderAddedCallback;
 		this.onFolderRemovedCallback = onFolderRemovedCallback;
+		this.onIncludePeriodicChangeCallback = onIncludePeriodicChangeCallback;
+		this.onCustomRangeChangeCallback = onCustomRangeChangeCallback;
+		this.onCompareToPreviousChangeCallback = onCompareToPreviousChangeCallback;
+		this.onRecursiveChangeCallback = onRecursiveChangeCallback;
+		this.onExcludeChangeCallback = onExcludeChangeCallback;
+		this.onTimeSeriesOptionsChangeCallback = onTimeSeriesOptionsChangeCallback;
 		// Default to past 30 days, default display mode, and folder watch mode (FEA009)
 		this.state = { 
 			selectedPeriod: TimePeriod.PAST_30_DAYS,
@@ -84,6 +115,8 @@ export class BacklinkCounterComponent {
 		this.pieRenderer = new PieRenderer(this.container);
 		// Initialize TimeSeriesRenderer with a placeholder container that will be set during render
 		this.timeSeriesRenderer = new TimeSeriesRenderer(this.container);
+		// Initialize StreakRenderer with a placeholder container that will be set during render
+		this.streakRenderer = new StreakRenderer(this.container);
 
 		// Subscribe to settings changes (FEA010)
 		// Re-render when relevant settings change (firstDayOfWeek, maxWatchedNotes, series colors)
@@ -109,13 +142,29 @@ export class BacklinkCounterComponent {
 	 * - Single note path (legacy)
 	 * - Multiple note paths
 	 * - Display mode (FEA007)
-	 * - Watch mode and folder path (FEA009)
+	 * - Watch mode, folder paths, nested folders and exclusion patterns (FEA009)
+	 * - Weekly, monthly and quarterly notes to include
+	 * - Comparison with the previous period
+	 * - Tag, property and unresolved link sources
+	 * - Aggregation of the values logged with the links or mentions
+	 * - Query selecting the watched notes by tags, properties and paths
+	 * - Bucketing, cumulative mode and moving average of the time-series display
+	 * - Total of the counts, shown above the results
 	 */
 	updateWatchedItems(config: { 
 		notePath?: string | string[]; 
 		displayAs?: DisplayMode;
 		watchMode?: WatchMode;
 		folderPath?: string | string[];
+		recursive?: boolean;
+		exclude?: string[];
+		includePeriodic?: PeriodicGranularity[];
+		compareToPrevious?: boolean;
+		sources?: SignalSourceConfig[];
+		aggregate?: ValueAggregation;
+		query?: string;
+		timeSeries?: TimeSeriesOptions;
+		showTotal?: boolean;
 	}): void {
 		// Normalize to array format
 		this.state.notePath = config.notePath ? (Array.isArray(config.notePath) ? config.notePath : [config.notePath]) : undefined;
@@ -129,6 +178,33 @@ export class BacklinkCounterComponent {
 		if (config.folderPath !== undefined) {
 			this.state.folderPath = Array.isArray(config.folderPath) ? config.folderPath : [config.folderPath];
 		}
+		if (config.recursive !== undefined) {
+			this.state.recursive = config.recursive;
+		}
+		if (config.exclude !== undefined) {
+			this.state.exclude = config.exclude;
+		}
+		if (config.includePeriodic !== undefined) {
+			this.state.includePeriodic = config.includePeriodic;
+		}
+		if (config.compareToPrevious !== undefined) {
+			this.state.compareToPrevious = config.compareToPrevious;
+		}
+		if (config.sources !== undefined) {
+			this.state.sources = config.sources;
+		}
+		if (config.aggregate !== undefined) {
+			this.state.aggregate = config.aggregate;
+		}
+		if (config.query !== undefined) {
+			this.state.query = config.query || undefined;
+		}
+		if (config.timeSeries !== undefined) {
+			this.state.timeSeries = config.timeSeries;
+		}
+		if (config.showTotal !== undefined) {
+			this.state.showTotal = config.showTotal;
+		}
 		this.updateCounts();
 		this.render();
 	}
@@ -147,7 +223,10 @@ export class BacklinkCounterComponent {
 		this.counterResults = [{
 			notePath: notePath || '',
 			noteTitle: noteTitle || 'Unknown',
-			count
+			count,
+			previousCount: this.state.compareToPrevious
+				? this.classifier.countBacklinksInRange(backlinks, this.getPreviousDateRange(), this.getIncludedGranularities())
+				: undefined
 		}];
 		this.render();
 	}
@@ -161,6 +240,17 @@ export class BacklinkCounterComponent {
 		this.render();
 	}
 
+	/**
+	 * Set the absolute range used by the custom period
+	 */
+	setCustomRange(customRange: CustomDateRange | undefined): void {
+		this.state.customRange = customRange;
+		if (this.state.selectedPeriod === TimePeriod.CUSTOM) {
+			this.updateCounts();
+			this.render();
+		}
+	}
+
 	/**
 	 * Set the display mode (FEA007)
 	 */
@@ -214,11 +304,29 @@ export class BacklinkCounterComponent {
 	}
 
 	/**
-	 * Remove the watched folder (FEA009 - Folder watching)
+	 * Remove a watched folder (FEA009 - Folder watching)
 	 */
-	removeFolder(): void {
+	removeFolder(folderPath: string): void {
 		if (this.onFolderRemovedCallback) {
-			this.onFolderRemovedCallback();
+			this.onFolderRemovedCallback(folderPath);
+		}
+	}
+
+	/**
+	 * Include or leave out the notes of nested folders
+	 */
+	setRecursive(recursive: boolean): void {
+		if (this.onRecursiveChangeCallback) {
+			this.onRecursiveChangeCallback(recursive);
+		}
+	}
+
+	/**
+	 * Replace the exclusion patterns of folder mode
+	 */
+	setExcludePatterns(patterns: string[]): void {
+		if (this.onExcludeChangeCallback) {
+			this.onExcludeChangeCallback(patterns);
 		}
 	}
 
@@ -229,7 +337,14 @@ export class BacklinkCounterComponent {
 	isEmpty(): boolean {
 		const hasNotes = this.state.notePath && this.state.notePath.length > 0;
 		const hasFolder = this.state.folderPath && this.state.folderPath.length > 0;
-		return !hasNotes && !hasFolder;
+		return !hasNotes && !hasFolder && !this.isQueryMode();
+	}
+
+	/**
+	 * Whether the watched notes are selected by a query (it replaces the note and folder modes)
+	 */
+	private isQueryMode(): boolean {
+		return !!this.state.query;
 	}
 
 	/**
@@ -240,32 +355,118 @@ export class BacklinkCounterComponent {
 		return this.isEmpty();
 	}
 
+	/**
+	 * Get the periodic note granularities counted by this component
+	 * Daily notes are always counted
+	 */
+	private getIncludedGranularities(): PeriodicGranularity[] {
+		const extra = (this.state.includePeriodic || []).filter(g => g !== PeriodicGranularity.DAY);
+		return [PeriodicGranularity.DAY, ...extra];
+	}
+
+	/**
+	 * Get the date range of the selected period
+	 */
+	private getSelectedDateRange(): DateRange {
+		const firstDayOfWeek = this.settingsService.getSettings().firstDayOfWeek;
+		return DateRangeCalculator.calculateDateRange(this.state.selectedPeriod, firstDayOfWeek, this.state.customRange);
+	}
+
+	/**
+	 * Get the window preceding the selected period, used for trend comparison
+	 */
+	private getPreviousDateRange(): DateRange {
+		const firstDayOfWeek = this.settingsService.getSettings().firstDayOfWeek;
+		return DateRangeCalculator.calculatePreviousDateRange(this.state.selectedPeriod, firstDayOfWeek, this.state.customRange);
+	}
+
+	/**
+	 * Get the label of the window preceding the selected period (e.g., "last month")
+	 */
+	private getPreviousPeriodLabel(): string {
+		return DateRangeCalculator.getPreviousPeriodLabel(this.state.selectedPeriod);
+	}
+
+	/**
+	 * Get the label of the selected period (e.g., "past 30 days" or "2026-03-01 to 2026-05-31")
+	 */
+	private getSelectedPeriodLabel(): string {
+		if (this.state.selectedPeriod === TimePeriod.CUSTOM && this.state.customRange) {
+			return DateRangeCalculator.getCustomRangeLabel(this.state.customRange);
+		}
+		return DateRangeCalculator.getPeriodLabel(this.state.selectedPeriod);
+	}
+
+	/**
+	 * Toggle counting of weekly, monthly and quarterly notes
+	 */
+	private onIncludePeriodicToggle(): void {
+		const includePeriodic = this.state.includePeriodic && this.state.includePeriodic.length > 0
+			? []
+			: [PeriodicGranularity.WEEK, PeriodicGranularity.MONTH, PeriodicGranularity.QUARTER];
+		this.state.includePeriodic = includePeriodic;
+		this.updateCounts();
+		this.render();
+
+		// Notify callback if provided
+		if (this.onIncludePeriodicChangeCallback) {
+			this.onIncludePeriodicChangeCallback(includePeriodic);
+		}
+	}
+
+	/**
+	 * Toggle comparison with the previous period
+	 */
+	private onCompareToPreviousToggle(): void {
+		const enabled = !this.state.compareToPrevious;
+		this.state.compareToPrevious = enabled;
+		this.updateCounts();
+		this.render();
+
+		// Notify callback if provided
+		if (this.onCompareToPreviousChangeCallback) {
+			this.onCompareToPreviousChangeCallback(enabled);
+		}
+	}
+
 	/**
 	 * Update all counter results based on current state
-	 * Handles both note mode and folder mode (FEA009)
+	 * Handles note mode, folder mode (FEA009) and query selection
 	 */
 	private updateCounts(): void {
 		this.counterResults = [];
+		this.signalSources.clear();
+		this.queryError = null;
+		const dateRange = this.getSelectedDateRange();
+		const previousRange = this.state.compareToPrevious ? this.getPreviousDateRange() : null;
+		const granularities = this.getIncludedGranularities();
 
 		const currentMode = this.state.watchMode || WatchMode.FOLDER;
 
-		if (currentMode === WatchMode.FOLDER) {
+		if (this.state.query) {
+			// Query selection - evaluated on each update, like folder membership
+			try {
+				const notes = NoteQuery.parse(this.state.query).getMatchingNotes(this.app);
+				for (const file of notes) {
+					this.counterResults.push(this.buildCounterResult(file, dateRange, previousRange, granularities));
+				}
+				logger.log('[BacklinkCounter] Query mode - found', notes.length, 'notes for', this.state.query);
+			} catch (error) {
+				if (!(error instanceof NoteQueryError)) {
+					throw error;
+				}
+				this.queryError = error.message;
+			}
+		} else if (currentMode === WatchMode.FOLDER) {
 			// Folder watching mode (FEA009)
 			if (this.state.folderPath && this.state.folderPath.length > 0) {
-				const folderPath = this.state.folderPath[0]; // Currently supporting single folder
-				const notes = this.folderResolver.getNotesInFolder(folderPath);
+				const notes = this.getFolderNotes();
 				
 				for (const file of notes) {
-					const backlinks = this.analysisService.getBacklinksForFile(file);
-					const count = this.calculateCountForBacklinks(backlinks);
-					this.counterResults.push({
-						notePath: file.path,
-						noteTitle: file.basename,
-						count
-					});
+					this.counterResults.push(this.buildCounterResult(file, dateRange, previousRange, granularities));
 				}
 				
-				logger.log('[BacklinkCounter] Folder mode - found', notes.length, 'notes in', folderPath);
+				logger.log('[BacklinkCounter] Folder mode - found', notes.length, 'notes in', this.state.folderPath);
 			}
 		} else {
 			// Note watching mode (original behavior)
@@ -276,18 +477,93 @@ export class BacklinkCounterComponent {
 				for (const notePath of this.state.notePath) {
 					const file = this.app.vault.getAbstractFileByPath(notePath);
 					if (file instanceof TFile) {
-						const backlinks = this.analysisService.getBacklinksForFile(file);
-						logger.warn('[BacklinkCounter] Calculating count for note:', file.path, backlinks);
-						const count = this.calculateCountForBacklinks(backlinks);
-						this.counterResults.push({
-							notePath: file.path,
-							noteTitle: file.basename,
-							count
-						});
+						this.counterResults.push(this.buildCounterResult(file, dateRange, previousRange, granularities));
 					}
 				}
 			}
 		}
+
+		// Signal sources are counted in both modes
+		for (const config of this.state.sources ?? []) {
+			const source = this.analysisService.createSignalSource(config);
+			if (source) {
+				this.signalSources.set(source.id, source);
+				this.counterResults.push(this.buildSourceCounterResult(source, dateRange, previousRange, granularities));
+			}
+		}
+	}
+
+	/**
+	 * Notes of the watched folders, once each, without the excluded paths
+	 */
+	private getFolderNotes(): TFile[] {
+		const recursive = this.state.recursive !== false;
+		const exclude = this.state.exclude ?? [];
+		const notes = new Map<string, TFile>();
+		for (const folderPath of this.state.folderPath ?? []) {
+			for (const file of this.folderResolver.getNotesInFolder(folderPath, recursive)) {
+				if (!exclude.some(pattern => GlobMatcher.matches(file.path, pattern))) {
+					notes.set(file.path, file);
+				}
+			}
+		}
+		return Array.from(notes.values());
+	}
+
+	/**
+	 * Count backlinks to a note in the selected period, and in the previous one when comparing
+	 */
+	private buildCounterResult(
+		file: TFile,
+		dateRange: DateRange,
+		previousRange: DateRange | null,
+		granularities: PeriodicGranularity[]
+	): NoteCounterResult {
+		// Weighted counting reads the values logged with the links ("[[Note]]:: 5")
+		const source = this.getAggregation() !== ValueAggregation.COUNT
+			? this.analysisService.createSignalSource({ type: SignalSourceType.LINK, value: file.path })
+			: null;
+		if (source) {
+			// Still a note row: keyed by path, removable, no signal source type
+			return { ...this.buildSourceCounterResult(source, dateRange, previousRange, granularities), notePath: file.path, sourceType: undefined };
+		}
+
+		return {
+			notePath: file.path,
+			noteTitle: file.basename,
+			count: this.analysisService.countBacklinksInRange(file, dateRange, granularities),
+			previousCount: previousRange
+				? this.analysisService.countBacklinksInRange(file, previousRange, granularities)
+				: undefined
+		};
+	}
+
+	/**
+	 * Count mentions of a signal source in the selected period, and in the previous one when comparing
+	 */
+	private buildSourceCounterResult(
+		source: SignalSource,
+		dateRange: DateRange,
+		previousRange: DateRange | null,
+		granularities: PeriodicGranularity[]
+	): NoteCounterResult {
+		const aggregation = this.getAggregation();
+		return {
+			notePath: source.id,
+			noteTitle: source.title,
+			count: ValueAggregator.round(this.analysisService.countMentionsInRange(source, dateRange, granularities, aggregation)),
+			previousCount: previousRange
+				? ValueAggregator.round(this.analysisService.countMentionsInRange(source, previousRange, granularities, aggregation))
+				: undefined,
+			sourceType: source.type
+		};
+	}
+
+	/**
+	 * How the values logged with mentions are combined (count by default)
+	 */
+	private getAggregation(): ValueAggregation {
+		return this.state.aggregate ?? ValueAggregation.COUNT;
 	}
 
 	/**
@@ -298,9 +574,7 @@ export class BacklinkCounterComponent {
 			return 0;
 		}
 
-		const firstDayOfWeek = this.settingsService.getSettings().firstDayOfWeek;
-		const dateRange = DateRangeCalculator.calculateDateRange(this.state.selectedPeriod, firstDayOfWeek);
-		let totalCount = 0;
+		const dateRange = this.getSelectedDateRange();
 
 		// DEBUG: Log date range for troubleshooting
 		logger.log('[BacklinkCounter] Date range:', {
@@ -309,57 +583,51 @@ export class BacklinkCounterComponent {
 			endDate: dateRange.endDate.toISOString()
 		});
 
-		// Filter backlinks to daily notes within the date range
-		for (const backlinkInfo of backlinks) {
-			if (this.classifier.isDailyNote(backlinkInfo.file)) {
-				const dateString = this.classifier.extractDateFromDailyNote(backlinkInfo.file);
-				if (dateString) {
-					const fileDate = this.parseDateString(dateString);
-					if (fileDate) {
-						const isInRange = fileDate >= dateRange.startDate && fileDate <= dateRange.endDate;
-						// DEBUG: Log each daily note check
-						logger.log('[BacklinkCounter] Checking daily note:', {
-							file: backlinkInfo.file.path,
-							dateString,
-							fileDate: fileDate.toISOString(),
-							isInRange,
-							linkCount: backlinkInfo.linkCount
-						});
-						if (isInRange) {
-							totalCount += backlinkInfo.linkCount;
-						}
-					}
-				}
-			}
-		}
-
+		const totalCount = this.classifier.countBacklinksInRange(backlinks, dateRange, this.getIncludedGranularities());
 		logger.log('[BacklinkCounter] Final count:', totalCount);
 		return totalCount;
 	}
 
 	/**
-	 * Parse a date string in YYYY-MM-DD format to a Date object (at midnight)
+	 * Handle period selection change
 	 */
-	private parseDateString(dateString: string): Date | null {
-		const match = dateString.match(/(\d{4})-(\d{2})-(\d{2})/);
-		if (!match) {
-			return null;
+	private onPeriodChange(newPeriod: TimePeriod): void {
+		// Seed the custom range with the range that was displayed until now
+		if (newPeriod === TimePeriod.CUSTOM && !this.state.customRange) {
+			const currentRange = this.getSelectedDateRange();
+			this.state.customRange = {
+				startDate: DateRangeCalculator.formatDateKey(currentRange.startDate),
+				endDate: DateRangeCalculator.formatDateKey(currentRange.endDate)
+			};
+		}
+
+		this.state.selectedPeriod = newPeriod;
+		this.updateCounts();
+		this.render();
+		
+		// Custom range callback persists the range together with the period
+		if (newPeriod === TimePeriod.CUSTOM && this.onCustomRangeChangeCallback && this.state.customRange) {
+			this.onCustomRangeChangeCallback(this.state.customRange);
+		} else if (this.onPeriodChangeCallback) {
+			this.onPeriodChangeCallback(newPeriod);
 		}
-		const [, year, month, day] = match;
-		return new Date(parseInt(year), parseInt(month) - 1, parseInt(day), 0, 0, 0, 0);
 	}
 
 	/**
-	 * Handle period selection change
+	 * Handle custom range change from the date pickers
 	 */
-	private onPeriodChange(newPeriod: TimePeriod): void {
-		this.state.selectedPeriod = newPeriod;
+	private onCustomRangeChange(customRange: CustomDateRange): void {
+		if (!DateRangeCalculator.parseCustomRange(customRange)) {
+			return;
+		}
+
+		this.state.customRange = customRange;
 		this.updateCounts();
 		this.render();
-		
+
 		// Notify callback if provided
-		if (this.onPeriodChangeCallback) {
-			this.onPeriodChangeCallback(newPeriod);
+		if (this.onCustomRangeChangeCallback) {
+			this.onCustomRangeChangeCallback(customRange);
 		}
 	}
 
@@ -385,6 +653,19 @@ export class BacklinkCounterComponent {
 
 		// Render controls (including mode toggle)
 		this.renderControls();
+		if (this.state.selectedPeriod === TimePeriod.CUSTOM) {
+			this.renderCustomRangePicker();
+		}
+
+		// An invalid query is reported whatever the display mode
+		if (this.isQueryMode() && this.queryError) {
+			this.renderQueryHeader();
+			return;
+		}
+
+		if (this.state.showTotal && this.counterResults.length > 0) {
+			this.renderTotal();
+		}
 
 		// Render content based on display mode
 		const currentDisplayMode = this.state.displayAs || DisplayMode.DEFAULT;
@@ -394,6 +675,8 @@ export class BacklinkCounterComponent {
 			this.renderPieMode();
 		} else if (currentDisplayMode === DisplayMode.TIME_SERIES) {
 			this.renderTimeSeriesMode();
+		} else if (currentDisplayMode === DisplayMode.STREAK) {
+			this.renderStreakMode();
 		} else {
 			this.renderDefaultMode();
 		}
@@ -405,7 +688,8 @@ export class BacklinkCounterComponent {
 	 */
 	private renderModeToggle(parentContainer: HTMLElement): void {
 		// Only show mode toggle if we have the callback (code block context, not Note Insights View)
-		if (!this.onModeChangeCallback) {
+		// A query replaces the note and folder modes
+		if (!this.onModeChangeCallback || this.isQueryMode()) {
 			return;
 		}
 
@@ -459,7 +743,7 @@ export class BacklinkCounterComponent {
 	 * Render the control elements (period selector, display mode toggle, add button)
 	 */
 	private renderControls(): void {
-		const controlsContainer = this.container.createEl('div', { cls: 'backlink-counter-controls' });
+		const controlsContainer = this.container.createEl('div', { cls: `backlink-counter-controls ${EXPORT_IGNORE_CLASS}` });
 		
 		// FEA009: Render mode toggle first in the controls
 		this.renderModeToggle(controlsContainer);
@@ -504,29 +788,60 @@ export class BacklinkCounterComponent {
 			this.onPeriodChange(select.value as TimePeriod);
 		});
 
+		// Periodic notes toggle - only show when callback provided (code block context)
+		if (this.onIncludePeriodicChangeCallback) {
+			const isIncluded = this.getIncludedGranularities().length > 1;
+			const periodicButton = controlsContainer.createEl('button', {
+				cls: `backlink-counter-periodic-toggle ${isIncluded ? 'active' : ''}`,
+				attr: {
+					'aria-label': isIncluded
+						? 'Count daily notes only'
+						: 'Also count weekly, monthly and quarterly notes'
+				}
+			});
+			setIcon(periodicButton, 'calendar-range');
+			periodicButton.addEventListener('click', () => {
+				this.onIncludePeriodicToggle();
+			});
+		}
+
+		// Previous period comparison toggle - only show when callback provided (code block context)
+		if (this.onCompareToPreviousChangeCallback) {
+			const isComparing = !!this.state.compareToPrevious;
+			const compareButton = controlsContainer.createEl('button', {
+				cls: `backlink-counter-compare-toggle ${isComparing ? 'active' : ''}`,
+				attr: {
+					'aria-label': isComparing
+						? 'Hide comparison with the previous period'
+						: `Compare with the ${this.getPreviousPeriodLabel()}`
+				}
+			});
+			setIcon(compareButton, 'git-compare');
+			compareButton.addEventListener('click', () => {
+				this.onCompareToPreviousToggle();
+			});
+		}
+
 		// Add button (Folder or Note based on watch mode) - only show when callbacks provided
 		const currentMode = this.state.watchMode || WatchMode.FOLDER;
 		const hasFolderCallback = this.onFolderAddedCallback;
 		const hasNoteCallback = this.onNoteAddedCallback;
 		
-		// Show add button if we have the appropriate callback for the current mode
-		if ((currentMode === WatchMode.FOLDER && hasFolderCallback) || 
-		    (currentMode === WatchMode.NOTE && hasNoteCallback)) {
+		// Show add button if we have the appropriate callback for the current mode (not with a query)
+		if (!this.isQueryMode() && ((currentMode === WatchMode.FOLDER && hasFolderCallback) || 
+		    (currentMode === WatchMode.NOTE && hasNoteCallback))) {
 			const currentCount = this.state.notePath?.length || 0;
 			const maxWatchedNotes = this.settingsService.getSettings().maxWatchedNotes;
 			
-			// In folder mode, we can only watch one folder, so check if folder exists
+			// Folders can be added freely; the display limit applies to their notes
 			const isFolderMode = currentMode === WatchMode.FOLDER;
-			const hasFolderSelected = this.state.folderPath && this.state.folderPath.length > 0;
-			const isAtLimit = isFolderMode ? hasFolderSelected : (currentCount >= maxWatchedNotes);
+			const isAtLimit = !isFolderMode && currentCount >= maxWatchedNotes;
 			
 			const addButton = controlsContainer.createEl('button', { 
 				cls: `backlink-counter-add-button ${isAtLimit ? 'disabled' : ''}`,
 				attr: { 
 					'aria-label': isAtLimit 
-						? (isFolderMode 
-							? 'A folder is already selected' 
-							: `Maximum limit of ${maxWatchedNotes} notes reached`)
+						? `Maximum limit of ${maxWatchedNotes} notes reached`
 						: (isFolderMode ? 'Add folder to watch' : 'Add note to watch')
 				}
 			});
@@ -551,20 +866,62 @@ export class BacklinkCounterComponent {
 				});
 			}
 		}
+
+		// Export the current display mode as an image (controls are left out)
+		if (this.counterResults.length > 0) {
+			const exportTitle = this.counterResults.length === 1 ? `${this.counterResults[0].noteTitle} counter` : 'Counter';
+			renderExportButton(this.app, controlsContainer, () => this.container, exportTitle, () => this.getExportData());
+		}
+	}
+
+	/**
+	 * Render start and end date pickers for the custom period
+	 */
+	private renderCustomRangePicker(): void {
+		const rangeContainer = this.container.createEl('div', { cls: `backlink-counter-custom-range ${EXPORT_IGNORE_CLASS}` });
+
+		const startInput = rangeContainer.createEl('input', {
+			cls: 'backlink-counter-date-input',
+			type: 'date',
+			attr: { 'aria-label': 'Start date' }
+		});
+		rangeContainer.createEl('span', { cls: 'backlink-counter-custom-range-separator', text: '→' });
+		const endInput = rangeContainer.createEl('input', {
+			cls: 'backlink-counter-date-input',
+			type: 'date',
+			attr: { 'aria-label': 'End date' }
+		});
+
+		startInput.value = this.state.customRange?.startDate ?? '';
+		endInput.value = this.state.customRange?.endDate ?? '';
+
+		const handleChange = () => {
+			this.onCustomRangeChange({ startDate: startInput.value, endDate: endInput.value });
+		};
+		startInput.addEventListener('change', handleChange);
+		endInput.addEventListener('change', handleChange);
 	}
 
 	/**
 	 * Check if display mode toggle should be shown
-	 * Only show for multiple notes watching (FEA007 requirement)
+	 * Charts need multiple notes (FEA007 requirement); a single note can still switch to its habit statistics
 	 */
 	private shouldShowDisplayModeToggle(): boolean {
-		return this.counterResults.length > 1;
+		return this.counterResults.length > 0;
 	}
 
 	/**
 	 * Render default mode display (FEA007)
 	 */
 	private renderDefaultMode(): void {
+		// Query selection: show the query first, and why nothing is counted
+		if (this.isQueryMode()) {
+			this.renderQueryHeader();
+			if (this.queryError || this.counterResults.length === 0) {
+				return;
+			}
+		}
+
 		// Display counter results
 		if (this.counterResults.length === 0) {
 			// Empty state - show placeholder with mode selector
@@ -573,11 +930,11 @@ export class BacklinkCounterComponent {
 			const currentMode = this.state.watchMode || WatchMode.FOLDER;
 			
 			// In folder mode, show folder info first (FEA009 - Task 3.5)
-			if (currentMode === WatchMode.FOLDER && this.state.folderPath && this.state.folderPath.length > 0) {
+			if (currentMode === WatchMode.FOLDER && !this.isQueryMode() && this.state.folderPath && this.state.folderPath.length > 0) {
 				this.renderFolderHeader();
 			}
 			
-			if (this.counterResults.length === 1 && currentMode === WatchMode.NOTE) {
+			if (this.counterResults.length === 1 && currentMode === WatchMode.NOTE && !this.isQueryMode()) {
 				// Single note display (original layout - only in note mode)
 				const result = this.counterResults[0];
 				const countContainer = this.container.createEl('div', { cls: 'backlink-counter-display' });
@@ -589,8 +946,13 @@ export class BacklinkCounterComponent {
 
 				countContainer.createEl('div', {
 					cls: 'backlink-counter-label',
-					text: this.getCountLabel(result.count)
+					text: this.getCountLabel(result.count, result.sourceType !== undefined)
 				});
+
+				if (result.previousCount !== undefined) {
+					const trendContainer = countContainer.createEl('div', { cls: 'backlink-counter-trend' });
+					renderTrendIndicator(trendContainer, result.count, result.previousCount, this.getPreviousPeriodLabel());
+				}
 			} else {
 				// Multiple notes display (FEA009) - or notes in folder mode
 				const listContainer = this.container.createEl('div', { cls: 'backlink-counter-list' });
@@ -615,11 +977,16 @@ export class BacklinkCounterComponent {
 
 					itemContainer.createEl('div', {
 						cls: 'backlink-counter-item-count',
-						text: `${result.count} ${result.count === 1 ? 'backlink' : 'backlinks'}`
+						text: `${result.count} ${this.getCountWord(result.count, result.sourceType !== undefined)}`
 					});
 
+					if (result.previousCount !== undefined) {
+						renderTrendIndicator(itemContainer, result.count, result.previousCount, this.getPreviousPeriodLabel());
+					}
+
 					// Add remove button (only when callback provided and in note mode)
-					if (this.onNoteRemovedCallback && currentMode === WatchMode.NOTE) {
+					// Signal sources are edited in the code block
+					if (this.onNoteRemovedCallback && currentMode === WatchMode.NOTE && !this.isQueryMode() && result.sourceType === undefined) {
 						const removeButton = itemContainer.createEl('button', {
 							cls: 'backlink-counter-item-remove',
 							attr: { 'aria-label': `Remove ${result.noteTitle}` }
@@ -643,6 +1010,29 @@ export class BacklinkCounterComponent {
 		}
 	}
 
+	/**
+	 * Render the sum of the counts of all results, with its trend when comparing
+	 */
+	private renderTotal(): void {
+		const total = ValueAggregator.round(this.counterResults.reduce((sum, result) => sum + result.count, 0));
+		const totalContainer = this.container.createEl('div', { cls: 'backlink-counter-display backlink-counter-total' });
+		totalContainer.createEl('div', {
+			cls: 'backlink-counter-number',
+			text: total.toString()
+		});
+		const noteCount = this.counterResults.length;
+		totalContainer.createEl('div', {
+			cls: 'backlink-counter-label',
+			text: `${this.getCountLabel(total)} across ${noteCount} ${noteCount === 1 ? 'note' : 'notes'}`
+		});
+
+		if (this.counterResults.every(result => result.previousCount !== undefined)) {
+			const previousTotal = ValueAggregator.round(this.counterResults.reduce((sum, result) => sum + (result.previousCount ?? 0), 0));
+			const trendContainer = totalContainer.createEl('div', { cls: 'backlink-counter-trend' });
+			renderTrendIndicator(trendContainer, total, previousTotal, this.getPreviousPeriodLabel());
+		}
+	}
+
 	/**
 	 * Render empty state with mode selector and placeholder
 	 * FEA009: Task 3.4
@@ -667,33 +1057,115 @@ export class BacklinkCounterComponent {
 	}
 
 	/**
-	 * Render folder header with folder name and remove button
+	 * Render the query selecting the watched notes, with its parse error or an empty result message
+	 * The query is edited in the code block
+	 */
+	private renderQueryHeader(): void {
+		const queryInfo = this.container.createEl('div', { cls: 'backlink-counter-folder-info backlink-counter-query-info' });
+		setIcon(queryInfo.createEl('span', { cls: 'backlink-counter-folder-icon' }), 'search');
+		queryInfo.createEl('span', { cls: 'backlink-counter-folder-text', text: this.state.query ?? '' });
+
+		if (this.queryError) {
+			this.container.createEl('div', {
+				cls: 'note-insight-error',
+				text: `Invalid query: ${this.queryError}`
+			});
+		} else if (this.counterResults.length === 0) {
+			this.container.createEl('div', {
+				cls: 'backlink-counter-empty-query',
+				text: 'No notes match this query'
+			});
+		}
+	}
+
+	/**
+	 * Render folder header: watched folders with remove buttons, nested folders toggle and exclusion patterns
 	 * FEA009: Task 3.5 - Folder mode populated UI
 	 */
 	private renderFolderHeader(): void {
-		const folderPath = this.state.folderPath?.[0];
-		if (!folderPath) return;
+		const folderPaths = this.state.folderPath ?? [];
+		if (folderPaths.length === 0) return;
 
 		const headerContainer = this.container.createEl('div', { cls: 'backlink-counter-folder-header' });
 		
-		// Folder icon and name
-		const folderInfo = headerContainer.createEl('div', { cls: 'folder-info' });
-		folderInfo.createEl('span', { cls: 'folder-icon', text: '📁' });
-		folderInfo.createEl('span', {
-			cls: 'folder-name',
-			text: folderPath.endsWith('/') ? folderPath : folderPath + '/'
-		});
-		
-		// Remove button (only if callback provided)
-		if (this.onFolderRemovedCallback) {
-			const removeButton = headerContainer.createEl('button', {
-				cls: 'folder-remove-button',
-				attr: { 'aria-label': `Remove folder ${folderPath}` }
+		// Folder icon and name, with a remove button (only if callback provided)
+		for (const folderPath of folderPaths) {
+			const folderInfo = headerContainer.createEl('div', { cls: 'folder-info' });
+			folderInfo.createEl('span', { cls: 'folder-icon', text: '📁' });
+			folderInfo.createEl('span', {
+				cls: 'folder-name',
+				text: folderPath.endsWith('/') ? folderPath : folderPath + '/'
+			});
+
+			if (this.onFolderRemovedCallback) {
+				const removeButton = folderInfo.createEl('button', {
+					cls: 'folder-remove-button',
+					attr: { 'aria-label': `Remove folder ${folderPath}` }
+				});
+				setIcon(removeButton, 'x');
+				removeButton.addEventListener('click', (e) => {
+					e.stopPropagation();
+					this.removeFolder(folderPath);
+				});
+			}
+		}
+
+		this.renderFolderOptions(headerContainer);
+	}
+
+	/**
+	 * Render the nested folders toggle and the exclusion patterns of folder mode
+	 * Read-only without callbacks: only the options set in the code block are listed
+	 */
+	private renderFolderOptions(container: HTMLElement): void {
+		const recursive = this.state.recursive !== false;
+		const exclude = this.state.exclude ?? [];
+		const canEdit = !!this.onExcludeChangeCallback;
+		if (!this.onRecursiveChangeCallback && !canEdit && recursive && exclude.length === 0) {
+			return;
+		}
+
+		const optionsContainer = container.createEl('div', { cls: 'backlink-counter-folder-options' });
+
+		if (this.onRecursiveChangeCallback) {
+			const recursiveButton = optionsContainer.createEl('button', {
+				cls: `backlink-counter-recursive-toggle ${recursive ? 'active' : ''}`,
+				text: recursive ? 'Nested folders' : 'Top level only',
+				attr: { 'aria-label': recursive ? 'Only count notes directly in the folders' : 'Include notes in nested folders' }
+			});
+			recursiveButton.addEventListener('click', () => {
+				this.setRecursive(!recursive);
+			});
+		} else if (!recursive) {
+			optionsContainer.createEl('span', { cls: 'backlink-counter-recursive-toggle', text: 'Top level only' });
+		}
+
+		for (const pattern of exclude) {
+			const patternChip = optionsContainer.createEl('span', { cls: 'backlink-counter-exclude-pattern' });
+			patternChip.createEl('span', { text: `Not ${pattern}` });
+			if (canEdit) {
+				const removeButton = patternChip.createEl('button', {
+					cls: 'backlink-counter-exclude-remove',
+					attr: { 'aria-label': `Stop excluding ${pattern}` }
+				});
+				setIcon(removeButton, 'x');
+				removeButton.addEventListener('click', () => {
+					this.setExcludePatterns(exclude.filter(p => p !== pattern));
+				});
+			}
+		}
+
+		if (canEdit) {
+			const input = optionsContainer.createEl('input', {
+				cls: 'backlink-counter-exclude-input',
+				type: 'text',
+				attr: { placeholder: 'Exclude, e.g. Archive/**', 'aria-label': 'Add an exclusion pattern' }
 			});
-			setIcon(removeButton, 'x');
-			removeButton.addEventListener('click', (e) => {
-				e.stopPropagation();
-				this.removeFolder();
+			input.addEventListener('keydown', (event: KeyboardEvent) => {
+				const pattern = input.value.trim();
+				if (event.key === 'Enter' && pattern && !exclude.includes(pattern)) {
+					this.setExcludePatterns([...exclude, pattern]);
+				}
 			});
 		}
 	}
@@ -711,8 +1183,8 @@ export class BacklinkCounterComponent {
 		
 		// Update TopNRenderer container and render
 		this.topNRenderer = new TopNRenderer(topNContainer);
-		const periodLabel = DateRangeCalculator.getPeriodLabel(this.state.selectedPeriod);
-		this.topNRenderer.render(displayedResults, periodLabel);
+		const periodLabel = this.getSelectedPeriodLabel();
+		this.topNRenderer.render(displayedResults, periodLabel, this.getPreviousPeriodLabel());
 		
 		// Show limit message if applicable
 		if (this.counterResults.length > maxWatchedNotes) {
@@ -736,9 +1208,9 @@ export class BacklinkCounterComponent {
 		
 		// Update PieRenderer container and render with colors from settings (FEA010)
 		this.pieRenderer = new PieRenderer(pieContainer);
-		const periodLabel = DateRangeCalculator.getPeriodLabel(this.state.selectedPeriod);
+		const periodLabel = this.getSelectedPeriodLabel();
 		const colors = this.settingsService.getSeriesColors();
-		this.pieRenderer.render(displayedResults, periodLabel, colors);
+		this.pieRenderer.render(displayedResults, periodLabel, colors, this.getPreviousPeriodLabel());
 		
 		// Show limit message if applicable
 		if (this.counterResults.length > maxWatchedNotes) {
@@ -760,44 +1232,167 @@ export class BacklinkCounterComponent {
 		const maxWatchedNotes = this.settingsService.getSettings().maxWatchedNotes;
 		const displayedResults = this.counterResults.slice(0, maxWatchedNotes);
 		
-		// Get time-series data for each watched note
-		const firstDayOfWeek = this.settingsService.getSettings().firstDayOfWeek;
-		const dateRange = DateRangeCalculator.calculateDateRange(this.state.selectedPeriod, firstDayOfWeek);
-		const timeSeriesData: Array<{ notePath: string; noteTitle: string; data: DailyNoteYearlyData }> = [];
+		// Get time-series data for each watched note (displayed results are limited)
+		const aggregation = this.getAggregation();
+		const seriesData = this.getTimeSeriesData(displayedResults);
 		
-		// Build time series data from displayed results (limited)
-		for (const result of displayedResults) {
-			const file = this.app.vault.getAbstractFileByPath(result.notePath);
-			if (file instanceof TFile) {
-				// Get daily backlink data for this note within the period
-				const backlinks = this.analysisService.getBacklinksForFile(file);
-				const dailyData = this.classifier.getDailyBacklinksInRange(backlinks, dateRange.startDate, dateRange.endDate);
-				
-				timeSeriesData.push({
-					notePath: file.path,
-					noteTitle: file.basename,
-					data: dailyData
-				});
-			}
+		// Header controls are available wherever the options can be kept (code block context)
+		this.timeSeriesRenderer = new TimeSeriesRenderer(
+			timeSeriesContainer,
+			this.onTimeSeriesOptionsChangeCallback ? (options) => this.onTimeSeriesOptionsChange(options) : undefined
+		);
+		const periodLabel = this.getSelectedPeriodLabel();
+		const valueLabel = aggregation !== ValueAggregation.COUNT ? ValueAggregator.getLabel(aggregation) : undefined;
+		this.timeSeriesRenderer.render(seriesData, periodLabel, valueLabel, this.getTimeSeriesOptions());
+		
+		// Show limit message if applicable
+		if (this.counterResults.length > maxWatchedNotes) {
+			timeSeriesContainer.createEl('div', {
+				cls: 'backlink-counter-limit-message',
+				text: `Showing top ${maxWatchedNotes} of ${this.counterResults.length} notes`
+			});
+		}
+	}
+
+	/**
+	 * Time-series options of the block, defaults for the options it does not set
+	 */
+	private getTimeSeriesOptions(): TimeSeriesOptions {
+		return { ...DEFAULT_TIME_SERIES_OPTIONS, ...this.state.timeSeries };
+	}
+
+	/**
+	 * Handle a change of the time-series header controls
+	 */
+	private onTimeSeriesOptionsChange(options: TimeSeriesOptions): void {
+		this.state.timeSeries = options;
+		this.render();
+
+		if (this.onTimeSeriesOptionsChangeCallback) {
+			this.onTimeSeriesOptionsChangeCallback(options);
 		}
+	}
+
+	/**
+	 * Bucketed time-series data of the results over the selected period, using colors from settings (FEA010)
+	 */
+	private getTimeSeriesData(results: NoteCounterResult[]): TimeSeriesData[] {
+		return buildTimeSeriesData(this.getDailyDataForResults(results), this.settingsService.getSeriesColors(), {
+			dateRange: this.getSelectedDateRange(),
+			options: this.getTimeSeriesOptions(),
+			firstDayOfWeek: this.settingsService.getSettings().firstDayOfWeek,
+			aggregation: this.getAggregation()
+		});
+	}
+
+	/**
+	 * Render streak mode display: habit statistics of each watched note over the period
+	 */
+	private renderStreakMode(): void {
+		const streakContainer = this.container.createEl('div', { cls: 'backlink-counter-streak' });
+		
+		// Phase 4: Apply display limit
+		const maxWatchedNotes = this.settingsService.getSettings().maxWatchedNotes;
+		const displayedResults = this.counterResults.slice(0, maxWatchedNotes);
 		
-		// Build series data and render using colors from settings (FEA010)
+		const dateRange = this.getSelectedDateRange();
 		const colors = this.settingsService.getSeriesColors();
-		const seriesData = buildTimeSeriesData(timeSeriesData, colors);
+		const rows: StreakRow[] = this.getDailyDataForResults(displayedResults).map((item, index) => ({
+			noteTitle: item.noteTitle,
+			color: colors[index % colors.length],
+			stats: StreakCalculator.calculate(item.data, dateRange)
+		}));
 		
-		this.timeSeriesRenderer = new TimeSeriesRenderer(timeSeriesContainer);
-		const periodLabel = DateRangeCalculator.getPeriodLabel(this.state.selectedPeriod);
-		this.timeSeriesRenderer.render(seriesData, periodLabel);
+		this.streakRenderer = new StreakRenderer(streakContainer);
+		this.streakRenderer.render(rows, this.getSelectedPeriodLabel(), this.settingsService.getSettings().firstDayOfWeek);
 		
 		// Show limit message if applicable
 		if (this.counterResults.length > maxWatchedNotes) {
-			timeSeriesContainer.createEl('div', {
+			streakContainer.createEl('div', {
 				cls: 'backlink-counter-limit-message',
 				text: `Showing top ${maxWatchedNotes} of ${this.counterResults.length} notes`
 			});
 		}
 	}
 
+	/**
+	 * Numbers behind the current display mode, over the selected period
+	 * Time-series mode exports its points (one row per day, week or month), streak mode one row per day,
+	 * the other modes one row per watched note
+	 */
+	private getExportData(): DataTable {
+		const currentMode = this.state.displayAs || DisplayMode.DEFAULT;
+		const dateRange = this.getSelectedDateRange();
+		if (currentMode === DisplayMode.TIME_SERIES) {
+			const seriesData = this.getTimeSeriesData(this.counterResults);
+			const columns = ['date', ...seriesData.map(series => series.noteTitle)];
+			const rows = (seriesData[0]?.dataPoints ?? []).map((point, index) => [
+				point.date,
+				...seriesData.map(series => ValueAggregator.round(series.dataPoints[index].count))
+			]);
+			return { columns, rows };
+		}
+		if (currentMode === DisplayMode.STREAK) {
+			const series = this.getDailyDataForResults(this.counterResults)
+				.map(item => ({ title: item.noteTitle, data: item.data }));
+			return DataExporter.buildDailyTable(DataExporter.getDates(dateRange), series);
+		}
+
+		const from = DateRangeCalculator.formatDateKey(dateRange.startDate);
+		const to = DateRangeCalculator.formatDateKey(dateRange.endDate);
+		const valueColumn = ValueAggregator.getLabel(this.getAggregation());
+		const columns = ['note', 'path', valueColumn, 'from', 'to'];
+		if (this.state.compareToPrevious) {
+			columns.push(`previous ${valueColumn}`);
+		}
+		const rows = this.counterResults.map(result => {
+			const row: Array<string | number> = [result.noteTitle, result.notePath, ValueAggregator.round(result.count), from, to];
+			if (this.state.compareToPrevious) {
+				row.push(ValueAggregator.round(result.previousCount ?? 0));
+			}
+			return row;
+		});
+		return { columns, rows };
+	}
+
+	/**
+	 * Get the daily data of each result within the selected period
+	 * Signal sources give their mentions; notes their backlinks (or the aggregated logged values)
+	 */
+	private getDailyDataForResults(results: NoteCounterResult[]): Array<{ notePath: string; noteTitle: string; data: DailyNoteYearlyData }> {
+		const dateRange = this.getSelectedDateRange();
+		const granularities = this.getIncludedGranularities();
+		const aggregation = this.getAggregation();
+		const dailyData: Array<{ notePath: string; noteTitle: string; data: DailyNoteYearlyData }> = [];
+
+		for (const result of results) {
+			const source = this.signalSources.get(result.notePath);
+			if (result.sourceType !== undefined && source) {
+				dailyData.push({
+					notePath: source.id,
+					noteTitle: source.title,
+					data: this.analysisService.getDailyMentionsInRange(source, dateRange, granularities, aggregation)
+				});
+				continue;
+			}
+
+			const file = this.app.vault.getAbstractFileByPath(result.notePath);
+			if (file instanceof TFile) {
+				const linkSource = aggregation !== ValueAggregation.COUNT
+					? this.analysisService.createSignalSource({ type: SignalSourceType.LINK, value: file.path })
+					: null;
+				dailyData.push({
+					notePath: file.path,
+					noteTitle: file.basename,
+					data: linkSource
+						? this.analysisService.getDailyMentionsInRange(linkSource, dateRange, granularities, aggregation)
+						: this.analysisService.getDailyBacklinksInRange(file, dateRange, granularities)
+				});
+			}
+		}
+		return dailyData;
+	}
+
 	/**
 	 * Show note selector modal to add a note
 	 */
@@ -821,12 +1416,30 @@ export class BacklinkCounterComponent {
 	/**
 	 * Get the label text for a count
 	 */
-	private getCountLabel(count: number): string {
-		const periodLabel = DateRangeCalculator.getPeriodLabel(this.state.selectedPeriod);
-		const backlinkWord = count === 1 ? 'backlink' : 'backlinks';
+	private getCountLabel(count: number, isSource: boolean = false): string {
+		const periodLabel = this.getSelectedPeriodLabel();
+		const backlinkWord = this.getCountWord(count, isSource);
+		if (this.state.selectedPeriod === TimePeriod.CUSTOM) {
+			return `${backlinkWord} from ${periodLabel}`;
+		}
 		return `${backlinkWord} in the ${periodLabel}`;
 	}
 
+	/**
+	 * Get the counted unit: links for notes, mentions for signal sources,
+	 * or the aggregation when values are combined (e.g., "12.5 total")
+	 */
+	private getCountWord(count: number, isSource: boolean): string {
+		const aggregation = this.getAggregation();
+		if (aggregation !== ValueAggregation.COUNT) {
+			return ValueAggregator.getLabel(aggregation);
+		}
+		if (isSource) {
+			return count === 1 ? 'mention' : 'mentions';
+		}
+		return count === 1 ? 'backlink' : 'backlinks';
+	}
+
 	/**
 	 * Get icon name for display mode (FEA007, FEA006, FEA008)
 	 */
@@ -840,23 +1453,27 @@ export class BacklinkCounterComponent {
 				return 'pie-chart';
 			case DisplayMode.TIME_SERIES:
 				return 'trending-up';
+			case DisplayMode.STREAK:
+				return 'flame';
 			default:
 				return 'list';
 		}
 	}
 
 	/**
-	 * Get aria label for display mode (FEA007, FEA006, FEA008)
+	 * Get aria label for display mode: describes the mode the toggle switches to (FEA007, FEA006, FEA008)
 	 */
 	private getDisplayModeLabel(mode: DisplayMode): string {
-		switch (mode) {
-			case DisplayMode.DEFAULT:
-				return 'Switch to bar chart view';
+		switch (this.getNextDisplayMode(mode)) {
 			case DisplayMode.TOP_N:
-				return 'Switch to pie chart view';
+				return 'Switch to bar chart view';
 			case DisplayMode.PIE:
-				return 'Switch to time-series view';
+				return 'Switch to pie chart view';
 			case DisplayMode.TIME_SERIES:
+				return 'Switch to time-series view';
+			case DisplayMode.STREAK:
+				return 'Switch to habit statistics view';
+			case DisplayMode.DEFAULT:
 				return 'Switch to list view';
 			default:
 				return 'Switch display mode';
@@ -864,9 +1481,13 @@ export class BacklinkCounterComponent {
 	}
 
 	/**
-	 * Get next display mode in cycle: default -> top-n -> pie -> time-series -> default (FEA007, FEA006, FEA008)
+	 * Get next display mode in cycle: default -> top-n -> pie -> time-series -> streak -> default (FEA007, FEA006, FEA008)
+	 * A single note only switches between the list and its habit statistics
 	 */
 	private getNextDisplayMode(currentMode: DisplayMode): DisplayMode {
+		if (this.counterResults.length === 1) {
+			return currentMode === DisplayMode.STREAK ? DisplayMode.DEFAULT : DisplayMode.STREAK;
+		}
 		switch (currentMode) {
 			case DisplayMode.DEFAULT:
 				return DisplayMode.TOP_N;
@@ -875,6 +1496,8 @@ export class BacklinkCounterComponent {
 			case DisplayMode.PIE:
 				return DisplayMode.TIME_SERIES;
 			case DisplayMode.TIME_SERIES:
+				return DisplayMode.STREAK;
+			case DisplayMode.STREAK:
 				return DisplayMode.DEFAULT;
 			default:
 				return DisplayMode.DEFAULT;
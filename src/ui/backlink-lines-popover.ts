@@ -0,0 +1,145 @@
+import { DailyNoteBacklinkSummary } from '../types';
+import { ValueAggregator } from '../utils/value-aggregator';
+
+/** Lines listed before collapsing the rest into "+N more" */
+const MAX_VISIBLE_LINES = 3;
+
+/** Space between the popover and the hovered square, in pixels */
+const POPOVER_OFFSET = 8;
+
+/**
+ * Hover popover for tracker day squares
+ * Shows the date, the backlink count and the lines of the daily note that contain the links.
+ * Class names are prefixed per tracker (e.g., "yearly-tracker" → "yearly-tracker-popover").
+ */
+export class BacklinkLinesPopover {
+	private classPrefix: string;
+	private popoverEl: HTMLElement | null = null;
+	private anchorEl: HTMLElement | null = null;
+
+	constructor(classPrefix: string) {
+		this.classPrefix = classPrefix;
+	}
+
+	/**
+	 * Show the popover above a day square
+	 * @param loadLines Loads summary.lines when they are not known yet; the result is cached on the summary
+	 * @param valueLabel Label of an aggregated value (e.g., "total"), shown instead of the backlink count label
+	 */
+	show(
+		anchor: HTMLElement,
+		date: Date,
+		summary: DailyNoteBacklinkSummary,
+		loadLines?: () => Promise<string[]>,
+		valueLabel?: string
+	): void {
+		this.hide();
+		this.anchorEl = anchor;
+
+		const popover = anchor.ownerDocument.body.createEl('div', { cls: `${this.classPrefix}-popover` });
+		this.popoverEl = popover;
+
+		const header = popover.createEl('div', { cls: `${this.classPrefix}-popover-header` });
+		header.createEl('div', {
+			cls: `${this.classPrefix}-popover-date`,
+			text: date.toLocaleDateString('en-GB', {
+				weekday: 'long',
+				year: 'numeric',
+				month: 'long',
+				day: 'numeric'
+			})
+		});
+
+		const content = popover.createEl('div', { cls: `${this.classPrefix}-popover-content` });
+		if (summary.linkCount === 0) {
+			content.createEl('div', { cls: `${this.classPrefix}-popover-empty`, text: 'No backlinks' });
+			this.position();
+			return;
+		}
+
+		const count = content.createEl('div', { cls: `${this.classPrefix}-popover-count` });
+		count.createEl('span', {
+			cls: `${this.classPrefix}-popover-count-number`,
+			text: valueLabel ? ValueAggregator.format(summary.linkCount) : summary.linkCount.toString()
+		});
+		count.createEl('span', {
+			cls: `${this.classPrefix}-popover-count-label`,
+			text: valueLabel ?? (summary.linkCount === 1 ? 'backlink' : 'backlinks')
+		});
+
+		if (summary.lines) {
+			this.renderLines(content, summary.lines);
+		} else if (loadLines) {
+			loadLines()
+				.then(lines => {
+					summary.lines = lines;
+					// Only render if the popover is still showing this square
+					if (this.popoverEl === popover) {
+						this.renderLines(content, lines);
+						this.position();
+					}
+				})
+				.catch(() => {});
+		}
+
+		this.position();
+	}
+
+	/**
+	 * Remove the popover if shown
+	 */
+	hide(): void {
+		if (this.popoverEl) {
+			this.popoverEl.remove();
+		}
+		this.popoverEl = null;
+		this.anchorEl = null;
+	}
+
+	/**
+	 * Render the linking lines, collapsing the rest into "+N more"
+	 */
+	private renderLines(content: HTMLElement, lines: string[]): void {
+		if (lines.length === 0) {
+			return;
+		}
+
+		const linesContainer = content.createEl('div', { cls: `${this.classPrefix}-popover-lines` });
+		linesContainer.createEl('div', { cls: `${this.classPrefix}-popover-lines-header`, text: 'Context' });
+
+		const list = linesContainer.createEl('div', { cls: `${this.classPrefix}-popover-lines-list` });
+		lines.slice(0, MAX_VISIBLE_LINES).forEach(line => {
+			list.createEl('div', {
+				cls: `${this.classPrefix}-popover-line`,
+				text: line,
+				attr: { title: line }
+			});
+		});
+
+		if (lines.length > MAX_VISIBLE_LINES) {
+			linesContainer.createEl('div', {
+				cls: `${this.classPrefix}-popover-more`,
+				text: `+${lines.length - MAX_VISIBLE_LINES} more`
+			});
+		}
+	}
+
+	/**
+	 * Center the popover above the anchor, or below it when there is no room above
+	 */
+	private position(): void {
+		if (!this.popoverEl || !this.anchorEl) {
+			return;
+		}
+
+		const anchorRect = this.anchorEl.getBoundingClientRect();
+		const popoverHeight = this.popoverEl.offsetHeight;
+		const showBelow = anchorRect.top < popoverHeight + POPOVER_OFFSET;
+
+		this.popoverEl.toggleClass(`${this.classPrefix}-popover-below`, showBelow);
+		this.popoverEl.style.left = `${anchorRect.left + anchorRect.width / 2}px`;
+		this.popoverEl.style.top = showBelow
+			? `${anchorRect.bottom + POPOVER_OFFSET}px`
+			: `${anchorRect.top - popoverHeight - POPOVER_OFFSET}px`;
+	}
+}
@@ -0,0 +1,321 @@
+import { App, TFile, setIcon } from 'obsidian';
+import { TimePeriod, CorrelationMetric, CorrelationState, CorrelationMatrixData, CustomDateRange, DateRange } from '../types';
+import { DateRangeCalculator } from '../utils/date-range-calculator';
+import { DailyNoteClassifier } from '../utils/daily-note-classifier';
+import { BacklinkAnalysisService } from '../services/backlink-analysis-service';
+import { SettingsService } from '../services/settings-service';
+import { FolderResolver } from '../utils/folder-resolver';
+import { EXPORT_IGNORE_CLASS } from '../utils/visualization-exporter';
+import { CorrelationRenderer } from './correlation-renderer';
+import { renderExportButton } from './export-button';
+import { logger } from '../utils/logger';
+
+/**
+ * Component that shows how often watched notes are linked from the same daily note
+ * Renders a heatmap matrix (CorrelationRenderer) and, for a clicked cell, the list of shared days
+ */
+export class CorrelationMatrixComponent {
+	private container: HTMLElement;
+	private app: App;
+	private classifier: DailyNoteClassifier;
+	private analysisService: BacklinkAnalysisService;
+	private settingsService: SettingsService;
+	private folderResolver: FolderResolver;
+	private state: CorrelationState;
+	private data: CorrelationMatrixData | null = null;
+	private selectedCell: { row: number; column: number } | null = null;
+	private renderer: CorrelationRenderer;
+	private onPeriodChangeCallback?: (period: TimePeriod) => void;
+	private onMetricChangeCallback?: (metric: CorrelationMetric) => void;
+	private unsubscribeSettings?: () => void;
+
+	constructor(
+		container: HTMLElement,
+		app: App,
+		classifier: DailyNoteClassifier,
+		analysisService: BacklinkAnalysisService,
+		settingsService: SettingsService,
+		onPeriodChangeCallback?: (period: TimePeriod) => void,
+		onMetricChangeCallback?: (metric: CorrelationMetric) => void
+	) {
+		this.container = container;
+		this.app = app;
+		this.classifier = classifier;
+		this.analysisService = analysisService;
+		this.settingsService = settingsService;
+		this.folderResolver = new FolderResolver(app);
+		this.onPeriodChangeCallback = onPeriodChangeCallback;
+		this.onMetricChangeCallback = onMetricChangeCallback;
+		this.state = {
+			selectedPeriod: TimePeriod.PAST_90_DAYS,
+			metric: CorrelationMetric.LIFT
+		};
+		this.renderer = new CorrelationRenderer(this.container);
+
+		// Re-render when relevant settings change (firstDayOfWeek, maxWatchedNotes)
+		this.unsubscribeSettings = this.settingsService.subscribe(() => {
+			this.updateMatrix();
+			this.render();
+		});
+	}
+
+	/**
+	 * Cleanup method - unsubscribe from settings
+	 */
+	cleanup(): void {
+		if (this.unsubscribeSettings) {
+			this.unsubscribeSettings();
+		}
+	}
+
+	/**
+	 * Update the watched notes and folders, then recompute the matrix
+	 */
+	updateWatchedItems(config: { notePath?: string[]; folderPath?: string[] }): void {
+		this.state.notePath = config.notePath;
+		this.state.folderPath = config.folderPath;
+		this.updateMatrix();
+		this.render();
+	}
+
+	/**
+	 * Set the selected period
+	 */
+	setSelectedPeriod(period: TimePeriod): void {
+		this.state.selectedPeriod = period;
+		this.updateMatrix();
+		this.render();
+	}
+
+	/**
+	 * Set the absolute range used by the custom period
+	 */
+	setCustomRange(customRange: CustomDateRange | undefined): void {
+		this.state.customRange = customRange;
+		if (this.state.selectedPeriod === TimePeriod.CUSTOM) {
+			this.updateMatrix();
+			this.render();
+		}
+	}
+
+	/**
+	 * Set the association metric shown in the cells
+	 */
+	setMetric(metric: CorrelationMetric): void {
+		this.state.metric = metric;
+		this.render();
+	}
+
+	/**
+	 * Get the date range of the selected period
+	 */
+	private getSelectedDateRange(): DateRange {
+		const firstDayOfWeek = this.settingsService.getSettings().firstDayOfWeek;
+		return DateRangeCalculator.calculateDateRange(this.state.selectedPeriod, firstDayOfWeek, this.state.customRange);
+	}
+
+	/**
+	 * Get the label of the selected period
+	 */
+	private getSelectedPeriodLabel(): string {
+		if (this.state.selectedPeriod === TimePeriod.CUSTOM && this.state.customRange) {
+			return DateRangeCalculator.getCustomRangeLabel(this.state.customRange);
+		}
+		return DateRangeCalculator.getPeriodLabel(this.state.selectedPeriod);
+	}
+
+	/**
+	 * Resolve watched notes and folders to files
+	 * Capped at maxWatchedNotes, keeping the notes with the most backlinks in the period
+	 */
+	private getWatchedFiles(dateRange: DateRange): TFile[] {
+		const files = new Map<string, TFile>();
+
+		for (const notePath of this.state.notePath || []) {
+			const file = this.app.vault.getAbstractFileByPath(notePath);
+			if (file instanceof TFile) {
+				files.set(file.path, file);
+			}
+		}
+		for (const folderPath of this.state.folderPath || []) {
+			for (const file of this.folderResolver.getNotesInFolder(folderPath)) {
+				files.set(file.path, file);
+			}
+		}
+
+		const maxWatchedNotes = this.settingsService.getSettings().maxWatchedNotes;
+		if (files.size <= maxWatchedNotes) {
+			return Array.from(files.values());
+		}
+
+		return Array.from(files.values())
+			.map(file => ({ file, count: this.analysisService.countBacklinksInRange(file, dateRange) }))
+			.sort((a, b) => b.count - a.count)
+			.slice(0, maxWatchedNotes)
+			.map(entry => entry.file);
+	}
+
+	/**
+	 * Recompute the matrix for the current state
+	 */
+	private updateMatrix(): void {
+		const dateRange = this.getSelectedDateRange();
+		const files = this.getWatchedFiles(dateRange);
+		this.data = this.analysisService.getCorrelationMatrix(files, dateRange);
+		this.selectedCell = null;
+		logger.log('[CorrelationMatrix] Computed matrix for', files.length, 'notes over', this.data.totalDays, 'daily notes');
+	}
+
+	/**
+	 * Render the component
+	 */
+	render(): void {
+		this.container.empty();
+		this.container.addClass('correlation-matrix-component');
+
+		this.renderControls();
+
+		const matrixContainer = this.container.createEl('div', { cls: 'correlation-matrix' });
+		this.renderer = new CorrelationRenderer(matrixContainer);
+		if (this.data) {
+			this.renderer.render(
+				this.data,
+				this.state.metric,
+				this.getSelectedPeriodLabel(),
+				(row, column) => this.onCellClick(row, column),
+				this.selectedCell
+			);
+		}
+
+		this.renderSharedDays();
+	}
+
+	/**
+	 * Render the period selector and metric toggle
+	 */
+	private renderControls(): void {
+		const controlsContainer = this.container.createEl('div', { cls: `correlation-controls ${EXPORT_IGNORE_CLASS}` });
+
+		const select = controlsContainer.createEl('select', { cls: 'correlation-period-dropdown' });
+		// Custom ranges are set with startDate/endDate in the block, only list it when in use
+		const periods = DateRangeCalculator.getAllPeriods().filter(period =>
+			period.value !== TimePeriod.CUSTOM || this.state.selectedPeriod === TimePeriod.CUSTOM
+		);
+		periods.forEach(period => {
+			const option = select.createEl('option', {
+				text: period.label,
+				value: period.value
+			});
+			if (period.value === this.state.selectedPeriod) {
+				option.selected = true;
+			}
+		});
+		select.addEventListener('change', () => {
+			this.onPeriodChange(select.value as TimePeriod);
+		});
+
+		const nextMetric = this.state.metric === CorrelationMetric.LIFT ? CorrelationMetric.PHI : CorrelationMetric.LIFT;
+		const metricButton = controlsContainer.createEl('button', {
+			cls: 'correlation-metric-toggle',
+			attr: { 'aria-label': `Show ${nextMetric === CorrelationMetric.PHI ? 'phi coefficient' : 'lift'}` }
+		});
+		setIcon(metricButton, 'sigma');
+		metricButton.createEl('span', { text: this.state.metric === CorrelationMetric.PHI ? 'Phi' : 'Lift' });
+		metricButton.addEventListener('click', () => {
+			this.onMetricChange(nextMetric);
+		});
+
+		// Export the matrix (and the shared days, when shown) as an image
+		renderExportButton(this.app, controlsContainer, () => this.container, 'Correlation matrix');
+	}
+
+	/**
+	 * Render the days shared by the notes of the selected cell
+	 */
+	private renderSharedDays(): void {
+		if (!this.data || !this.selectedCell) {
+			return;
+		}
+
+		const { row, column } = this.selectedCell;
+		const cell = this.data.cells[row][column];
+		const rowTitle = this.data.notes[row].noteTitle;
+		const columnTitle = this.data.notes[column].noteTitle;
+
+		const detailsContainer = this.container.createEl('div', { cls: 'correlation-details' });
+		const header = detailsContainer.createEl('div', { cls: 'correlation-details-header' });
+		header.createEl('span', {
+			cls: 'correlation-details-title',
+			text: row === column
+				? `${rowTitle}: ${cell.sharedDays.length} days`
+				: `${rowTitle} + ${columnTitle}: ${cell.sharedDays.length} shared days`
+		});
+		const closeButton = header.createEl('button', {
+			cls: 'correlation-details-close',
+			attr: { 'aria-label': 'Close shared days' }
+		});
+		setIcon(closeButton, 'x');
+		closeButton.addEventListener('click', () => {
+			this.selectedCell = null;
+			this.render();
+		});
+
+		const list = detailsContainer.createEl('ul', { cls: 'correlation-details-list' });
+		// Most recent first
+		for (const day of [...cell.sharedDays].reverse()) {
+			const item = list.createEl('li', { cls: 'correlation-details-day' });
+			const link = item.createEl('a', { text: day, href: '#' });
+			link.addEventListener('click', (event) => {
+				event.preventDefault();
+				this.openDailyNote(day).catch(() => {});
+			});
+		}
+	}
+
+	/**
+	 * Handle period selection change
+	 */
+	private onPeriodChange(newPeriod: TimePeriod): void {
+		this.state.selectedPeriod = newPeriod;
+		this.updateMatrix();
+		this.render();
+
+		// Notify callback if provided
+		if (this.onPeriodChangeCallback) {
+			this.onPeriodChangeCallback(newPeriod);
+		}
+	}
+
+	/**
+	 * Handle metric toggle
+	 */
+	private onMetricChange(newMetric: CorrelationMetric): void {
+		this.state.metric = newMetric;
+		this.render();
+
+		// Notify callback if provided
+		if (this.onMetricChangeCallback) {
+			this.onMetricChangeCallback(newMetric);
+		}
+	}
+
+	/**
+	 * Select a cell to list its shared days, or unselect it when clicked again
+	 */
+	private onCellClick(row: number, column: number): void {
+		const isSameCell = this.selectedCell && this.selectedCell.row === row && this.selectedCell.column === column;
+		this.selectedCell = isSameCell ? null : { row, column };
+		this.render();
+	}
+
+	/**
+	 * Open the daily note for a YYYY-MM-DD key
+	 */
+	private async openDailyNote(dateKey: string): Promise<void> {
+		const date = DateRangeCalculator.parseDateKey(dateKey);
+		const file = date ? this.classifier.findDailyNote(date) : null;
+		if (file) {
+			await this.app.workspace.getLeaf(false).openFile(file);
+		}
+	}
+}
@@ -0,0 +1,166 @@
+import { CorrelationMatrixData, CorrelationMetric } from '../types';
+
+/**
+ * CorrelationRenderer - Renders a co-occurrence heatmap matrix for watched notes
+ *
+ * Each cell shows how many daily notes link to both notes of the pair, shaded by that count,
+ * with the selected association metric (lift or phi) underneath. The diagonal shows how many
+ * daily notes link to each note on its own.
+ */
+export class CorrelationRenderer {
+	private container: HTMLElement;
+
+	constructor(container: HTMLElement) {
+		this.container = container;
+	}
+
+	/**
+	 * Render the correlation matrix
+	 * @param data Matrix computed by BacklinkAnalysisService.getCorrelationMatrix
+	 * @param metric Association metric shown in each cell
+	 * @param periodLabel Label describing the time period (e.g., "past 30 days")
+	 * @param onCellClick Called with the row and column of a clicked cell
+	 * @param selectedCell Cell to highlight, if any
+	 */
+	render(
+		data: CorrelationMatrixData,
+		metric: CorrelationMetric,
+		periodLabel: string,
+		onCellClick?: (row: number, column: number) => void,
+		selectedCell?: { row: number; column: number } | null
+	): void {
+		this.container.empty();
+
+		if (data.notes.length < 2) {
+			this.renderEmptyState();
+			return;
+		}
+
+		const container = this.container.createEl('div', { cls: 'correlation-container' });
+
+		container.createEl('h4', {
+			text: `Linked the same day (${periodLabel})`,
+			cls: 'correlation-title'
+		});
+
+		// Shade cells relative to the most frequent pair (diagonal excluded)
+		let maxShared = 0;
+		data.cells.forEach((row, rowIndex) => {
+			row.forEach((cell, columnIndex) => {
+				if (rowIndex !== columnIndex) {
+					maxShared = Math.max(maxShared, cell.sharedDays.length);
+				}
+			});
+		});
+
+		const grid = container.createEl('div', { cls: 'correlation-grid' });
+		grid.style.gridTemplateColumns = `minmax(80px, auto) repeat(${data.notes.length}, minmax(48px, 1fr))`;
+
+		// Header row: empty corner, then column titles
+		grid.createEl('div', { cls: 'correlation-corner' });
+		data.notes.forEach(note => {
+			grid.createEl('div', {
+				cls: 'correlation-column-header',
+				text: this.truncateTitle(note.noteTitle, 12),
+				attr: { title: note.noteTitle }
+			});
+		});
+
+		data.notes.forEach((rowNote, rowIndex) => {
+			grid.createEl('div', {
+				cls: 'correlation-row-header',
+				text: this.truncateTitle(rowNote.noteTitle, 20),
+				attr: { title: rowNote.noteTitle }
+			});
+
+			data.cells[rowIndex].forEach((cell, columnIndex) => {
+				const isDiagonal = rowIndex === columnIndex;
+				const shared = cell.sharedDays.length;
+				const intensity = isDiagonal ? 0 : this.calculateIntensity(shared, maxShared);
+				const isSelected = !!selectedCell && selectedCell.row === rowIndex && selectedCell.column === columnIndex;
+
+				const cellEl = grid.createEl('div', {
+					cls: `correlation-cell correlation-cell-intensity-${intensity}`
+						+ (isDiagonal ? ' correlation-cell-diagonal' : '')
+						+ (isSelected ? ' correlation-cell-selected' : '')
+						+ (onCellClick && shared > 0 ? ' correlation-cell-clickable' : ''),
+					attr: { title: this.getCellTooltip(data, rowIndex, columnIndex) }
+				});
+
+				cellEl.createEl('div', { cls: 'correlation-cell-count', text: shared.toString() });
+				if (!isDiagonal) {
+					cellEl.createEl('div', {
+						cls: 'correlation-cell-metric',
+						text: this.formatMetric(metric === CorrelationMetric.PHI ? cell.phi : cell.lift)
+					});
+				}
+
+				if (onCellClick && shared > 0) {
+					cellEl.addEventListener('click', () => onCellClick(rowIndex, columnIndex));
+				}
+			});
+		});
+
+		container.createEl('div', {
+			cls: 'correlation-footer',
+			text: `${data.totalDays} daily ${data.totalDays === 1 ? 'note' : 'notes'} in period · ${metric === CorrelationMetric.PHI ? 'phi coefficient' : 'lift'} below each count`
+		});
+	}
+
+	/**
+	 * Calculate intensity level (0-4) relative to the most frequent pair
+	 */
+	private calculateIntensity(shared: number, maxShared: number): number {
+		if (shared === 0 || maxShared === 0) return 0;
+		return Math.max(1, Math.ceil((shared / maxShared) * 4));
+	}
+
+	/**
+	 * Format a lift or phi value, or a dash when undefined
+	 */
+	private formatMetric(value: number | null): string {
+		return value === null ? '–' : value.toFixed(2);
+	}
+
+	/**
+	 * Build the hover text of a cell
+	 */
+	private getCellTooltip(data: CorrelationMatrixData, row: number, column: number): string {
+		const rowNote = data.notes[row];
+		const cell = data.cells[row][column];
+		if (row === column) {
+			return `${rowNote.noteTitle}: linked on ${rowNote.days.length} of ${data.totalDays} days`;
+		}
+
+		const columnNote = data.notes[column];
+		return `${rowNote.noteTitle} + ${columnNote.noteTitle}: linked together on ${cell.sharedDays.length} days\n`
+			+ `Lift: ${this.formatMetric(cell.lift)} · phi: ${this.formatMetric(cell.phi)}`;
+	}
+
+	/**
+	 * Render empty state when fewer than two notes are available
+	 */
+	private renderEmptyState(): void {
+		this.container.createEl('div', {
+			text: 'Add at least two notes to compare',
+			cls: 'correlation-empty-state'
+		});
+	}
+
+	/**
+	 * Truncate long note titles with ellipsis
+	 */
+	private truncateTitle(title: string, maxLength: number): string {
+		if (title.length <= maxLength) {
+			return title;
+		}
+		return title.substring(0, maxLength - 3) + '...';
+	}
+
+	/**
+	 * Clean up resources
+	 */
+	destroy(): void {
+		// No resources to clean up
+	}
+}
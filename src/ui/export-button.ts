@@ -0,0 +1,104 @@
+import { App, Menu, Notice, setIcon } from 'obsidian';
+import { DataExportFormat, DataTable, ExportFormat } from '../types';
+import { DataExporter } from '../utils/data-exporter';
+import { VisualizationExporter } from '../utils/visualization-exporter';
+import { logger } from '../utils/logger';
+
+/**
+ * Export button - opens a menu to save a visualization as SVG or PNG in the attachments folder
+ * Shared by the trackers, the counter and the correlation matrix
+ * @param getTarget Element to export, read on click so the latest render is used
+ * @param baseName File name without extension (e.g., the watched note title)
+ * @param getData Numbers behind the visualization, adds the CSV/JSON export and copy actions
+ */
+export function renderExportButton(
+	app: App,
+	container: HTMLElement,
+	getTarget: () => HTMLElement,
+	baseName: string,
+	getData?: () => DataTable
+): HTMLElement {
+	const button = container.createEl('button', {
+		cls: 'note-insight-export-button',
+		attr: { 'aria-label': 'Export' }
+	});
+	setIcon(button, 'download');
+
+	button.addEventListener('click', (event: MouseEvent) => {
+		const menu = new Menu();
+		for (const format of [ExportFormat.SVG, ExportFormat.PNG]) {
+			menu.addItem(item => item
+				.setTitle(`Export as ${format.toUpperCase()}`)
+				.setIcon(format === ExportFormat.SVG ? 'file-code' : 'image')
+				.onClick(() => {
+					void exportVisualization(app, getTarget(), format, baseName);
+				}));
+		}
+		if (getData) {
+			menu.addSeparator();
+			for (const format of [DataExportFormat.CSV, DataExportFormat.JSON]) {
+				menu.addItem(item => item
+					.setTitle(`Export data as ${format.toUpperCase()}`)
+					.setIcon(format === DataExportFormat.CSV ? 'sheet' : 'file-json')
+					.onClick(() => {
+						void exportData(app, getData(), format, baseName);
+					}));
+			}
+			menu.addItem(item => item
+				.setTitle('Copy data as CSV')
+				.setIcon('copy')
+				.onClick(() => {
+					void copyData(getData(), button);
+				}));
+		}
+		menu.showAtMouseEvent(event);
+	});
+
+	return button;
+}
+
+/**
+ * Export and report the created file (or the failure) in a notice
+ */
+async function exportVisualization(app: App, target: HTMLElement, format: ExportFormat, baseName: string): Promise<void> {
+	try {
+		// Attachments follow the active note (the note or canvas holding the code block)
+		const sourcePath = app.workspace.getActiveFile()?.path ?? '';
+		const file = await new VisualizationExporter(app).export(target, format, baseName, sourcePath);
+		new Notice(`Exported to ${file.path}`);
+	} catch (error) {
+		logger.error('[ExportButton] Export failed:', error);
+		new Notice('Export failed, see the console for details');
+	}
+}
+
+/**
+ * Write the data file and report it in a notice
+ */
+async function exportData(app: App, table: DataTable, format: DataExportFormat, baseName: string): Promise<void> {
+	try {
+		const sourcePath = app.workspace.getActiveFile()?.path ?? '';
+		const file = await new DataExporter(app).export(table, format, baseName, sourcePath);
+		new Notice(`Exported to ${file.path}`);
+	} catch (error) {
+		logger.error('[ExportButton] Data export failed:', error);
+		new Notice('Export failed, see the console for details');
+	}
+}
+
+/**
+ * Copy the data as CSV, ready to paste in a spreadsheet
+ */
+async function copyData(table: DataTable, element: HTMLElement): Promise<void> {
+	try {
+		const clipboard = element.ownerDocument.defaultView?.navigator.clipboard;
+		if (!clipboard) {
+			throw new Error('Clipboard is not available');
+		}
+		await clipboard.writeText(DataExporter.toCsv(table));
+		new Notice(`Copied ${table.rows.length} rows`);
+	} catch (error) {
+		logger.error('[ExportButton] Copy failed:', error);
+		new Notice('Copy failed, see the console for details');
+	}
+}
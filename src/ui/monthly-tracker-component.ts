@@ -1,6 +1,13 @@
-import { App, TFile } from 'obsidian';
-import { DailyNoteYearlyData, DailyNoteBacklinkSummary, MonthNavigationState, MonthBounds } from '../types';
+import { App, TFile, setIcon } from 'obsidian';
+import { DailyNoteYearlyData, DailyNoteBacklinkSummary, DataTable, ValueAggregation, MonthNavigationState, MonthBounds, TrackerSeries, WatchMode } from '../types';
 import { DailyNoteClassifier } from '../utils/daily-note-classifier';
+import { DataExporter } from '../utils/data-exporter';
+import { ValueAggregator } from '../utils/value-aggregator';
+import { EXPORT_IGNORE_CLASS } from '../utils/visualization-exporter';
+import { BacklinkLinesPopover } from './backlink-lines-popover';
+import { renderExportButton } from './export-button';
+import { NoteSelector } from './note-selector';
+import { FolderSelector } from './folder-selector';
 
 /**
  * Component that renders a monthly tracker showing daily note backlinks for a selected month
@@ -15,12 +22,42 @@ export class MonthlyTrackerComponent {
 	private monthBounds: MonthBounds;
 	private onMonthChangeCallback?: (month: number, year: number) => void;
 	private watchedNotePath: string | null = null;
-
-	constructor(app: App, container: HTMLElement, onMonthChange?: (month: number, year: number) => void) {
+	private sourceTitle: string | null = null; // Title of a tag or property signal source
+	private aggregation: ValueAggregation = ValueAggregation.COUNT; // Weighted counting: days hold aggregated values
+	private series: TrackerSeries[] = []; // Watched notes, when the tracker watches several notes or a folder
+	private watchMode: WatchMode = WatchMode.NOTE;
+	private watchedNotePaths: string[] = [];
+	private watchedFolderPath: string | null = null;
+	// Watched items controls, only shown when callbacks are provided (code block context)
+	private onNoteAddedCallback?: (notePath: string) => void;
+	private onNoteRemovedCallback?: (notePath: string) => void;
+	private onModeChangeCallback?: (mode: WatchMode) => void;
+	private onFolderAddedCallback?: (folderPath: string) => void;
+	private onFolderRemovedCallback?: () => void;
+	private classifier: DailyNoteClassifier;
+	private popover = new BacklinkLinesPopover('monthly-tracker');
+
+	constructor(
+		app: App,
+		container: HTMLElement,
+		onMonthChange?: (month: number, year: number) => void,
+		classifier?: DailyNoteClassifier,
+		onNoteAdded?: (notePath: string) => void,
+		onNoteRemoved?: (notePath: string) => void,
+		onModeChange?: (mode: WatchMode) => void,
+		onFolderAdded?: (folderPath: string) => void,
+		onFolderRemoved?: () => void
+	) {
 		this.app = app;
 		this.container = container;
+		this.classifier = classifier ?? new DailyNoteClassifier(app);
 		this.yearlyData = {};
 		this.onMonthChangeCallback = onMonthChange;
+		this.onNoteAddedCallback = onNoteAdded;
+		this.onNoteRemovedCallback = onNoteRemoved;
+		this.onModeChangeCallback = onModeChange;
+		this.onFolderAddedCallback = onFolderAdded;
+		this.onFolderRemovedCallback = onFolderRemoved;
 		
 		// Initialize with current month/year
 		const currentDate = new Date();
@@ -55,6 +92,41 @@ export class MonthlyTrackerComponent {
 		this.render();
 	}
 
+	/**
+	 * Update the tracker with several watched notes
+	 * Days are colored by the merged intensity and show a stacked breakdown of the linked notes
+	 */
+	updateSeries(series: TrackerSeries[]): void {
+		this.series = series;
+		this.watchedNotePath = null;
+		this.yearlyData = ValueAggregator.mergeDays(series.map(item => item.data), this.aggregation);
+		this.render();
+	}
+
+	/**
+	 * Set the watched notes or folder shown in the watch controls
+	 */
+	setWatchedItems(watchMode: WatchMode, notePaths: string[], folderPath: string | null): void {
+		this.watchMode = watchMode;
+		this.watchedNotePaths = notePaths;
+		this.watchedFolderPath = folderPath;
+	}
+
+	/**
+	 * Set the title shown when tracking a signal source other than links to a note
+	 */
+	setSourceTitle(title: string): void {
+		this.sourceTitle = title;
+	}
+
+	/**
+	 * Set how the values logged on each day were aggregated (count by default)
+	 * Other aggregations scale the colors to the largest value shown
+	 */
+	setAggregation(aggregation: ValueAggregation): void {
+		this.aggregation = aggregation;
+	}
+
 	/**
 	 * Set the watched note path
 	 */
@@ -169,6 +241,7 @@ export class MonthlyTrackerComponent {
 	 * Render the monthly tracker grid
 	 */
 	private render(): void {
+		this.popover.hide();
 		this.container.empty();
 
 		// Create tracker container
@@ -177,10 +250,19 @@ export class MonthlyTrackerComponent {
 		// Create watched note title header if available (FEA003 Requirement 5)
 		if (this.watchedNotePath) {
 			this.createNoteHeader(trackerContainer);
+		} else if (this.sourceTitle) {
+			trackerContainer.createEl('div', { cls: 'monthly-tracker-note-header' })
+				.createEl('h4', { text: this.sourceTitle, cls: 'monthly-tracker-note-title monthly-tracker-source-title' });
+		}
+
+		// Watch mode toggle, add button and watched items (code block context)
+		if (this.onModeChangeCallback) {
+			this.createWatchControls(trackerContainer);
 		}
 
-		// Create header with month navigation
-		this.createHeader(trackerContainer);
+		// Create header with month navigation and the export action
+		const header = this.createHeader(trackerContainer);
+		renderExportButton(this.app, header, () => trackerContainer, `${this.getExportTitle()} monthly tracker`, () => this.getExportData());
 
 		// Create grid container
 		const gridContainer = trackerContainer.createEl('div', { cls: 'monthly-tracker-grid' });
@@ -219,25 +301,171 @@ export class MonthlyTrackerComponent {
 		// Make title clickable
 		noteTitle.addEventListener('click', () => {
 			if (this.watchedNotePath) {
-				const file = this.app.vault.getAbstractFileByPath(this.watchedNotePath);
-				if (file instanceof TFile) {
-					this.app.workspace.getLeaf(false).openFile(file).catch(() => {});
+				this.openNote(this.watchedNotePath);
+			}
+		});
+
+		// Remove button (only when callback provided)
+		if (this.onNoteRemovedCallback && this.watchedNotePath) {
+			const notePath = this.watchedNotePath;
+			const removeButton = noteHeader.createEl('button', {
+				cls: 'monthly-tracker-watched-remove',
+				attr: { 'aria-label': `Remove ${noteName}` }
+			});
+			setIcon(removeButton, 'x');
+			removeButton.addEventListener('click', (e) => {
+				e.stopPropagation();
+				this.onNoteRemovedCallback?.(notePath);
+			});
+		}
+	}
+
+	/**
+	 * Create the watch controls: folder/note toggle, add button, then the watched folder or notes
+	 * Same behavior as the counter (FEA009): the mode can only change while nothing is watched
+	 */
+	private createWatchControls(container: HTMLElement): void {
+		const controls = container.createEl('div', { cls: `monthly-tracker-watch-controls ${EXPORT_IGNORE_CLASS}` });
+		const isEmpty = this.watchedNotePaths.length === 0 && !this.watchedFolderPath;
+		const isFolderMode = this.watchMode === WatchMode.FOLDER;
+
+		// Folder/Note toggle
+		const toggleGroup = controls.createEl('div', { cls: 'watch-mode-toggle-container' })
+			.createEl('div', { cls: `watch-mode-toggle ${isEmpty ? 'enabled' : 'disabled'}` });
+		for (const mode of [WatchMode.FOLDER, WatchMode.NOTE]) {
+			const label = mode === WatchMode.FOLDER ? 'Folder' : 'Note';
+			const option = toggleGroup.createEl('button', {
+				cls: `watch-mode-option ${this.watchMode === mode ? 'active' : ''}`,
+				text: label,
+				attr: {
+					'aria-label': `Watch ${label.toLowerCase()} mode`,
+					'disabled': isEmpty ? null : 'true'
 				}
+			});
+			if (isEmpty && this.watchMode !== mode) {
+				option.addEventListener('click', () => this.onModeChangeCallback?.(mode));
+			}
+		}
+
+		// Add button - a single folder can be watched
+		const canAdd = isFolderMode ? !this.watchedFolderPath && !!this.onFolderAddedCallback : !!this.onNoteAddedCallback;
+		const addButton = controls.createEl('button', {
+			cls: `monthly-tracker-add-button ${canAdd ? '' : 'disabled'}`,
+			attr: {
+				'aria-label': canAdd
+					? (isFolderMode ? 'Add folder to watch' : 'Add note to watch')
+					: 'A folder is already selected'
 			}
 		});
+		setIcon(addButton, isFolderMode ? 'folder-plus' : 'plus');
+		if (canAdd) {
+			addButton.addEventListener('click', () => this.showSelector(isFolderMode));
+		} else {
+			addButton.disabled = true;
+		}
+
+		if (isEmpty) {
+			container.createEl('div', {
+				cls: `monthly-tracker-empty-hint ${EXPORT_IGNORE_CLASS}`,
+				text: 'Add a folder or note to start showing stats'
+			});
+			return;
+		}
+
+		// Watched folder with remove button
+		if (isFolderMode && this.watchedFolderPath) {
+			const folderPath = this.watchedFolderPath;
+			const folderItem = container.createEl('div', { cls: 'monthly-tracker-watched-folder' });
+			const folderIcon = folderItem.createEl('span', { cls: 'monthly-tracker-watched-folder-icon' });
+			setIcon(folderIcon, 'folder');
+			folderItem.createEl('span', { cls: 'monthly-tracker-watched-folder-name', text: folderPath });
+			if (this.onFolderRemovedCallback) {
+				const removeButton = folderItem.createEl('button', {
+					cls: 'monthly-tracker-watched-remove',
+					attr: { 'aria-label': `Remove folder ${folderPath}` }
+				});
+				setIcon(removeButton, 'x');
+				removeButton.addEventListener('click', (e) => {
+					e.stopPropagation();
+					this.onFolderRemovedCallback?.();
+				});
+			}
+		}
+
+		// Notes with their colors; a single note is shown in the title header instead
+		if (this.series.length > 1 || isFolderMode) {
+			this.createSeriesLegend(container, !isFolderMode);
+		}
+	}
+
+	/**
+	 * Create the list of watched notes and their colors
+	 * In folder mode only the notes linked this month are listed, and they cannot be removed one by one
+	 */
+	private createSeriesLegend(container: HTMLElement, removable: boolean): void {
+		const monthPrefix = `${this.navigationState.currentYear}-${String(this.navigationState.currentMonth + 1).padStart(2, '0')}-`;
+		const listed = removable
+			? this.series
+			: this.series.filter(item => Object.keys(item.data).some(date => date.startsWith(monthPrefix) && item.data[date].linkCount > 0));
+		if (listed.length === 0) {
+			return;
+		}
+
+		const legend = container.createEl('div', { cls: 'monthly-tracker-watched-notes' });
+		for (const item of listed) {
+			const noteItem = legend.createEl('div', { cls: 'monthly-tracker-watched-note' });
+			const color = noteItem.createEl('span', { cls: 'monthly-tracker-watched-note-color' });
+			color.style.backgroundColor = item.color;
+
+			const title = noteItem.createEl('span', { cls: 'monthly-tracker-watched-note-title', text: item.noteTitle });
+			title.addEventListener('click', () => this.openNote(item.notePath));
+
+			if (removable && this.onNoteRemovedCallback) {
+				const removeButton = noteItem.createEl('button', {
+					cls: 'monthly-tracker-watched-remove',
+					attr: { 'aria-label': `Remove ${item.noteTitle}` }
+				});
+				setIcon(removeButton, 'x');
+				removeButton.addEventListener('click', (e) => {
+					e.stopPropagation();
+					this.onNoteRemovedCallback?.(item.notePath);
+				});
+			}
+		}
+	}
+
+	/**
+	 * Open the note or folder selector modal
+	 */
+	private showSelector(isFolderMode: boolean): void {
+		if (isFolderMode) {
+			new FolderSelector(this.app, (folder) => this.onFolderAddedCallback?.(folder.path)).open();
+		} else {
+			new NoteSelector(this.app, (file) => this.onNoteAddedCallback?.(file.path)).open();
+		}
+	}
+
+	/**
+	 * Open a note in the current leaf
+	 */
+	private openNote(notePath: string): void {
+		const file = this.app.vault.getAbstractFileByPath(notePath);
+		if (file instanceof TFile) {
+			this.app.workspace.getLeaf(false).openFile(file).catch(() => {});
+		}
 	}
 
 	/**
 	 * Create header with title and month navigation controls
 	 */
-	private createHeader(container: HTMLElement): void {
+	private createHeader(container: HTMLElement): HTMLElement {
 		const header = container.createEl('div', { cls: 'monthly-tracker-header' });
 		
 		// Title with current month/year
 		const selectedDate = new Date(this.navigationState.currentYear, this.navigationState.currentMonth);
 		const monthName = selectedDate.toLocaleDateString('en-GB', { month: 'long', year: 'numeric' });
 		header.createEl('div', {
-			text: `${monthName} backlinks`,
+			text: `${monthName} ${this.aggregation !== ValueAggregation.COUNT ? ValueAggregator.getLabel(this.aggregation) : 'backlinks'}`,
 			cls: 'monthly-tracker-title'
 		});
 
@@ -285,6 +513,29 @@ export class MonthlyTrackerComponent {
 		nextButton.addEventListener('click', () => {
 			this.goToNextMonth();
 		});
+
+		return header;
+	}
+
+	/**
+	 * Title used to name exported images: the watched note, the signal source or the group
+	 */
+	private getExportTitle(): string {
+		if (this.watchedNotePath) {
+			return this.watchedNotePath.split('/').pop()?.replace('.md', '') ?? 'Note';
+		}
+		return this.sourceTitle ?? 'Daily notes';
+	}
+
+	/**
+	 * Numbers shown by the tracker: one row per day of the month, one column per watched note
+	 */
+	private getExportData(): DataTable {
+		const days = this.generateMonthDays(this.navigationState.currentMonth, this.navigationState.currentYear);
+		const series = this.series.length > 1
+			? this.series.map(item => ({ title: item.noteTitle, data: item.data }))
+			: [{ title: this.getExportTitle(), data: this.yearlyData }];
+		return DataExporter.buildDailyTable(days.map(day => this.formatDateString(day)), series);
 	}
 
 	/**
@@ -346,11 +597,13 @@ export class MonthlyTrackerComponent {
 			squaresContainer.createEl('div', { cls: 'monthly-tracker-square monthly-tracker-square-empty' });
 		}
 
+		const scaleMax = this.getScaleMax();
+
 		// Create squares for each day in the month
 		days.forEach(date => {
 			const dateString = this.formatDateString(date);
 			const summary: DailyNoteBacklinkSummary = this.yearlyData[dateString] || { linkCount: 0 };
-			const intensity = this.calculateIntensity(summary.linkCount);
+			const intensity = this.calculateIntensity(summary.linkCount, scaleMax);
 
 			const square = squaresContainer.createEl('div', { 
 				cls: `monthly-tracker-square monthly-tracker-square-intensity-${intensity}` 
@@ -362,6 +615,11 @@ export class MonthlyTrackerComponent {
 				cls: 'monthly-tracker-square-day'
 			});
 
+			// Stacked breakdown of the linked notes
+			if (summary.linkCount > 0 && this.series.length > 1) {
+				this.createStack(square, dateString);
+			}
+
 			// Add tooltip with summary
 			this.addTooltip(square, date, summary);
 		});
@@ -374,6 +632,22 @@ export class MonthlyTrackerComponent {
 		}
 	}
 
+	/**
+	 * Add a bar at the bottom of a day square, split by each note's count in the note colors
+	 */
+	private createStack(square: HTMLElement, dateString: string): void {
+		const stack = square.createEl('div', { cls: 'monthly-tracker-square-stack' });
+		for (const item of this.series) {
+			const value = item.data[dateString]?.linkCount ?? 0;
+			if (value <= 0) {
+				continue;
+			}
+			const segment = stack.createEl('div', { cls: 'monthly-tracker-square-stack-segment' });
+			segment.style.backgroundColor = item.color;
+			segment.style.flexGrow = value.toString();
+		}
+	}
+
 	/**
 	 * Create intensity legend
 	 */
@@ -411,14 +685,25 @@ export class MonthlyTrackerComponent {
 	/**
 	 * Calculate intensity level (0-4) based on link count
 	 */
-	private calculateIntensity(linkCount: number): number {
-		if (linkCount === 0) return 0;
+	private calculateIntensity(linkCount: number, scaleMax: number): number {
+		if (linkCount <= 0) return 0;
+		if (this.aggregation !== ValueAggregation.COUNT) {
+			// Values have any range (km, hours...): split the range up to the largest value in 4 steps
+			return Math.min(4, Math.max(1, Math.ceil((linkCount / scaleMax) * 4)));
+		}
 		if (linkCount === 1) return 1;
 		if (linkCount === 2) return 2;
 		if (linkCount <= 4) return 3;
 		return 4; // 5+ links get max intensity
 	}
 
+	/**
+	 * Largest value shown, used to scale the colors of aggregated values
+	 */
+	private getScaleMax(): number {
+		return Object.values(this.yearlyData).reduce((max, summary) => Math.max(max, summary.linkCount), 0);
+	}
+
 	/**
 	 * Add hover interactions to a day square
 	 */
@@ -431,13 +716,33 @@ export class MonthlyTrackerComponent {
 		});
 
 		let ariaText: string;
+		const valueLabel = this.aggregation !== ValueAggregation.COUNT ? ValueAggregator.getLabel(this.aggregation) : undefined;
 		if (summary.linkCount === 0) {
 			ariaText = `No backlinks on ${dateString}`;
+		} else if (valueLabel) {
+			ariaText = `${ValueAggregator.format(summary.linkCount)} ${valueLabel} on ${dateString}`;
 		} else {
 			ariaText = `${summary.linkCount} backlink${summary.linkCount > 1 ? 's' : ''} on ${dateString}`;
 		}
+		// Per-note breakdown of multi-note trackers (e.g., "Yoga: 2, Running: 1")
+		const dayKey = this.formatDateString(date);
+		const breakdown = this.series
+			.filter(item => (item.data[dayKey]?.linkCount ?? 0) > 0)
+			.map(item => `${item.noteTitle}: ${ValueAggregator.format(item.data[dayKey].linkCount)}`);
+		if (summary.linkCount > 0 && breakdown.length > 0) {
+			ariaText += ` (${breakdown.join(', ')})`;
+		}
 		element.setAttribute('aria-label', ariaText);
 
+		// Rich popover with the lines that link to the watched notes, loaded on first hover
+		element.addEventListener('mouseenter', () => {
+			const loadLines = this.watchedNotePath || this.series.length > 0 ? () => this.loadBacklinkLines(date) : undefined;
+			this.popover.show(element, date, summary, loadLines, valueLabel);
+		});
+		element.addEventListener('mouseleave', () => {
+			this.popover.hide();
+		});
+
 		// FEA003 Requirement 6: Make days with backlinks clickable
 		if (summary.linkCount > 0) {
 			element.addClass('monthly-tracker-square-clickable');
@@ -447,13 +752,36 @@ export class MonthlyTrackerComponent {
 		}
 	}
 
+	/**
+	 * Get the lines of the daily notes for a date that link to the watched note(s)
+	 * Several daily notes can share a date; the lines of each of them are listed
+	 */
+	private async loadBacklinkLines(date: Date): Promise<string[]> {
+		// The daily notes of the day were kept when the day data was built, so the vault is not scanned
+		const dateString = this.formatDateString(date);
+		const lookups: Promise<string[]>[] = [];
+		if (this.series.length > 0) {
+			for (const item of this.series) {
+				for (const file of item.data[dateString]?.files ?? []) {
+					lookups.push(this.classifier.getBacklinkLines(file, item.notePath));
+				}
+			}
+		} else if (this.watchedNotePath) {
+			for (const file of this.yearlyData[dateString]?.files ?? []) {
+				lookups.push(this.classifier.getBacklinkLines(file, this.watchedNotePath));
+			}
+		}
+		const linesPerLookup = await Promise.all(lookups);
+		// A line linking several watched notes is listed once
+		return Array.from(new Set(linesPerLookup.reduce((all, lines) => all.concat(lines), [])));
+	}
+
 	/**
 	 * Open the daily note for a specific date
 	 * FEA003 Requirement 6: Click on day to open corresponding daily note
 	 */
 	private async openDailyNote(date: Date): Promise<void> {
-		const classifier = new DailyNoteClassifier(this.app);
-		const file = classifier.findDailyNote(date);
+		const file = this.classifier.findDailyNote(date);
 		
 		if (file) {
 			await this.app.workspace.getLeaf(false).openFile(file);
@@ -461,6 +789,7 @@ export class MonthlyTrackerComponent {
 	}
 
 	public cleanup(): void {
-		// No special cleanup needed for this component
+		// The popover lives in document.body, outside the container
+		this.popover.hide();
 	}
 }
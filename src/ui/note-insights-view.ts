@@ -1,17 +1,23 @@
-import { ItemView, WorkspaceLeaf } from 'obsidian';
-import { DailyNoteBacklinkInfo, YearBounds, MonthBounds } from '../types';
+import { ItemView, TFile, WorkspaceLeaf, setIcon } from 'obsidian';
+import { DailyNoteBacklinkInfo, DailyNoteYearlyData, YearBounds, MonthBounds, YearlyTrackerWindow, InsightsTarget, InsightsTargetType, DisplayMode, WatchMode, SignalSourceType, TrackerCombineMode, TrackerSeries, TimePeriod, InsightsSection, InsightsSectionConfig, INSIGHTS_SECTION_LABELS, PeriodicGranularity } from '../types';
 import { YearlyTrackerComponent } from './yearly-tracker-component';
 import { MonthlyTrackerComponent } from './monthly-tracker-component';
 import { BacklinkCounterComponent } from './backlink-counter-component';
+import { StreakRenderer } from './streak-renderer';
 import { DailyNoteClassifier } from '../utils/daily-note-classifier';
+import { DateRangeCalculator } from '../utils/date-range-calculator';
 import { BacklinkAnalysisService } from '../services/backlink-analysis-service';
 import { SettingsService } from '../services/settings-service';
+import { SignalSource } from '../services/signal-sources';
+import { FolderResolver } from '../utils/folder-resolver';
+import { NoteQuery } from '../utils/note-query';
+import { StreakCalculator } from '../utils/streak-calculator';
 import { logger } from '../utils/logger';
 
 export const NOTE_INSIGHTS_VIEW_TYPE = 'note-insights-view';
 
 /**
- * Custom view that displays insights about the currently active note
+ * Custom view that displays insights about the currently active note, or about a folder or tag
  * This replaces the DOM manipulation approach with proper Obsidian view API
  */
 export class NoteInsightsView extends ItemView {
@@ -19,20 +25,40 @@ export class NoteInsightsView extends ItemView {
 	private yearlyTracker: YearlyTrackerComponent | null = null;
 	private monthlyTracker: MonthlyTrackerComponent | null = null;
 	private backlinkCounter: BacklinkCounterComponent | null = null;
+	private timeSeriesCounter: BacklinkCounterComponent | null = null;
+	private streakCounter: BacklinkCounterComponent | null = null;
 	private yearBounds: YearBounds | null = null;
 	private monthBounds: MonthBounds | null = null;
 	private onYearChangeCallback?: (year: number) => void;
 	private onMonthChangeCallback?: (month: number, year: number) => void;
+	private onPinnedNotesChangeCallback?: (notePaths: string[]) => void;
+	private onSectionsChangeCallback?: (sections: InsightsSectionConfig[]) => void;
 	private selectedYear: number = new Date().getFullYear();
 	private selectedMonth: number = new Date().getMonth();
 	private selectedMonthYear: number = new Date().getFullYear();
+	private windowEndMonth: number = new Date().getMonth(); // Last month of the rolling yearly window
+	private windowEndYear: number = new Date().getFullYear();
 	private classifier: DailyNoteClassifier;
 	private analysisService: BacklinkAnalysisService | null = null;
 	private settingsService: SettingsService | null = null;
+	private folderResolver: FolderResolver;
+	private notePath: string | null = null; // Note shown: the active note, or the one locked
+	private target: InsightsTarget | null = null; // Folder or tag shown instead of a note
+	private isLocked = false; // Locked views stop following the active note
+	private pinnedNotes: string[] = []; // Notes compared with the active one, stored in plugin data
+	private comparisonCounters: BacklinkCounterComponent[] = [];
+	private sections: Map<InsightsSection, HTMLElement> = new Map(); // Bodies of the rendered note sections
+	private hasNoteSections = false; // Whether the note sections are rendered (not a target or a comparison)
+	private layoutKey: string | null = null; // Section layout of the last full render
+	private headerEl: HTMLElement | null = null;
+	private noteTitleEl: HTMLElement | null = null;
+	private unsubscribeSettings?: () => void;
+	private outgoingLinksPeriod: PeriodicGranularity = PeriodicGranularity.WEEK; // Period of daily note link counts
 
 	constructor(leaf: WorkspaceLeaf) {
 		super(leaf);
 		this.classifier = new DailyNoteClassifier(this.app);
+		this.folderResolver = new FolderResolver(this.app);
 	}
 
 	/**
@@ -40,8 +66,10 @@ export class NoteInsightsView extends ItemView {
 	 */
 	setAnalysisService(service: BacklinkAnalysisService): void {
 		this.analysisService = service;
+		// Share the plugin's classifier so the configured detection mode applies
+		this.classifier = service.getClassifier();
 		// If view is already open, load the current active note
-		if (this.containerEl.isShown()) {
+		if (this.containerEl.isShown() && !this.isLocked) {
 			this.loadCurrentActiveNote();
 		}
 	}
@@ -52,6 +80,16 @@ export class NoteInsightsView extends ItemView {
 	 */
 	setSettingsService(service: SettingsService): void {
 		this.settingsService = service;
+		this.pinnedNotes = [...service.getSettings().pinnedNotes];
+		// Rebuild when the section layout is edited in the settings
+		if (this.unsubscribeSettings) {
+			this.unsubscribeSettings();
+		}
+		this.unsubscribeSettings = service.subscribe(() => {
+			if (this.layoutKey !== null && this.layoutKey !== this.getSectionLayoutKey()) {
+				this.render();
+			}
+		});
 	}
 
 	getViewType(): string {
@@ -68,9 +106,14 @@ export class NoteInsightsView extends ItemView {
 
 	/**
 	 * Update the view with new daily note backlink information
+	 * Ignored while the view is locked
 	 */
 	updateNoteInfo(noteInfo: DailyNoteBacklinkInfo, yearBounds?: YearBounds, monthBounds?: MonthBounds): void {
+		if (this.isLocked) {
+			return;
+		}
 		this.currentNoteInfo = noteInfo;
+		this.notePath = this.app.workspace.getActiveFile()?.path ?? null;
 		if (yearBounds) {
 			this.yearBounds = yearBounds;
 		}
@@ -81,6 +124,64 @@ export class NoteInsightsView extends ItemView {
 		this.render();
 	}
 
+	/**
+	 * Show the aggregate insights of a folder or tag
+	 * The view is locked, so opening a note of the folder does not replace them
+	 */
+	showTarget(target: InsightsTarget): void {
+		this.target = target;
+		this.isLocked = true;
+		this.render();
+	}
+
+	/**
+	 * Lock the view to what it shows, or follow the active note again
+	 */
+	setLocked(locked: boolean): void {
+		this.isLocked = locked;
+		if (locked) {
+			this.render();
+			return;
+		}
+		this.target = null;
+		this.loadCurrentActiveNote();
+	}
+
+	/**
+	 * Replace the pinned notes (e.g., after a pinned note was renamed)
+	 */
+	setPinnedNotes(notePaths: string[]): void {
+		this.pinnedNotes = [...notePaths];
+		this.render();
+	}
+
+	/**
+	 * Set the callback persisting the pinned notes
+	 */
+	setOnPinnedNotesChangeCallback(callback: (notePaths: string[]) => void): void {
+		this.onPinnedNotesChangeCallback = callback;
+	}
+
+	/**
+	 * Set the callback persisting the order, visibility and collapsed state of the sections
+	 */
+	setOnSectionsChangeCallback(callback: (sections: InsightsSectionConfig[]) => void): void {
+		this.onSectionsChangeCallback = callback;
+	}
+
+	/**
+	 * Pin a note for comparison, or unpin it
+	 */
+	private togglePinnedNote(notePath: string): void {
+		this.pinnedNotes = this.pinnedNotes.includes(notePath)
+			? this.pinnedNotes.filter(path => path !== notePath)
+			: [...this.pinnedNotes, notePath];
+		if (this.onPinnedNotesChangeCallback) {
+			this.onPinnedNotesChangeCallback(this.pinnedNotes);
+		}
+		this.render();
+	}
+
 	/**
 	 * Set the callback for when year changes in the yearly tracker
 	 */
@@ -100,21 +201,70 @@ export class NoteInsightsView extends ItemView {
 		if (this.onYearChangeCallback) {
 			this.onYearChangeCallback(year);
 		}
+		// The watcher only updates the view for the active note
+		if (this.isLocked) {
+			this.reloadLocked();
+		}
+	};
+
+	// The rolling window is loaded here: the watcher only provides the selected calendar year
+	private handleWindowChange = (month: number, year: number): void => {
+		this.windowEndMonth = month;
+		this.windowEndYear = year;
+		if (this.yearlyTracker && this.target) {
+			this.yearlyTracker.updateSeries(this.getTargetSeries(), TrackerCombineMode.SUM);
+		} else if (this.yearlyTracker && this.notePath) {
+			this.yearlyTracker.updateData(this.getWindowData(this.notePath));
+		}
 	};
 
+	/**
+	 * Daily data of a note over the rolling yearly window
+	 */
+	private getWindowData(notePath: string): DailyNoteYearlyData {
+		const file = this.app.vault.getAbstractFileByPath(notePath);
+		if (!(file instanceof TFile) || !this.analysisService) {
+			return {};
+		}
+		const dateRange = DateRangeCalculator.calculateRollingYearRange(this.windowEndMonth, this.windowEndYear);
+		return this.analysisService.getWindowData(file, dateRange);
+	}
+
 	private handleMonthChange = (month: number, year: number): void => {
 		this.selectedMonth = month;
 		this.selectedMonthYear = year;
 		if (this.onMonthChangeCallback) {
 			this.onMonthChangeCallback(month, year);
 		}
+		if (this.isLocked) {
+			this.reloadLocked();
+		} else if (!this.currentNoteInfo && this.getComparedNotes().length > 0) {
+			// Without an active note, the watcher does not refresh the pinned columns
+			this.render();
+		}
 	};
 
+	/**
+	 * Reload the locked note or target for the selected year
+	 */
+	private reloadLocked(): void {
+		const file = this.notePath ? this.app.vault.getAbstractFileByPath(this.notePath) : null;
+		if (!this.target && file instanceof TFile && this.analysisService) {
+			this.currentNoteInfo = this.analysisService.analyzeNote(file, this.selectedYear);
+		}
+		this.render();
+	}
+
 	/**
 	 * Clear the view when no note is active
+	 * Ignored while the view is locked
 	 */
 	clearNoteInfo(): void {
+		if (this.isLocked) {
+			return;
+		}
 		this.currentNoteInfo = null;
+		this.notePath = null;
 		if (this.yearlyTracker) {
 			this.yearlyTracker.clear();
 		}
@@ -132,28 +282,76 @@ export class NoteInsightsView extends ItemView {
 	 */
 	private render(): void {
 		const container = this.containerEl;
+
+		// Same sections for another note: update their components instead of rebuilding them
+		if (this.canUpdateInPlace()) {
+			this.renderHeader();
+			this.renderNoteTitle();
+			this.updateNoteSections();
+			return;
+		}
+
+		this.cleanupComparison();
+		this.cleanupSections();
 		container.empty();
 		container.addClass('note-insights-view');
+		this.layoutKey = this.getSectionLayoutKey();
 
 		// Add view header
-		const header = container.createEl('div', { cls: 'note-insights-header' });
-		header.createEl('h3', { 
-			text: 'Note insights',
-			cls: 'note-insights-title'
-		});
+		this.headerEl = container.createEl('div', { cls: 'note-insights-header' });
+		this.renderHeader();
 
 		// Create content area
 		const content = container.createEl('div', { cls: 'note-insights-content' });
 
-		if (!this.currentNoteInfo) {
-			// Show empty state
+		if (this.target) {
+			this.renderTargetInsights(content, this.target);
+		} else if (!this.currentNoteInfo) {
+			// Show empty state, then the pinned notes
 			this.renderEmptyState(content);
+			const comparedNotes = this.getComparedNotes();
+			if (comparedNotes.length > 0) {
+				this.renderComparison(content, comparedNotes);
+			}
+		} else if (this.isDailyNoteShown()) {
+			// Backlinks to a daily note are rare: show what the day links to instead
+			this.renderDailyNoteInsights(content);
 		} else {
 			// Show note insights
 			this.renderNoteInsights(content);
 		}
 	}
 
+	/**
+	 * Render the view title and its lock button
+	 */
+	private renderHeader(): void {
+		if (!this.headerEl) return;
+		this.headerEl.empty();
+		this.headerEl.createEl('h3', { 
+			text: 'Note insights',
+			cls: 'note-insights-title'
+		});
+		this.renderLockButton(this.headerEl);
+	}
+
+	/**
+	 * Render the button locking the view to what it shows (nothing to lock without a note or target)
+	 */
+	private renderLockButton(header: HTMLElement): void {
+		if (!this.isLocked && !this.currentNoteInfo) {
+			return;
+		}
+		const lockButton = header.createEl('button', {
+			cls: `note-insights-lock-button clickable-icon ${this.isLocked ? 'is-active' : ''}`,
+			attr: { 'aria-label': this.isLocked ? 'Follow the active note' : 'Lock to this note' }
+		});
+		setIcon(lockButton, this.isLocked ? 'lock' : 'unlock');
+		lockButton.addEventListener('click', () => {
+			this.setLocked(!this.isLocked);
+		});
+	}
+
 	/**
 	 * Render empty state when no note is active
 	 */
@@ -166,7 +364,7 @@ export class NoteInsightsView extends ItemView {
 	}
 
 	/**
-	 * Render the note insights content
+	 * Render the note insights content: the title, then the enabled sections in their configured order
 	 */
 	private renderNoteInsights(container: HTMLElement): void {
 		if (!this.currentNoteInfo) return;
@@ -177,109 +375,599 @@ export class NoteInsightsView extends ItemView {
 			text: 'Active note',
 			cls: 'note-insights-label'
 		});
+		this.noteTitleEl = titleSection.createEl('div', { cls: 'note-insights-note-title-row' });
+		this.renderNoteTitle();
+
+		if (!this.analysisService || !this.settingsService) {
+			logger.warn('[NoteInsightsView] Sections - services not initialized');
+			container.createEl('div', {
+				text: 'Insights unavailable (service not initialized)',
+				cls: 'note-insights-error'
+			});
+			return;
+		}
+
+		// Pinned notes: the active note is compared with them column by column,
+		// so the counter, monthly tracker and streak sections move into the columns
+		const noteFile = this.getNoteFile();
+		const comparedNotes = this.getComparedNotes();
+		const isComparing = noteFile !== null && comparedNotes.length > 0;
+		if (noteFile && isComparing) {
+			this.renderComparison(container, [noteFile, ...comparedNotes]);
+		}
+		const columnSections = [InsightsSection.COUNTER, InsightsSection.MONTHLY, InsightsSection.STREAK];
+
+		for (const config of this.settingsService.getInsightsSections()) {
+			if (config.enabled && !(isComparing && columnSections.includes(config.id))) {
+				this.renderSection(container, config);
+			}
+		}
+		this.hasNoteSections = !isComparing;
+		this.updateNoteSections();
+	}
+
+	/**
+	 * Whether the note shown is a daily note
+	 */
+	private isDailyNoteShown(): boolean {
+		const file = this.getNoteFile();
+		return file !== null && this.classifier.isDailyNote(file);
+	}
+
+	/**
+	 * Render the outgoing links of a daily note: how often each linked note comes up
+	 * in the surrounding week or month, and whether the day is the first to link it
+	 */
+	private renderDailyNoteInsights(container: HTMLElement): void {
+		const file = this.getNoteFile();
+		if (!file || !this.analysisService) return;
+
+		const titleSection = container.createEl('div', { cls: 'note-insights-section' });
 		titleSection.createEl('div', {
+			text: 'Daily note',
+			cls: 'note-insights-label'
+		});
+		this.noteTitleEl = titleSection.createEl('div', { cls: 'note-insights-note-title-row' });
+		this.renderNoteTitle();
+
+		const section = container.createEl('div', { cls: 'note-insights-section' });
+		const header = section.createEl('div', { cls: 'note-insights-daily-links-header' });
+		header.createEl('div', {
+			text: 'Outgoing links',
+			cls: 'note-insights-label'
+		});
+		const periods = header.createEl('div', { cls: 'note-insights-daily-links-periods' });
+		for (const period of [PeriodicGranularity.WEEK, PeriodicGranularity.MONTH]) {
+			const button = periods.createEl('button', {
+				text: period === PeriodicGranularity.WEEK ? 'Week' : 'Month',
+				cls: `note-insights-daily-links-period ${period === this.outgoingLinksPeriod ? 'is-active' : ''}`
+			});
+			button.addEventListener('click', () => {
+				this.outgoingLinksPeriod = period;
+				this.render();
+			});
+		}
+
+		const day = this.classifier.parseDailyNoteDate(file) ?? new Date();
+		const firstDayOfWeek = this.settingsService?.getSettings().firstDayOfWeek ?? 1;
+		const dateRange = DateRangeCalculator.calculateContainingRange(day, this.outgoingLinksPeriod, firstDayOfWeek);
+		const links = this.analysisService.getOutgoingLinks(file, dateRange);
+		if (links.length === 0) {
+			section.createEl('div', {
+				text: 'This daily note does not link to any note',
+				cls: 'note-insights-empty-text'
+			});
+			return;
+		}
+
+		const newCount = links.filter(link => link.isNew).length;
+		section.createEl('div', {
+			text: `${links.length} ${links.length === 1 ? 'note' : 'notes'} linked, ${newCount} new`,
+			cls: 'note-insights-daily-links-summary'
+		});
+
+		const periodWord = this.outgoingLinksPeriod === PeriodicGranularity.WEEK ? 'week' : 'month';
+		const list = section.createEl('div', { cls: 'note-insights-outgoing-links' });
+		for (const link of links) {
+			const item = list.createEl('div', { cls: 'note-insights-outgoing-link' });
+			const title = item.createEl('a', {
+				text: link.noteTitle,
+				cls: 'note-insights-outgoing-link-title',
+				attr: { 'aria-label': link.notePath }
+			});
+			title.addEventListener('click', () => {
+				void this.app.workspace.openLinkText(link.notePath, file.path, false);
+			});
+			item.createEl('span', {
+				text: link.isNew ? 'New' : 'Recurring',
+				cls: `note-insights-link-badge ${link.isNew ? 'is-new' : 'is-recurring'}`
+			});
+			item.createEl('span', {
+				text: `${link.periodDays} ${link.periodDays === 1 ? 'day' : 'days'} in the ${periodWord}`,
+				cls: 'note-insights-outgoing-link-count'
+			});
+		}
+	}
+
+	/**
+	 * Render the title of the note shown, with its pin button
+	 */
+	private renderNoteTitle(): void {
+		if (!this.noteTitleEl || !this.currentNoteInfo) return;
+		this.noteTitleEl.empty();
+		this.noteTitleEl.createEl('div', {
 			text: this.currentNoteInfo.noteTitle,
 			cls: 'note-insights-note-title'
 		});
+		const noteFile = this.getNoteFile();
+		if (noteFile) {
+			this.renderPinNoteButton(this.noteTitleEl, noteFile.path);
+		}
+	}
 
-		// counter section (FEA005)
-		const counterSection = container.createEl('div', { cls: 'note-insights-section' });
-		counterSection.createEl('div', {
-			text: 'Counter',
-			cls: 'note-insights-label'
+	/**
+	 * Render a collapsible section and create its component; the data is loaded by updateNoteSections
+	 */
+	private renderSection(container: HTMLElement, config: InsightsSectionConfig): void {
+		if (!this.analysisService || !this.settingsService) return;
+
+		const section = container.createEl('div', { cls: `note-insights-section ${config.collapsed ? 'is-collapsed' : ''}` });
+		const header = section.createEl('div', {
+			cls: 'note-insights-label note-insights-section-header',
+			attr: { role: 'button', 'aria-expanded': String(!config.collapsed) }
+		});
+		setIcon(header.createEl('span', { cls: 'note-insights-section-chevron' }), 'chevron-down');
+		header.createEl('span', { text: INSIGHTS_SECTION_LABELS[config.id] });
+		header.addEventListener('click', () => {
+			this.toggleSectionCollapsed(config.id, section, header);
 		});
-		
-		// Only create counter if we have analysisService and settingsService
-		if (this.analysisService && this.settingsService) {
-			// Cleanup previous component if exists
-			if (this.backlinkCounter) {
-				this.backlinkCounter.cleanup();
-			}
 
-			// Create counter container
-			const counterContainer = counterSection.createEl('div', { cls: 'note-insights-backlink-counter' });
-			// Create counter component (no callbacks needed for view panel - it doesn't persist or allow editing)
-			this.backlinkCounter = new BacklinkCounterComponent(
-				counterContainer, 
-				this.app,
-				this.classifier, 
-				this.analysisService,
-				this.settingsService
+		const body = section.createEl('div', { cls: 'note-insights-section-body' });
+		switch (config.id) {
+			case InsightsSection.COUNTER:
 				// No callbacks - view panel is read-only display
-			);
-			// Get backlinks for current note and update
-			const activeFile = this.app.workspace.getActiveFile();
-			if (activeFile) {
-				const backlinks = this.analysisService.getBacklinksForFile(activeFile);
-				logger.log('[NoteInsightsView] Counter - updating with backlinks:', backlinks.length);
-				this.backlinkCounter.updateData(backlinks, activeFile.basename, activeFile.path);
-			} else {
-				logger.warn('[NoteInsightsView] Counter - no active file');
+				this.backlinkCounter = this.createCounter(body.createEl('div', { cls: 'note-insights-backlink-counter' }));
+				break;
+			case InsightsSection.MONTHLY:
+				this.monthlyTracker = new MonthlyTrackerComponent(
+					this.app,
+					body.createEl('div', { cls: 'note-insights-monthly-tracker' }),
+					this.handleMonthChange,
+					this.classifier
+				);
+				break;
+			case InsightsSection.YEARLY:
+				this.yearlyTracker = new YearlyTrackerComponent(
+					this.app,
+					body.createEl('div', { cls: 'note-insights-yearly-tracker' }),
+					this.handleYearChange,
+					this.classifier,
+					this.handleWindowChange
+				);
+				this.yearlyTracker.setWindow(this.settingsService.getSettings().yearlyTrackerWindow);
+				break;
+			case InsightsSection.TIME_SERIES:
+				this.timeSeriesCounter = this.createCounter(body.createEl('div', { cls: 'note-insights-backlink-counter' }));
+				break;
+			case InsightsSection.STREAK:
+				this.streakCounter = this.createCounter(body.createEl('div', { cls: 'note-insights-backlink-counter' }));
+				break;
+			case InsightsSection.OUTGOING_LINKS:
+				break;
+		}
+		this.sections.set(config.id, body);
+	}
+
+	/**
+	 * Read-only counter of the panel
+	 */
+	private createCounter(container: HTMLElement): BacklinkCounterComponent | null {
+		if (!this.analysisService || !this.settingsService) {
+			return null;
+		}
+		return new BacklinkCounterComponent(container, this.app, this.classifier, this.analysisService, this.settingsService);
+	}
+
+	/**
+	 * Load the note shown into the components of the rendered sections
+	 */
+	private updateNoteSections(): void {
+		const noteInfo = this.currentNoteInfo;
+		const file = this.getNoteFile();
+		if (!noteInfo || !this.analysisService) return;
+
+		const isRolling = this.settingsService?.getSettings().yearlyTrackerWindow === YearlyTrackerWindow.ROLLING_12_MONTHS;
+		const yearlyData = noteInfo.yearlyData ?? {};
+		for (const [id, body] of this.sections) {
+			switch (id) {
+				case InsightsSection.COUNTER:
+					if (this.backlinkCounter && file) {
+						const backlinks = this.analysisService.getBacklinksForFile(file);
+						logger.log('[NoteInsightsView] Counter - updating with backlinks:', backlinks.length);
+						this.backlinkCounter.updateData(backlinks, file.basename, file.path);
+					}
+					break;
+				case InsightsSection.MONTHLY:
+					if (this.monthlyTracker) {
+						this.monthlyTracker.updateData(yearlyData, file?.path);
+						if (this.monthBounds) {
+							this.monthlyTracker.setMonthBounds(this.monthBounds);
+						}
+						this.monthlyTracker.setCurrentMonth(this.selectedMonth, this.selectedMonthYear, false);
+					}
+					break;
+				case InsightsSection.YEARLY:
+					if (this.yearlyTracker) {
+						this.yearlyTracker.updateData(isRolling && file ? this.getWindowData(file.path) : yearlyData, file?.path);
+						if (this.yearBounds) {
+							this.yearlyTracker.setYearBounds(this.yearBounds);
+						}
+						if (isRolling) {
+							this.yearlyTracker.setWindowEnd(this.windowEndMonth, this.windowEndYear, false);
+						} else {
+							this.yearlyTracker.setCurrentYear(this.selectedYear, false);
+						}
+					}
+					break;
+				case InsightsSection.TIME_SERIES:
+					if (this.timeSeriesCounter && file) {
+						this.timeSeriesCounter.updateWatchedItems({ watchMode: WatchMode.NOTE, notePath: file.path, displayAs: DisplayMode.TIME_SERIES });
+					}
+					break;
+				case InsightsSection.STREAK:
+					if (this.streakCounter && file) {
+						this.streakCounter.updateWatchedItems({ watchMode: WatchMode.NOTE, notePath: file.path, displayAs: DisplayMode.STREAK });
+					}
+					break;
+				case InsightsSection.OUTGOING_LINKS:
+					this.renderOutgoingLinks(body, file);
+					break;
 			}
-		} else {
-			logger.warn('[NoteInsightsView] Counter - analysisService is null! Cannot create counter.');
-			counterSection.createEl('div', {
-				text: 'Counter unavailable (service not initialized)',
-				cls: 'note-insights-error'
-			});
 		}
+	}
 
-		// Monthly tracker section
-		if (this.currentNoteInfo.yearlyData) {
-			const monthlySection = container.createEl('div', { cls: 'note-insights-section' });
-			monthlySection.createEl('div', {
-				text: 'Monthly tracker',
-				cls: 'note-insights-label'
+	/**
+	 * Render the notes linked from the note shown, most linked first
+	 */
+	private renderOutgoingLinks(container: HTMLElement, file: TFile | null): void {
+		container.empty();
+		const links = Object.entries(file ? this.app.metadataCache.resolvedLinks[file.path] ?? {} : {})
+			.sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+		if (!file || links.length === 0) {
+			container.createEl('div', {
+				text: 'No outgoing links',
+				cls: 'note-insights-empty-text'
 			});
-			// Create monthly tracker container
-			const monthlyTrackerContainer = monthlySection.createEl('div', { cls: 'note-insights-monthly-tracker' });
-			// Always create a new tracker for each note
-			this.monthlyTracker = new MonthlyTrackerComponent(this.app, monthlyTrackerContainer, this.handleMonthChange);
-			// Get active file path for click handlers
-			const activeFile = this.app.workspace.getActiveFile();
-			if (activeFile) {
-				this.monthlyTracker.updateData(this.currentNoteInfo.yearlyData, activeFile.path);
-			} else {
-				this.monthlyTracker.updateData(this.currentNoteInfo.yearlyData);
-			}
-			
-			// Set month bounds if available
-			if (this.monthBounds) {
-				this.monthlyTracker.setMonthBounds(this.monthBounds);
-			}
-			this.monthlyTracker.setCurrentMonth(this.selectedMonth, this.selectedMonthYear, false);
+			return;
 		}
 
-		// Yearly tracker section
-		if (this.currentNoteInfo.yearlyData) {
-			const yearlySection = container.createEl('div', { cls: 'note-insights-section' });
-			yearlySection.createEl('div', {
-				text: 'Yearly tracker',
-				cls: 'note-insights-label'
+		const list = container.createEl('div', { cls: 'note-insights-outgoing-links' });
+		for (const [linkPath, count] of links) {
+			const item = list.createEl('div', { cls: 'note-insights-outgoing-link' });
+			const title = item.createEl('a', {
+				text: linkPath.replace(/\.md$/, '').split('/').pop() || linkPath,
+				cls: 'note-insights-outgoing-link-title',
+				attr: { 'aria-label': linkPath }
+			});
+			title.addEventListener('click', () => {
+				void this.app.workspace.openLinkText(linkPath, file.path, false);
 			});
-			// Create yearly tracker container
-			const trackerContainer = yearlySection.createEl('div', { cls: 'note-insights-yearly-tracker' });
-			// Always create a new tracker for each note
-			this.yearlyTracker = new YearlyTrackerComponent(this.app, trackerContainer, this.handleYearChange);
-			// Get active file path for click handlers
-			const activeFile = this.app.workspace.getActiveFile();
-			if (activeFile) {
-				this.yearlyTracker.updateData(this.currentNoteInfo.yearlyData, activeFile.path);
-			} else {
-				this.yearlyTracker.updateData(this.currentNoteInfo.yearlyData);
+			item.createEl('span', {
+				text: String(count),
+				cls: 'note-insights-outgoing-link-count'
+			});
+		}
+	}
+
+	/**
+	 * Collapse or expand a section without rendering it again, and remember its state
+	 */
+	private toggleSectionCollapsed(id: InsightsSection, section: HTMLElement, header: HTMLElement): void {
+		if (!this.settingsService) return;
+		const collapsed = !section.hasClass('is-collapsed');
+		section.toggleClass('is-collapsed', collapsed);
+		header.setAttr('aria-expanded', String(!collapsed));
+
+		const sections = this.settingsService.getInsightsSections()
+			.map(config => config.id === id ? { ...config, collapsed } : config);
+		if (this.onSectionsChangeCallback) {
+			this.onSectionsChangeCallback(sections);
+		}
+	}
+
+	/**
+	 * Enabled sections in their order, with the settings they are built with
+	 * The note sections are rebuilt only when this changes
+	 */
+	private getSectionLayoutKey(): string {
+		if (!this.settingsService) {
+			return '';
+		}
+		const enabled = this.settingsService.getInsightsSections()
+			.filter(config => config.enabled)
+			.map(config => config.id);
+		return [...enabled, this.settingsService.getSettings().yearlyTrackerWindow].join(',');
+	}
+
+	/**
+	 * Whether the rendered note sections can show the note by updating their components
+	 */
+	private canUpdateInPlace(): boolean {
+		return this.hasNoteSections
+			&& this.currentNoteInfo !== null
+			&& this.target === null
+			&& !this.isDailyNoteShown()
+			&& this.layoutKey === this.getSectionLayoutKey()
+			&& this.getComparedNotes().length === 0;
+	}
+
+	/**
+	 * Unsubscribe the counters of the sections and forget their components
+	 */
+	private cleanupSections(): void {
+		for (const counter of [this.backlinkCounter, this.timeSeriesCounter, this.streakCounter]) {
+			if (counter) {
+				counter.cleanup();
 			}
-			
-			// Set year bounds if available
-			if (this.yearBounds) {
-				this.yearlyTracker.setYearBounds(this.yearBounds);
+		}
+		this.backlinkCounter = null;
+		this.timeSeriesCounter = null;
+		this.streakCounter = null;
+		this.monthlyTracker = null;
+		this.yearlyTracker = null;
+		this.sections.clear();
+		this.noteTitleEl = null;
+		this.hasNoteSections = false;
+	}
+
+	/**
+	 * Render the button pinning a note for comparison, or unpinning it
+	 */
+	private renderPinNoteButton(container: HTMLElement, notePath: string): void {
+		const isPinned = this.pinnedNotes.includes(notePath);
+		const pinButton = container.createEl('button', {
+			cls: `note-insights-pin-button clickable-icon ${isPinned ? 'is-active' : ''}`,
+			attr: { 'aria-label': isPinned ? 'Unpin note' : 'Pin note for comparison' }
+		});
+		setIcon(pinButton, isPinned ? 'pin-off' : 'pin');
+		pinButton.addEventListener('click', () => {
+			this.togglePinnedNote(notePath);
+		});
+	}
+
+	/**
+	 * Pinned notes other than the note shown, skipping deleted ones
+	 */
+	private getComparedNotes(): TFile[] {
+		const files: TFile[] = [];
+		for (const notePath of this.pinnedNotes) {
+			const file = this.app.vault.getAbstractFileByPath(notePath);
+			if (file instanceof TFile && file.path !== this.notePath) {
+				files.push(file);
 			}
+		}
+		return files;
+	}
+
+	/**
+	 * Render one column per note: counter, monthly tracker and habit statistics side by side
+	 */
+	private renderComparison(container: HTMLElement, files: TFile[]): void {
+		const section = container.createEl('div', { cls: 'note-insights-section' });
+		section.createEl('div', {
+			text: 'Compare',
+			cls: 'note-insights-label'
+		});
+		const columns = section.createEl('div', { cls: 'note-insights-comparison' });
+		files.forEach((file, index) => this.renderComparisonColumn(columns, file, index));
+	}
+
+	/**
+	 * Render the column of one compared note
+	 */
+	private renderComparisonColumn(columns: HTMLElement, file: TFile, index: number): void {
+		if (!this.analysisService || !this.settingsService) return;
+
+		const column = columns.createEl('div', { cls: 'note-insights-comparison-column' });
+		const header = column.createEl('div', { cls: 'note-insights-comparison-header' });
+		const title = header.createEl('a', {
+			text: file.basename,
+			cls: 'note-insights-comparison-title',
+			attr: { 'aria-label': file.path }
+		});
+		title.addEventListener('click', () => {
+			void this.app.workspace.openLinkText(file.path, '', false);
+		});
+		this.renderPinNoteButton(header, file.path);
+
+		// Counter
+		const counter = new BacklinkCounterComponent(
+			column.createEl('div', { cls: 'note-insights-backlink-counter' }),
+			this.app,
+			this.classifier,
+			this.analysisService,
+			this.settingsService
+		);
+		counter.updateData(this.analysisService.getBacklinksForFile(file), file.basename, file.path);
+		this.comparisonCounters.push(counter);
+
+		// Monthly tracker, on the month selected in any column
+		const monthlyTracker = new MonthlyTrackerComponent(
+			this.app,
+			column.createEl('div', { cls: 'note-insights-monthly-tracker' }),
+			this.handleMonthChange,
+			this.classifier
+		);
+		monthlyTracker.updateData(this.analysisService.getMonthlyData(file, this.selectedMonth, this.selectedMonthYear), file.path);
+		monthlyTracker.setMonthBounds(this.analysisService.getMonthBounds(file));
+		monthlyTracker.setCurrentMonth(this.selectedMonth, this.selectedMonthYear, false);
+
+		// Habit statistics over the past 90 days
+		const settings = this.settingsService.getSettings();
+		const dateRange = DateRangeCalculator.calculateDateRange(TimePeriod.PAST_90_DAYS, settings.firstDayOfWeek);
+		const colors = this.settingsService.getSeriesColors();
+		new StreakRenderer(column.createEl('div', { cls: 'note-insights-streak' })).render(
+			[{
+				noteTitle: file.basename,
+				color: colors[index % colors.length],
+				stats: StreakCalculator.calculate(this.analysisService.getDailyBacklinksInRange(file, dateRange), dateRange)
+			}],
+			DateRangeCalculator.getPeriodLabel(TimePeriod.PAST_90_DAYS),
+			settings.firstDayOfWeek
+		);
+	}
+
+	/**
+	 * Unsubscribe the counters of the comparison columns
+	 */
+	private cleanupComparison(): void {
+		this.comparisonCounters.forEach(counter => counter.cleanup());
+		this.comparisonCounters = [];
+	}
+
+	/**
+	 * Note shown by the view
+	 */
+	private getNoteFile(): TFile | null {
+		const file = this.notePath ? this.app.vault.getAbstractFileByPath(this.notePath) : null;
+		return file instanceof TFile ? file : null;
+	}
+
+	/**
+	 * Render the aggregate insights of a folder or tag: total counter, ranked members and combined yearly tracker
+	 */
+	private renderTargetInsights(container: HTMLElement, target: InsightsTarget): void {
+		const isFolder = target.type === InsightsTargetType.FOLDER;
+		const titleSection = container.createEl('div', { cls: 'note-insights-section' });
+		titleSection.createEl('div', {
+			text: isFolder ? 'Folder' : 'Tag',
+			cls: 'note-insights-label'
+		});
+		titleSection.createEl('div', {
+			text: isFolder ? `${target.value}/` : `#${target.value}`,
+			cls: 'note-insights-note-title'
+		});
+
+		if (!this.analysisService || !this.settingsService) {
+			logger.warn('[NoteInsightsView] Target - services not initialized');
+			return;
+		}
+
+		// Counter section: total of the members, ranked as top-N bars
+		const counterSection = container.createEl('div', { cls: 'note-insights-section' });
+		counterSection.createEl('div', {
+			text: 'Counter',
+			cls: 'note-insights-label'
+		});
+		if (this.backlinkCounter) {
+			this.backlinkCounter.cleanup();
+		}
+		const counterContainer = counterSection.createEl('div', { cls: 'note-insights-backlink-counter' });
+		this.backlinkCounter = new BacklinkCounterComponent(
+			counterContainer,
+			this.app,
+			this.classifier,
+			this.analysisService,
+			this.settingsService
+		);
+		this.backlinkCounter.updateWatchedItems(isFolder
+			? { watchMode: WatchMode.FOLDER, folderPath: target.value, displayAs: DisplayMode.TOP_N, showTotal: true }
+			: { query: `#${target.value}`, displayAs: DisplayMode.TOP_N, showTotal: true });
+
+		// Yearly tracker section: the days of all members added up
+		const yearlySection = container.createEl('div', { cls: 'note-insights-section' });
+		yearlySection.createEl('div', {
+			text: 'Yearly tracker',
+			cls: 'note-insights-label'
+		});
+		const trackerContainer = yearlySection.createEl('div', { cls: 'note-insights-yearly-tracker' });
+		this.monthlyTracker = null;
+		this.yearlyTracker = new YearlyTrackerComponent(this.app, trackerContainer, this.handleYearChange, this.classifier, this.handleWindowChange);
+		const window = this.settingsService.getSettings().yearlyTrackerWindow;
+		this.yearlyTracker.setWindow(window);
+		this.yearlyTracker.setSourceTitle(isFolder ? target.value.split('/').pop() || target.value : `#${target.value}`);
+		this.yearlyTracker.setYearBounds(this.getTargetYearBounds());
+		this.yearlyTracker.updateSeries(this.getTargetSeries(), TrackerCombineMode.SUM);
+		if (window === YearlyTrackerWindow.ROLLING_12_MONTHS) {
+			this.yearlyTracker.setWindowEnd(this.windowEndMonth, this.windowEndYear, false);
+		} else {
 			this.yearlyTracker.setCurrentYear(this.selectedYear, false);
 		}
 	}
 
+	/**
+	 * Notes of the folder (nested folders included) or tagged with the tag (nested tags included)
+	 */
+	private getTargetNotes(): TFile[] {
+		if (!this.target) {
+			return [];
+		}
+		if (this.target.type === InsightsTargetType.FOLDER) {
+			return this.folderResolver.getNotesInFolder(this.target.value);
+		}
+		return NoteQuery.parse(`#${this.target.value}`).getMatchingNotes(this.app);
+	}
+
+	/**
+	 * Link sources of the target notes
+	 */
+	private getTargetSources(): SignalSource[] {
+		const sources: SignalSource[] = [];
+		for (const file of this.getTargetNotes()) {
+			const source = this.analysisService?.createSignalSource({ type: SignalSourceType.LINK, value: file.path });
+			if (source) {
+				sources.push(source);
+			}
+		}
+		return sources;
+	}
+
+	/**
+	 * One yearly tracker series per target note, over the selected year or rolling window
+	 */
+	private getTargetSeries(): TrackerSeries[] {
+		const analysisService = this.analysisService;
+		if (!analysisService || !this.settingsService) {
+			return [];
+		}
+		const colors = this.settingsService.getSeriesColors();
+		const isRolling = this.settingsService.getSettings().yearlyTrackerWindow === YearlyTrackerWindow.ROLLING_12_MONTHS;
+		const dateRange = DateRangeCalculator.calculateRollingYearRange(this.windowEndMonth, this.windowEndYear);
+		return this.getTargetSources().map((source, index) => ({
+			notePath: source.id,
+			noteTitle: source.title,
+			color: colors[index % colors.length],
+			data: isRolling
+				? analysisService.getWindowDataForSource(source, dateRange)
+				: analysisService.getYearlyDataForSource(source, this.selectedYear)
+		}));
+	}
+
+	/**
+	 * Years covered by any of the target notes
+	 */
+	private getTargetYearBounds(): YearBounds {
+		const currentYear = new Date().getFullYear();
+		const analysisService = this.analysisService;
+		if (!analysisService) {
+			return { minYear: currentYear, maxYear: currentYear };
+		}
+		return this.getTargetSources()
+			.map(source => analysisService.getYearBoundsForSource(source))
+			.reduce(
+				(bounds, sourceBounds) => ({
+					minYear: Math.min(bounds.minYear, sourceBounds.minYear),
+					maxYear: Math.max(bounds.maxYear, sourceBounds.maxYear)
+				}),
+				{ minYear: currentYear, maxYear: currentYear }
+			);
+	}
+
 	async onOpen(): Promise<void> {
 		// When view opens, try to load the current active note
-		this.loadCurrentActiveNote();
+		if (!this.isLocked) {
+			this.loadCurrentActiveNote();
+		}
 		this.render();
 	}
 
@@ -310,12 +998,16 @@ export class NoteInsightsView extends ItemView {
 
 	async onClose(): Promise<void> {
 		// Cleanup when view is closed
-		if (this.backlinkCounter) {
-			this.backlinkCounter.cleanup();
+		this.cleanupSections();
+		this.cleanupComparison();
+		if (this.unsubscribeSettings) {
+			this.unsubscribeSettings();
+			this.unsubscribeSettings = undefined;
 		}
+		this.layoutKey = null;
 		this.currentNoteInfo = null;
-		this.yearlyTracker = null;
-		this.monthlyTracker = null;
-		this.backlinkCounter = null;
+		this.notePath = null;
+		this.target = null;
+		this.isLocked = false;
 	}
 }
@@ -1,4 +1,5 @@
 import { NoteCounterResult } from '../types';
+import { renderTrendIndicator } from './trend-indicator';
 
 /**
  * PieRenderer - Renders pie charts for backlink distribution among watched notes
@@ -19,8 +20,9 @@ export class PieRenderer {
 	 * @param results Array of note counter results to visualize
 	 * @param periodLabel Label describing the time period (e.g., "past 30 days")
 	 * @param colors Optional array of colors to use for the pie slices (FEA010)
+	 * @param previousPeriodLabel Label of the previous window, used when results carry a previous count
 	 */
-	render(results: NoteCounterResult[], periodLabel: string, colors?: string[]): void {
+	render(results: NoteCounterResult[], periodLabel: string, colors?: string[], previousPeriodLabel?: string): void {
 		// Clear container
 		this.container.empty();
 
@@ -33,7 +35,7 @@ export class PieRenderer {
 		const sortedResults = this.sortResults(results);
 
 		// Render pie chart visualization
-		this.renderChart(sortedResults, periodLabel, colors);
+		this.renderChart(sortedResults, periodLabel, colors, previousPeriodLabel);
 	}
 
 	/**
@@ -54,7 +56,7 @@ export class PieRenderer {
 	 * Render pie chart visualization using CSS conic-gradient
 	 * @param colors Optional array of colors to use for the pie slices (FEA010)
 	 */
-	private renderChart(results: NoteCounterResult[], periodLabel: string, colors?: string[]): void {
+	private renderChart(results: NoteCounterResult[], periodLabel: string, colors?: string[], previousPeriodLabel?: string): void {
 		// Clear existing content
 		this.container.empty();
 		
@@ -159,6 +161,11 @@ export class PieRenderer {
 				text: `${result.count} (${percentage}%)`,
 				cls: 'pie-legend-count'
 			});
+
+			// Change since the previous period
+			if (result.previousCount !== undefined && previousPeriodLabel) {
+				renderTrendIndicator(legendText, result.count, result.previousCount, previousPeriodLabel);
+			}
 		});
 	}
 
@@ -1,6 +1,6 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 import type VaultVisualizerPlugin from '../../main';
-import { ColorPalette, COLOR_PALETTES } from '../types';
+import { ColorPalette, COLOR_PALETTES, DailyNoteDetectionMode, INSIGHTS_SECTION_LABELS, InsightsSectionConfig, YearlyTrackerWindow } from '../types';
 import { logger } from '../utils/logger';
 
 /**
@@ -56,6 +56,53 @@ export class VaultVisualizerSettingTab extends PluginSettingTab {
 					}
 				}));
 
+		// Yearly Tracker Period Setting
+		new Setting(containerEl)
+			.setName('Yearly tracker period')
+			.setDesc('Default period of yearly trackers. The rolling window shows the 53 weeks ending today and navigates by month. Code blocks can override it with the window option.')
+			.addDropdown(dropdown => dropdown
+				.addOption(YearlyTrackerWindow.CALENDAR_YEAR, 'Calendar year')
+				.addOption(YearlyTrackerWindow.ROLLING_12_MONTHS, 'Last 12 months')
+				.setValue(this.plugin.settings.yearlyTrackerWindow)
+				.onChange((value) => {
+					this.plugin.settings.yearlyTrackerWindow = value as YearlyTrackerWindow;
+					void this.plugin.saveSettings();
+				}));
+
+		// Note Insights Panel Section
+		new Setting(containerEl).setName("Note insights panel").setHeading();
+		containerEl.createEl('p', {
+			cls: 'setting-item-description',
+			text: 'Sections shown for a note, from top to bottom. Collapse a section by clicking its title in the panel.'
+		});
+		this.displayInsightsSections(containerEl);
+
+		// Daily Notes Detection Section
+		new Setting(containerEl).setName("Daily notes").setHeading();
+
+		new Setting(containerEl)
+			.setName('Daily note detection')
+			.setDesc('How journal entries are recognized. File names follow the folder and date format of the daily notes or periodic notes plugin. Frontmatter detection counts any note carrying the date property below, wherever it is stored.')
+			.addDropdown(dropdown => dropdown
+				.addOption(DailyNoteDetectionMode.FILENAME, 'File name')
+				.addOption(DailyNoteDetectionMode.FRONTMATTER, 'Frontmatter property')
+				.addOption(DailyNoteDetectionMode.FRONTMATTER_OR_FILENAME, 'Frontmatter property, then file name')
+				.setValue(this.plugin.settings.dailyNoteDetectionMode)
+				.onChange((value) => {
+					this.plugin.settings.dailyNoteDetectionMode = value as DailyNoteDetectionMode;
+					void this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Date property')
+			.setDesc('Frontmatter key holding the journal date, used by frontmatter detection.')
+			.addText(text => text
+				.setValue(this.plugin.settings.dailyNoteDateProperty)
+				.onChange((value) => {
+					this.plugin.settings.dailyNoteDateProperty = value.trim();
+					void this.plugin.saveSettings();
+				}));
+
 		// Series Colors Section
 		new Setting(containerEl).setName("Default series colors").setHeading();
 		containerEl.createEl('p', { 
@@ -142,4 +189,52 @@ export class VaultVisualizerSettingTab extends PluginSettingTab {
 
 
 	}
+
+	/**
+	 * One row per section of the Note Insights panel: visibility toggle and buttons moving it up or down
+	 */
+	private displayInsightsSections(containerEl: HTMLElement): void {
+		const sections = this.plugin.settingsService.getInsightsSections();
+		const save = (updated: InsightsSectionConfig[], redisplay: boolean) => {
+			this.plugin.settings.insightsSections = updated;
+			void this.plugin.saveSettings();
+			if (redisplay) {
+				this.display();
+			}
+		};
+		// Changes start from the saved layout, so toggles made since this page was displayed are kept
+		const move = (index: number, offset: number) => {
+			const updated = this.plugin.settingsService.getInsightsSections();
+			[updated[index], updated[index + offset]] = [updated[index + offset], updated[index]];
+			save(updated, true);
+		};
+
+		sections.forEach((section, index) => {
+			new Setting(containerEl)
+				.setName(INSIGHTS_SECTION_LABELS[section.id])
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip('Move up')
+					.setDisabled(index === 0)
+					.onClick(() => {
+						if (index > 0) {
+							move(index, -1);
+						}
+					}))
+				.addExtraButton(button => button
+					.setIcon('arrow-down')
+					.setTooltip('Move down')
+					.setDisabled(index === sections.length - 1)
+					.onClick(() => {
+						if (index < sections.length - 1) {
+							move(index, 1);
+						}
+					}))
+				.addToggle(toggle => toggle
+					.setValue(section.enabled)
+					.onChange((enabled) => {
+						save(this.plugin.settingsService.getInsightsSections().map(config => config.id === section.id ? { ...config, enabled } : config), false);
+					}));
+		});
+	}
 }
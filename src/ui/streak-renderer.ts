@@ -0,0 +1,112 @@
+import { StreakStats } from '../types';
+import { StreakCalculator } from '../utils/streak-calculator';
+
+/**
+ * Habit statistics of one watched note or signal source
+ */
+export interface StreakRow {
+	noteTitle: string;
+	color: string;
+	stats: StreakStats;
+}
+
+/**
+ * StreakRenderer - Renders habit statistics for watched notes
+ * 
+ * One card per note: current and longest streak, active days, average gap between
+ * mentions and the distribution of active days over the weekdays.
+ */
+export class StreakRenderer {
+	private container: HTMLElement;
+
+	constructor(container: HTMLElement) {
+		this.container = container;
+	}
+
+	/**
+	 * Render habit statistics
+	 * @param rows Statistics of each watched note
+	 * @param periodLabel Label describing the time period (e.g., "past 30 days")
+	 * @param firstDayOfWeek First weekday of the distribution (0 = Sunday), from settings
+	 */
+	render(rows: StreakRow[], periodLabel: string, firstDayOfWeek: number): void {
+		this.container.empty();
+
+		if (rows.length === 0) {
+			this.container.createEl('div', {
+				text: 'No data available for habit statistics',
+				cls: 'streak-empty-state'
+			});
+			return;
+		}
+
+		const container = this.container.createEl('div', { cls: 'streak-container' });
+		container.createEl('h4', {
+			text: `Habit statistics (${periodLabel})`,
+			cls: 'streak-title'
+		});
+
+		rows.forEach(row => this.renderRow(container, row, firstDayOfWeek));
+	}
+
+	/**
+	 * Render the statistics card of one note
+	 */
+	private renderRow(container: HTMLElement, row: StreakRow, firstDayOfWeek: number): void {
+		const { stats } = row;
+		const rowEl = container.createEl('div', { cls: 'streak-row' });
+
+		const header = rowEl.createEl('div', { cls: 'streak-row-header' });
+		const color = header.createEl('span', { cls: 'streak-row-color' });
+		color.style.backgroundColor = row.color;
+		header.createEl('span', { text: row.noteTitle, cls: 'streak-row-title' });
+
+		const statsEl = rowEl.createEl('div', { cls: 'streak-stats' });
+		this.renderStat(statsEl, 'Current streak', StreakCalculator.formatDays(stats.currentStreak));
+		this.renderStat(statsEl, 'Longest streak', StreakCalculator.formatDays(stats.longestStreak));
+		this.renderStat(statsEl, 'Active days', `${stats.activeDays} / ${stats.totalDays}`);
+		this.renderStat(statsEl, 'Average gap', stats.averageGap !== null ? StreakCalculator.formatDays(stats.averageGap) : '–');
+
+		this.renderWeekdays(rowEl, row, firstDayOfWeek);
+	}
+
+	/**
+	 * Render one statistic: value above its label
+	 */
+	private renderStat(container: HTMLElement, label: string, value: string): void {
+		const stat = container.createEl('div', { cls: 'streak-stat' });
+		stat.createEl('div', { text: value, cls: 'streak-stat-value' });
+		stat.createEl('div', { text: label, cls: 'streak-stat-label' });
+	}
+
+	/**
+	 * Render the day-of-week distribution as small vertical bars
+	 */
+	private renderWeekdays(container: HTMLElement, row: StreakRow, firstDayOfWeek: number): void {
+		const weekdays = container.createEl('div', { cls: 'streak-weekdays' });
+		const maxCount = Math.max(...row.stats.weekdayCounts);
+
+		for (const weekday of StreakCalculator.getWeekdayOrder(firstDayOfWeek)) {
+			const count = row.stats.weekdayCounts[weekday];
+			const label = StreakCalculator.getWeekdayLabel(weekday);
+			const column = weekdays.createEl('div', {
+				cls: 'streak-weekday',
+				attr: { 'aria-label': `${label}: ${count} active ${count === 1 ? 'day' : 'days'}` }
+			});
+
+			const barWrapper = column.createEl('div', { cls: 'streak-weekday-bar-wrapper' });
+			const bar = barWrapper.createEl('div', { cls: 'streak-weekday-bar' });
+			bar.style.height = `${maxCount > 0 ? (count / maxCount) * 100 : 0}%`;
+			bar.style.backgroundColor = row.color;
+
+			column.createEl('div', { text: label, cls: 'streak-weekday-label' });
+		}
+	}
+
+	/**
+	 * Clean up resources
+	 */
+	destroy(): void {
+		// No resources to clean up
+	}
+}
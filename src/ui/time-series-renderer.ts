@@ -1,17 +1,26 @@
-import { DailyNoteYearlyData } from '../types';
+import { DailyNoteYearlyData, DateRange, DEFAULT_TIME_SERIES_OPTIONS, TimeSeriesGranularity, TimeSeriesOptions, ValueAggregation } from '../types';
+import { TimeSeriesBucketer } from '../utils/time-series-bucketer';
+import { ValueAggregator } from '../utils/value-aggregator';
+import { EXPORT_IGNORE_CLASS } from '../utils/visualization-exporter';
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Moving average windows offered by the header, in buckets
+const MOVING_AVERAGE_WINDOWS = [3, 7, 14, 30];
 
 /**
  * Data point for a time series
  */
 interface TimeSeriesDataPoint {
-	date: string; // YYYY-MM-DD format
+	date: string; // YYYY-MM-DD format (first day of the week or month when bucketed)
 	count: number;
+	average?: number; // Moving average up to this point, when the overlay is shown
 }
 
 /**
  * Single series of time-series data
  */
-interface TimeSeriesData {
+export interface TimeSeriesData {
 	noteTitle: string;
 	notePath: string;
 	dataPoints: TimeSeriesDataPoint[];
@@ -27,17 +36,29 @@ interface TimeSeriesData {
  */
 export class TimeSeriesRenderer {
 	private container: HTMLElement;
+	private valueLabel?: string;
+	private options: TimeSeriesOptions = DEFAULT_TIME_SERIES_OPTIONS;
+	private onOptionsChange?: (options: TimeSeriesOptions) => void;
 
-	constructor(container: HTMLElement) {
+	/**
+	 * @param onOptionsChange Called when granularity, cumulative mode or moving average change in the header
+	 * (the header controls are only shown when provided)
+	 */
+	constructor(container: HTMLElement, onOptionsChange?: (options: TimeSeriesOptions) => void) {
 		this.container = container;
+		this.onOptionsChange = onOptionsChange;
 	}
 
 	/**
 	 * Render time-series line chart
 	 * @param seriesData Array of time-series data for each note
 	 * @param periodLabel Label describing the time period
+	 * @param valueLabel Label of the aggregated values (e.g., "total") when plotting logged values instead of counts
+	 * @param options Bucketing and smoothing the data was built with (see buildTimeSeriesData)
 	 */
-	render(seriesData: TimeSeriesData[], periodLabel: string): void {
+	render(seriesData: TimeSeriesData[], periodLabel: string, valueLabel?: string, options: TimeSeriesOptions = DEFAULT_TIME_SERIES_OPTIONS): void {
+		this.valueLabel = valueLabel;
+		this.options = options;
 		// Clear container
 		this.container.empty();
 
@@ -51,11 +72,15 @@ export class TimeSeriesRenderer {
 			cls: 'time-series-container'
 		});
 
-		// Title
-		chartContainer.createEl('h4', {
-			text: `Backlink Evolution (${periodLabel})`,
+		// Title and bucketing/smoothing controls
+		const header = chartContainer.createEl('div', { cls: 'time-series-header' });
+		header.createEl('h4', {
+			text: this.getTitle(periodLabel),
 			cls: 'time-series-title'
 		});
+		if (this.onOptionsChange) {
+			this.renderOptionControls(header);
+		}
 
 		// Chart wrapper
 		const chartWrapper = chartContainer.createEl('div', {
@@ -108,8 +133,8 @@ export class TimeSeriesRenderer {
 			});
 		});
 
-		// Add some padding to max for better visualization
-		const yMax = Math.max(maxCount + 1, 5);
+		// Round the axis up to 5 even steps, so labels stay readable for any value range
+		const yMax = this.getAxisStep(maxCount) * 5;
 
 		// Create scales
 		const xScale = (index: number) => padding.left + (index / Math.max(sortedDates.length - 1, 1)) * chartWidth;
@@ -164,7 +189,7 @@ export class TimeSeriesRenderer {
 		// Y-axis labels
 		const labelsGroup = svg.createSvg('g', { attr: { cls: 'time-series-labels' } });
 		for (let i = 0; i <= 5; i++) {
-			const value = Math.round((i / 5) * yMax);
+			const value = (i / 5) * yMax;
 			const y = yScale(value);
 			labelsGroup.createSvg('text', {
 				attr: {
@@ -175,7 +200,7 @@ export class TimeSeriesRenderer {
 					fill: 'var(--text-muted)',
 					'font-size': '12'
 				}
-			}).textContent = value.toString();
+			}).textContent = ValueAggregator.format(value);
 		}
 
 		// X-axis labels (show max 7 date labels to avoid crowding)
@@ -232,7 +257,29 @@ export class TimeSeriesRenderer {
 				}
 			});
 
-			// Draw points
+			// Moving average overlay: same color, dashed
+			if (this.options.movingAverage > 0) {
+				const averageData = series.dataPoints
+					.filter(point => point.average !== undefined)
+					.map((point, index) => `${index === 0 ? 'M' : 'L'} ${xScale(sortedDates.indexOf(point.date))} ${yScale(point.average ?? 0)}`)
+					.join(' ');
+				linesGroup.createSvg('path', {
+					attr: {
+						d: averageData,
+						fill: 'none',
+						stroke: series.color,
+						'stroke-width': '2',
+						'stroke-dasharray': '6,4',
+						'stroke-opacity': '0.6',
+						cls: 'time-series-average'
+					}
+				});
+			}
+
+			// Draw points (a running total is a line only)
+			if (this.options.cumulative) {
+				return;
+			}
 			const pointsGroup = linesGroup.createSvg('g', { attr: { cls: 'time-series-points' } });
 			sortedDates.forEach((date, index) => {
 				const count = dataMap.get(date);
@@ -255,6 +302,24 @@ export class TimeSeriesRenderer {
 		});
 	}
 
+	/**
+	 * Step between the 5 y-axis grid lines: 1, 2, 2.5 or 5 times a power of ten
+	 * Counts keep whole steps (so at least 0-5); logged values can use fractional steps
+	 */
+	private getAxisStep(maxValue: number): number {
+		const minStep = this.valueLabel ? 0 : 1;
+		const rawStep = maxValue / 5;
+		if (rawStep <= 0) {
+			return Math.max(minStep, 1);
+		}
+
+		const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+		const step = [1, 2, 2.5, 5, 10]
+			.map(factor => factor * magnitude)
+			.find(candidate => candidate >= rawStep) ?? rawStep;
+		return Math.max(step, minStep);
+	}
+
 	/**
 	 * Render legend
 	 */
@@ -285,15 +350,85 @@ export class TimeSeriesRenderer {
 	}
 
 	/**
-	 * Format date label for x-axis
+	 * Title naming the bucket size and the cumulative mode (e.g., "Weekly total (Past year, cumulative)")
+	 */
+	private getTitle(periodLabel: string): string {
+		const details = this.options.cumulative ? `${periodLabel}, cumulative` : periodLabel;
+		if (this.valueLabel) {
+			const bucketLabel = { day: 'Daily', week: 'Weekly', month: 'Monthly' }[this.options.granularity];
+			return `${bucketLabel} ${this.valueLabel} (${details})`;
+		}
+		return this.options.granularity === TimeSeriesGranularity.DAY
+			? `Backlink Evolution (${details})`
+			: `Backlink Evolution by ${this.options.granularity} (${details})`;
+	}
+
+	/**
+	 * Render the granularity buttons, the cumulative toggle and the moving average window
+	 */
+	private renderOptionControls(header: HTMLElement): void {
+		const controls = header.createEl('div', { cls: `time-series-controls ${EXPORT_IGNORE_CLASS}` });
+		const update = (changes: Partial<TimeSeriesOptions>) => {
+			this.onOptionsChange?.({ ...this.options, ...changes });
+		};
+
+		const granularityGroup = controls.createEl('div', { cls: 'time-series-granularity' });
+		const granularityLabels = { day: 'Day', week: 'Week', month: 'Month' };
+		for (const granularity of Object.values(TimeSeriesGranularity)) {
+			const button = granularityGroup.createEl('button', {
+				cls: `time-series-option ${granularity === this.options.granularity ? 'active' : ''}`,
+				text: granularityLabels[granularity],
+				attr: { 'aria-label': `One point per ${granularity}` }
+			});
+			button.addEventListener('click', () => {
+				if (granularity !== this.options.granularity) {
+					update({ granularity });
+				}
+			});
+		}
+
+		const cumulativeButton = controls.createEl('button', {
+			cls: `time-series-option ${this.options.cumulative ? 'active' : ''}`,
+			text: 'Cumulative',
+			attr: { 'aria-label': this.options.cumulative ? 'Show the value of each point' : 'Show the running total' }
+		});
+		cumulativeButton.addEventListener('click', () => {
+			update({ cumulative: !this.options.cumulative });
+		});
+
+		// The window configured in the code block stays selectable even if it is not a preset
+		const windows = MOVING_AVERAGE_WINDOWS.includes(this.options.movingAverage) || this.options.movingAverage <= 0
+			? MOVING_AVERAGE_WINDOWS
+			: [...MOVING_AVERAGE_WINDOWS, this.options.movingAverage].sort((a, b) => a - b);
+		const averageSelect = controls.createEl('select', {
+			cls: 'time-series-average-select',
+			attr: { 'aria-label': 'Moving average' }
+		});
+		averageSelect.createEl('option', { text: 'No average', value: '0' });
+		for (const size of windows) {
+			averageSelect.createEl('option', {
+				text: `${size}-${this.options.granularity} average`,
+				value: size.toString()
+			});
+		}
+		averageSelect.value = this.options.movingAverage.toString();
+		averageSelect.addEventListener('change', () => {
+			update({ movingAverage: parseInt(averageSelect.value, 10) || 0 });
+		});
+	}
+
+	/**
+	 * Format date label for x-axis: day and month, or month and year for monthly buckets
 	 */
 	private formatDateLabel(dateString: string): string {
 		const parts = dateString.split('-');
 		if (parts.length === 3) {
 			const month = parseInt(parts[1]);
 			const day = parseInt(parts[2]);
-			const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-			return `${monthNames[month - 1]} ${day}`;
+			if (this.options.granularity === TimeSeriesGranularity.MONTH) {
+				return `${MONTH_NAMES[month - 1]} ${parts[0]}`;
+			}
+			return `${MONTH_NAMES[month - 1]} ${day}`;
 		}
 		return dateString;
 	}
@@ -328,11 +463,33 @@ export class TimeSeriesRenderer {
 
 /**
  * Helper function to build time-series data from backlink data
+ * @param bucketing Period and options to bucket the days by; without it, one point per day with data
  */
 export function buildTimeSeriesData(
 	noteResults: { notePath: string; noteTitle: string; data: DailyNoteYearlyData }[],
-	colors: string[]
+	colors: string[],
+	bucketing?: { dateRange: DateRange; options: TimeSeriesOptions; firstDayOfWeek: number; aggregation: ValueAggregation }
 ): TimeSeriesData[] {
+	if (bucketing) {
+		const { dateRange, options, firstDayOfWeek, aggregation } = bucketing;
+		const keys = TimeSeriesBucketer.getBucketKeys(dateRange, options.granularity, firstDayOfWeek);
+		return noteResults.map((result, index) => {
+			const bucketed = TimeSeriesBucketer.bucket(result.data, keys, options.granularity, firstDayOfWeek, aggregation);
+			const values = options.cumulative ? TimeSeriesBucketer.accumulate(bucketed) : bucketed;
+			const averages = options.movingAverage > 0 ? TimeSeriesBucketer.movingAverage(values, options.movingAverage) : null;
+			return {
+				noteTitle: result.noteTitle,
+				notePath: result.notePath,
+				dataPoints: keys.map((date, keyIndex) => ({
+					date,
+					count: values[keyIndex],
+					average: averages ? averages[keyIndex] : undefined
+				})),
+				color: colors[index % colors.length]
+			};
+		});
+	}
+
 	return noteResults.map((result, index) => {
 		const dataPoints: TimeSeriesDataPoint[] = [];
 		
@@ -1,4 +1,5 @@
 import { NoteCounterResult } from '../types';
+import { renderTrendIndicator } from './trend-indicator';
 
 /**
  * TopNRenderer - Renders horizontal bar charts for top-N note backlink counts
@@ -18,8 +19,9 @@ export class TopNRenderer {
 	 * Render top-N horizontal bar chart for note counter results
 	 * @param results Array of note counter results to visualize
 	 * @param periodLabel Label describing the time period (e.g., "past 30 days")
+	 * @param previousPeriodLabel Label of the previous window, used when results carry a previous count
 	 */
-	render(results: NoteCounterResult[], periodLabel: string): void {
+	render(results: NoteCounterResult[], periodLabel: string, previousPeriodLabel?: string): void {
 		// Clear container
 		this.container.empty();
 
@@ -32,7 +34,7 @@ export class TopNRenderer {
 		const sortedResults = this.sortResults(results);
 
 		// Render bar chart visualization
-		this.renderBars(sortedResults, periodLabel);
+		this.renderBars(sortedResults, periodLabel, previousPeriodLabel);
 	}
 
 	/**
@@ -50,7 +52,7 @@ export class TopNRenderer {
 	/**
 	 * Render horizontal bars visualization using HTML and CSS
 	 */
-	private renderBars(results: NoteCounterResult[], periodLabel: string): void {
+	private renderBars(results: NoteCounterResult[], periodLabel: string, previousPeriodLabel?: string): void {
 		// Clear existing content
 		this.container.empty();
 		
@@ -104,6 +106,11 @@ export class TopNRenderer {
 				text: result.count.toString(),
 				cls: 'top-n-bar-count'
 			});
+
+			// Change since the previous period
+			if (result.previousCount !== undefined && previousPeriodLabel) {
+				renderTrendIndicator(barContainer, result.count, result.previousCount, previousPeriodLabel);
+			}
 		});
 	}
 
@@ -0,0 +1,46 @@
+/**
+ * Trend indicator - shows how a count changed compared to the previous period
+ * Shared by the counter default, top-n and pie displays
+ */
+
+/**
+ * Format the change between two counts (e.g., "+3 (+25%)", "-2 (-50%)", "+4 (new)")
+ */
+export function formatTrendChange(count: number, previousCount: number): string {
+	// Rounded, as aggregated values can be fractional
+	const change = Math.round((count - previousCount) * 100) / 100;
+	if (change === 0) {
+		return 'no change';
+	}
+
+	const sign = change > 0 ? '+' : '-';
+	const absolute = `${sign}${Math.abs(change)}`;
+	if (previousCount === 0) {
+		return `${absolute} (new)`;
+	}
+
+	const percentage = Math.round((Math.abs(change) / previousCount) * 100);
+	return `${absolute} (${sign}${percentage}%)`;
+}
+
+/**
+ * Render a trend indicator: arrow, absolute and percentage change, and the previous count
+ * @param previousLabel Label of the previous window (e.g., "previous 30 days"), shown on hover
+ */
+export function renderTrendIndicator(
+	parent: HTMLElement,
+	count: number,
+	previousCount: number,
+	previousLabel: string
+): HTMLElement {
+	const direction = count > previousCount ? 'up' : (count < previousCount ? 'down' : 'flat');
+	const arrow = direction === 'up' ? '▲' : (direction === 'down' ? '▼' : '▶');
+
+	const indicator = parent.createEl('span', {
+		cls: `counter-trend counter-trend-${direction}`,
+		attr: { title: `${previousCount} in the ${previousLabel}` }
+	});
+	indicator.createEl('span', { cls: 'counter-trend-change', text: `${arrow} ${formatTrendChange(count, previousCount)}` });
+	indicator.createEl('span', { cls: 'counter-trend-previous', text: `vs ${previousCount}` });
+	return indicator;
+}
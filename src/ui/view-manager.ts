@@ -1,6 +1,6 @@
-import { App, Plugin } from 'obsidian';
+import { App, Plugin, TAbstractFile } from 'obsidian';
 import { NoteInsightsView, NOTE_INSIGHTS_VIEW_TYPE } from './note-insights-view';
-import { DailyNoteBacklinkInfo, YearBounds, MonthBounds } from '../types';
+import { DailyNoteBacklinkInfo, YearBounds, MonthBounds, InsightsTarget, InsightsSectionConfig } from '../types';
 import { BacklinkAnalysisService } from '../services/backlink-analysis-service';
 import { SettingsService } from '../services/settings-service';
 import { logger } from '../utils/logger';
@@ -15,6 +15,8 @@ export class ViewManager {
 	private view: NoteInsightsView | null = null;
 	private onYearChangeCallback?: (year: number) => void;
 	private onMonthChangeCallback?: (month: number, year: number) => void;
+	private onPinnedNotesChangeCallback?: (notePaths: string[]) => void;
+	private onSectionsChangeCallback?: (sections: InsightsSectionConfig[]) => void;
 	private analysisService: BacklinkAnalysisService;
 	private settingsService: SettingsService;
 
@@ -50,6 +52,26 @@ export class ViewManager {
 		}
 	}
 
+	/**
+	 * Set the callback persisting the notes pinned for comparison
+	 */
+	setOnPinnedNotesChangeCallback(callback: (notePaths: string[]) => void): void {
+		this.onPinnedNotesChangeCallback = callback;
+		if (this.view) {
+			this.view.setOnPinnedNotesChangeCallback(callback);
+		}
+	}
+
+	/**
+	 * Set the callback persisting the section layout of the view (collapsed sections)
+	 */
+	setOnSectionsChangeCallback(callback: (sections: InsightsSectionConfig[]) => void): void {
+		this.onSectionsChangeCallback = callback;
+		if (this.view) {
+			this.view.setOnSectionsChangeCallback(callback);
+		}
+	}
+
 	/**
 	 * Register the view with Obsidian and create it in the right sidebar
 	 */
@@ -71,6 +93,12 @@ export class ViewManager {
 				if (this.onMonthChangeCallback) {
 					view.setOnMonthChangeCallback(this.onMonthChangeCallback);
 				}
+				if (this.onPinnedNotesChangeCallback) {
+					view.setOnPinnedNotesChangeCallback(this.onPinnedNotesChangeCallback);
+				}
+				if (this.onSectionsChangeCallback) {
+					view.setOnSectionsChangeCallback(this.onSectionsChangeCallback);
+				}
 				
 				// Store reference
 				this.view = view;
@@ -79,6 +107,14 @@ export class ViewManager {
 			}
 		);
 
+		// Pinned notes follow renames and deletions, even while the view is closed
+		this.plugin.registerEvent(this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+			this.updatePinnedNotes(notePaths => notePaths.map(path => path === oldPath ? file.path : path));
+		}));
+		this.plugin.registerEvent(this.app.vault.on('delete', (file: TAbstractFile) => {
+			this.updatePinnedNotes(notePaths => notePaths.filter(path => path !== file.path));
+		}));
+
 		// Add ribbon icon to toggle the view
 		this.plugin.addRibbonIcon('bar-chart-3', 'Note insights', async () => {
 			await this.activateView();
@@ -129,6 +165,17 @@ export class ViewManager {
 		}
 	}
 
+	/**
+	 * Open the view on the aggregate insights of a folder or tag
+	 */
+	async showTarget(target: InsightsTarget): Promise<void> {
+		await this.activateView();
+		this.ensureViewReference();
+		if (this.view) {
+			this.view.showTarget(target);
+		}
+	}
+
 	/**
 	 * Ensure we have a valid view reference
 	 */
@@ -150,10 +197,33 @@ export class ViewManager {
 					 
 					this.view.setOnMonthChangeCallback(this.onMonthChangeCallback);
 				}
+				if (this.onPinnedNotesChangeCallback) {
+					this.view.setOnPinnedNotesChangeCallback(this.onPinnedNotesChangeCallback);
+				}
+				if (this.onSectionsChangeCallback) {
+					this.view.setOnSectionsChangeCallback(this.onSectionsChangeCallback);
+				}
 			}
 		}
 	}
 
+	/**
+	 * Apply a change to the pinned notes, persisting it only when a pinned note is affected
+	 */
+	private updatePinnedNotes(update: (notePaths: string[]) => string[]): void {
+		const notePaths = this.settingsService.getSettings().pinnedNotes;
+		const updated = update(notePaths);
+		if (updated.length === notePaths.length && updated.every((path, index) => path === notePaths[index])) {
+			return;
+		}
+		if (this.onPinnedNotesChangeCallback) {
+			this.onPinnedNotesChangeCallback(updated);
+		}
+		if (this.view) {
+			this.view.setPinnedNotes(updated);
+		}
+	}
+
 	/**
 	 * Clear the view when no note is active
 	 */
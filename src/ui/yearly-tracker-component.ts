@@ -1,6 +1,14 @@
 import { App, TFile } from 'obsidian';
-import { DailyNoteYearlyData, DailyNoteBacklinkSummary, YearNavigationState, YearBounds } from '../types';
+import { DailyNoteYearlyData, DailyNoteBacklinkSummary, DataTable, ValueAggregation, TrackerCombineMode, TrackerSeries, YearNavigationState, YearBounds, YearlyTrackerWindow } from '../types';
 import { DailyNoteClassifier } from '../utils/daily-note-classifier';
+import { DataExporter } from '../utils/data-exporter';
+import { DateRangeCalculator } from '../utils/date-range-calculator';
+import { StreakCalculator } from '../utils/streak-calculator';
+import { ValueAggregator } from '../utils/value-aggregator';
+import { BacklinkLinesPopover } from './backlink-lines-popover';
+import { renderExportButton } from './export-button';
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
 
 /**
  * Component that renders a yearly tracker (git-style grid) showing daily note backlinks
@@ -15,15 +23,34 @@ export class YearlyTrackerComponent {
 	private yearBounds: YearBounds;
 	private onYearChangeCallback?: (year: number) => void;
 	private watchedNotePath: string | null = null;
-
-	constructor(app: App, container: HTMLElement, onYearChange?: (year: number) => void) {
+	private sourceTitle: string | null = null; // Title of a tag or property signal source
+	private aggregation: ValueAggregation = ValueAggregation.COUNT; // Weighted counting: days hold aggregated values
+	private series: TrackerSeries[] = []; // Watched notes of a multi-note tracker
+	private combineMode: TrackerCombineMode = TrackerCombineMode.SUM;
+	private window: YearlyTrackerWindow = YearlyTrackerWindow.CALENDAR_YEAR;
+	private windowEnd: { month: number; year: number }; // Last month of the rolling window
+	private onWindowChangeCallback?: (month: number, year: number) => void;
+	private classifier: DailyNoteClassifier;
+	private popover = new BacklinkLinesPopover('yearly-tracker');
+
+	constructor(
+		app: App,
+		container: HTMLElement,
+		onYearChange?: (year: number) => void,
+		classifier?: DailyNoteClassifier,
+		onWindowChange?: (month: number, year: number) => void
+	) {
 		this.app = app;
 		this.container = container;
+		this.classifier = classifier ?? new DailyNoteClassifier(app);
 		this.yearlyData = {};
 		this.onYearChangeCallback = onYearChange;
+		this.onWindowChangeCallback = onWindowChange;
 		
 		// Initialize with current year
-		const currentYear = new Date().getFullYear();
+		const now = new Date();
+		const currentYear = now.getFullYear();
+		this.windowEnd = { month: now.getMonth(), year: currentYear };
 		this.navigationState = {
 			currentYear,
 			minYear: currentYear - 10, // Default reasonable bounds
@@ -46,6 +73,32 @@ export class YearlyTrackerComponent {
 		this.render();
 	}
 
+	/**
+	 * Update the tracker with several watched notes
+	 * Sum mode colors each day by the merged intensity; split mode divides the day into one segment per note
+	 */
+	updateSeries(series: TrackerSeries[], combineMode: TrackerCombineMode): void {
+		this.series = series;
+		this.combineMode = combineMode;
+		this.yearlyData = ValueAggregator.mergeDays(series.map(item => item.data), this.aggregation);
+		this.render();
+	}
+
+	/**
+	 * Set the title shown when tracking a signal source other than links to a note
+	 */
+	setSourceTitle(title: string): void {
+		this.sourceTitle = title;
+	}
+
+	/**
+	 * Set how the values logged on each day were aggregated (count by default)
+	 * Other aggregations scale the colors to the largest value shown
+	 */
+	setAggregation(aggregation: ValueAggregation): void {
+		this.aggregation = aggregation;
+	}
+
 	/**
 	 * Set the watched note path
 	 */
@@ -94,6 +147,38 @@ export class YearlyTrackerComponent {
 		return this.navigationState.currentYear;
 	}
 
+	/**
+	 * Show the selected calendar year (default) or a rolling 12 months window
+	 * The data passed to updateData/updateSeries must then cover the window (see DateRangeCalculator.calculateRollingYearRange)
+	 */
+	setWindow(window: YearlyTrackerWindow): void {
+		this.window = window;
+	}
+
+	/**
+	 * Set the last month of the rolling window; the window of the current month ends today
+	 */
+	setWindowEnd(month: number, year: number, notify: boolean = true): void {
+		const monthIndex = year * 12 + month;
+		if (monthIndex < this.getMinWindowEnd() || monthIndex > this.getMaxWindowEnd()) {
+			return; // Invalid month
+		}
+
+		this.windowEnd = { month, year };
+		this.render();
+
+		if (notify && this.onWindowChangeCallback) {
+			this.onWindowChangeCallback(month, year);
+		}
+	}
+
+	/**
+	 * Get the last month of the rolling window
+	 */
+	getWindowEnd(): { month: number; year: number } {
+		return { ...this.windowEnd };
+	}
+
 	/**
 	 * Clear the tracker
 	 */
@@ -106,6 +191,7 @@ export class YearlyTrackerComponent {
 	 * Render the yearly tracker grid
 	 */
 	private render(): void {
+		this.popover.hide();
 		this.container.empty();
 
 		// Create tracker container
@@ -115,20 +201,23 @@ export class YearlyTrackerComponent {
 		// Create watched note title header if available (FEA002 Requirement 4)
 		if (this.watchedNotePath) {
 			this.createNoteHeader(trackerContainer);
+		} else if (this.sourceTitle) {
+			trackerContainer.createEl('div', { cls: 'yearly-tracker-note-header' })
+				.createEl('h4', { text: this.sourceTitle, cls: 'yearly-tracker-note-title yearly-tracker-source-title' });
 		}
 
-		// Create header with year navigation
-		this.createHeader(trackerContainer);
+		// Create header with year navigation and the export action
+		const header = this.createHeader(trackerContainer);
+		renderExportButton(this.app, header, () => trackerContainer, `${this.getExportTitle()} yearly tracker`, () => this.getExportData());
 
 		// Create grid container
 		const gridContainer = trackerContainer.createEl('div', { cls: 'yearly-tracker-grid' });
 
-		// Generate all days for selected year
-		const selectedYear = this.navigationState.currentYear;
-		const days = this.generateYearDays(selectedYear);
+		// Generate all days for selected year (or the 53 weeks of the rolling window)
+		const days = this.isRollingWindow() ? this.generateWindowDays() : this.generateYearDays(this.navigationState.currentYear);
 
 		// Create month labels
-		this.createMonthLabels(gridContainer, selectedYear);
+		this.createMonthLabels(gridContainer);
 
 		// Create day grid
 		const dayGrid = gridContainer.createEl('div', { cls: 'yearly-tracker-days' });
@@ -139,8 +228,46 @@ export class YearlyTrackerComponent {
 		// Create day squares
 		this.createDaySquares(dayGrid, days);
 
-		// Create legend
-		this.createLegend(trackerContainer);
+		// Create legend (the notes and their colors when days are split)
+		if (this.isSplit()) {
+			this.createSeriesLegend(trackerContainer);
+		} else {
+			this.createLegend(trackerContainer);
+		}
+
+		// Habit statistics of the days shown
+		this.createStreakSummary(trackerContainer, days);
+	}
+
+	/**
+	 * Whether the tracker shows a rolling 12 months window instead of a calendar year
+	 */
+	private isRollingWindow(): boolean {
+		return this.window === YearlyTrackerWindow.ROLLING_12_MONTHS;
+	}
+
+	/**
+	 * Earliest last month of the rolling window (as year * 12 + month): January of the first year with data
+	 */
+	private getMinWindowEnd(): number {
+		return this.yearBounds.minYear * 12;
+	}
+
+	/**
+	 * Latest last month of the rolling window: the current month, unless data goes past the current year
+	 */
+	private getMaxWindowEnd(): number {
+		const now = new Date();
+		return this.yearBounds.maxYear > now.getFullYear()
+			? this.yearBounds.maxYear * 12 + 11
+			: now.getFullYear() * 12 + now.getMonth();
+	}
+
+	/**
+	 * Whether days are divided into one color segment per watched note
+	 */
+	private isSplit(): boolean {
+		return this.combineMode === TrackerCombineMode.SPLIT && this.series.length > 1;
 	}
 
 	/**
@@ -172,15 +299,22 @@ export class YearlyTrackerComponent {
 	/**
 	 * Create header with title and year navigation controls
 	 */
-	private createHeader(container: HTMLElement): void {
+	private createHeader(container: HTMLElement): HTMLElement {
 		const header = container.createEl('div', { cls: 'yearly-tracker-header' });
 		
 		// Title
 		header.createEl('div', {
-			text: 'Daily note backlinks',
+			text: this.aggregation !== ValueAggregation.COUNT
+				? `Daily note ${ValueAggregator.getLabel(this.aggregation)}`
+				: 'Daily note backlinks',
 			cls: 'yearly-tracker-title'
 		});
 
+		if (this.isRollingWindow()) {
+			this.createWindowNav(header);
+			return header;
+		}
+
 		// Year navigation controls
 		const yearNav = header.createEl('div', { cls: 'yearly-tracker-year-nav' });
 		
@@ -213,11 +347,78 @@ export class YearlyTrackerComponent {
 				this.setCurrentYear(this.navigationState.currentYear + 1);
 			}
 		});
+
+		return header;
+	}
+
+	/**
+	 * Title used to name exported images: the watched note, the signal source or the group
+	 */
+	private getExportTitle(): string {
+		if (this.watchedNotePath) {
+			return this.watchedNotePath.split('/').pop()?.replace('.md', '') ?? 'Note';
+		}
+		return this.sourceTitle ?? 'Daily notes';
+	}
+
+	/**
+	 * Numbers shown by the tracker: one row per day of the year (or of the rolling window), one column per watched note
+	 */
+	private getExportData(): DataTable {
+		const days = this.isRollingWindow() ? this.generateWindowDays() : this.generateYearDays(this.navigationState.currentYear);
+		const series = this.series.length > 1
+			? this.series.map(item => ({ title: item.noteTitle, data: item.data }))
+			: [{ title: this.getExportTitle(), data: this.yearlyData }];
+		return DataExporter.buildDailyTable(days.map(day => this.formatDateString(day)), series);
 	}
 
+	/**
+	 * Create rolling window navigation controls: shift the window by one month
+	 */
+	private createWindowNav(header: HTMLElement): void {
+		const windowNav = header.createEl('div', { cls: 'yearly-tracker-year-nav' });
+		const { month, year } = this.windowEnd;
+		const monthIndex = year * 12 + month;
+
+		const prevButton = windowNav.createEl('button', {
+			text: '‹',
+			cls: 'yearly-tracker-year-btn yearly-tracker-year-prev'
+		});
+		prevButton.disabled = monthIndex <= this.getMinWindowEnd();
+		prevButton.addEventListener('click', () => {
+			this.setWindowEnd((month + 11) % 12, month === 0 ? year - 1 : year);
+		});
 
+		// Window display (e.g., "Nov 2025 – Oct 2026")
+		const { startDate, endDate } = DateRangeCalculator.calculateRollingYearRange(month, year);
+		windowNav.createEl('span', {
+			text: `${MONTH_LABELS[startDate.getMonth()]} ${startDate.getFullYear()} – ${MONTH_LABELS[endDate.getMonth()]} ${endDate.getFullYear()}`,
+			cls: 'yearly-tracker-current-year yearly-tracker-current-window'
+		});
 
+		const nextButton = windowNav.createEl('button', {
+			text: '›',
+			cls: 'yearly-tracker-year-btn yearly-tracker-year-next'
+		});
+		nextButton.disabled = monthIndex >= this.getMaxWindowEnd();
+		nextButton.addEventListener('click', () => {
+			this.setWindowEnd((month + 1) % 12, month === 11 ? year + 1 : year);
+		});
+	}
 
+	/**
+	 * Generate all days of the rolling window, starting on a Monday
+	 */
+	private generateWindowDays(): Date[] {
+		const days: Date[] = [];
+		const { startDate, endDate } = DateRangeCalculator.calculateRollingYearRange(this.windowEnd.month, this.windowEnd.year);
+
+		for (let date = new Date(startDate); date <= endDate; date.setDate(date.getDate() + 1)) {
+			days.push(new Date(date));
+		}
+
+		return days;
+	}
 
 	/**
 	 * Generate all days for the given year
@@ -237,18 +438,17 @@ export class YearlyTrackerComponent {
 	/**
 	 * Create month labels above the grid
 	 */
-	private createMonthLabels(container: HTMLElement, _year: number): void {
+	private createMonthLabels(container: HTMLElement): void {
 		const monthsContainer = container.createEl('div', { cls: 'yearly-tracker-months' });
 		
-		const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 
-		              'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-		
-		months.forEach(month => {
+		// A rolling window starts with the month after its last month
+		const firstMonth = this.isRollingWindow() ? (this.windowEnd.month + 1) % 12 : 0;
+		for (let i = 0; i < 12; i++) {
 			monthsContainer.createEl('div', {
-				text: month,
+				text: MONTH_LABELS[(firstMonth + i) % 12],
 				cls: 'yearly-tracker-month-label'
 			});
-		});
+		}
 	}
 
 	/**
@@ -284,21 +484,55 @@ export class YearlyTrackerComponent {
 			squaresContainer.createEl('div', { cls: 'yearly-tracker-square yearly-tracker-square-empty' });
 		}
 
+		const scaleMax = this.getScaleMax();
+
 		// Create squares for each day
 		days.forEach(date => {
 			const dateString = this.formatDateString(date);
 			const summary: DailyNoteBacklinkSummary = this.yearlyData[dateString] || { linkCount: 0 };
-			const intensity = this.calculateIntensity(summary.linkCount);
+			const intensity = this.calculateIntensity(summary.linkCount, scaleMax);
 
 			const square = squaresContainer.createEl('div', { 
 				cls: `yearly-tracker-square yearly-tracker-square-intensity-${intensity}` 
 			});
+			if (summary.linkCount > 0 && this.isSplit()) {
+				this.createSegments(square, dateString);
+			}
 
 			// Add tooltip with summary
 			this.addTooltip(square, date, summary);
 		});
 	}
 
+	/**
+	 * Divide a day square into segments sized by each note's count, in the note colors
+	 */
+	private createSegments(square: HTMLElement, dateString: string): void {
+		square.addClass('yearly-tracker-square-split');
+		for (const item of this.series) {
+			const value = item.data[dateString]?.linkCount ?? 0;
+			if (value <= 0) {
+				continue;
+			}
+			const segment = square.createEl('div', { cls: 'yearly-tracker-square-segment' });
+			segment.style.backgroundColor = item.color;
+			segment.style.flexGrow = value.toString();
+		}
+	}
+
+	/**
+	 * Create the legend of a split tracker: one color per watched note
+	 */
+	private createSeriesLegend(container: HTMLElement): void {
+		const legendContainer = container.createEl('div', { cls: 'yearly-tracker-legend yearly-tracker-series-legend' });
+		for (const item of this.series) {
+			const legendItem = legendContainer.createEl('span', { cls: 'yearly-tracker-series-legend-item' });
+			const color = legendItem.createEl('span', { cls: 'yearly-tracker-series-legend-color' });
+			color.style.backgroundColor = item.color;
+			legendItem.createEl('span', { text: item.noteTitle, cls: 'yearly-tracker-legend-label' });
+		}
+	}
+
 	/**
 	 * Create intensity legend
 	 */
@@ -323,6 +557,31 @@ export class YearlyTrackerComponent {
 		});
 	}
 
+	/**
+	 * Create the summary row: streaks, active days, average gap and most active weekday
+	 */
+	private createStreakSummary(container: HTMLElement, days: Date[]): void {
+		const stats = StreakCalculator.calculate(this.yearlyData, { startDate: days[0], endDate: days[days.length - 1] });
+		const summary = container.createEl('div', { cls: 'yearly-tracker-streak-summary' });
+
+		const items = [
+			`Current streak: ${StreakCalculator.formatDays(stats.currentStreak)}`,
+			`Longest: ${StreakCalculator.formatDays(stats.longestStreak)}`,
+			`Active days: ${stats.activeDays}`
+		];
+		if (stats.averageGap !== null) {
+			items.push(`Average gap: ${StreakCalculator.formatDays(stats.averageGap)}`);
+		}
+		const mostActiveWeekday = StreakCalculator.getMostActiveWeekday(stats);
+		if (mostActiveWeekday !== null) {
+			items.push(`Most active: ${StreakCalculator.getWeekdayLabel(mostActiveWeekday)}`);
+		}
+
+		for (const item of items) {
+			summary.createEl('span', { text: item, cls: 'yearly-tracker-streak-item' });
+		}
+	}
+
 	/**
 	 * Format date as YYYY-MM-DD string
 	 */
@@ -336,14 +595,25 @@ export class YearlyTrackerComponent {
 	/**
 	 * Calculate intensity level (0-4) based on link count
 	 */
-	private calculateIntensity(linkCount: number): number {
-		if (linkCount === 0) return 0;
+	private calculateIntensity(linkCount: number, scaleMax: number): number {
+		if (linkCount <= 0) return 0;
+		if (this.aggregation !== ValueAggregation.COUNT) {
+			// Values have any range (km, hours...): split the range up to the largest value in 4 steps
+			return Math.min(4, Math.max(1, Math.ceil((linkCount / scaleMax) * 4)));
+		}
 		if (linkCount === 1) return 1;
 		if (linkCount === 2) return 2;
 		if (linkCount <= 4) return 3;
 		return 4; // 5+ links get max intensity
 	}
 
+	/**
+	 * Largest value shown, used to scale the colors of aggregated values
+	 */
+	private getScaleMax(): number {
+		return Object.values(this.yearlyData).reduce((max, summary) => Math.max(max, summary.linkCount), 0);
+	}
+
 	/**
 	 * Add tooltip to a day square
 	 */
@@ -359,13 +629,33 @@ export class YearlyTrackerComponent {
 		});
 
 		let ariaText: string;
+		const valueLabel = this.aggregation !== ValueAggregation.COUNT ? ValueAggregator.getLabel(this.aggregation) : undefined;
 		if (summary.linkCount === 0) {
 			ariaText = `No backlinks on ${dateString}`;
+		} else if (valueLabel) {
+			ariaText = `${ValueAggregator.format(summary.linkCount)} ${valueLabel} on ${dateString}`;
 		} else {
 			ariaText = `${summary.linkCount} backlink${summary.linkCount > 1 ? 's' : ''} on ${dateString}`;
 		}
+		// Per-note breakdown of multi-note trackers (e.g., "Yoga: 2, Running: 1")
+		const dayKey = this.formatDateString(date);
+		const breakdown = this.series
+			.filter(item => (item.data[dayKey]?.linkCount ?? 0) > 0)
+			.map(item => `${item.noteTitle}: ${ValueAggregator.format(item.data[dayKey].linkCount)}`);
+		if (summary.linkCount > 0 && breakdown.length > 0) {
+			ariaText += ` (${breakdown.join(', ')})`;
+		}
 		element.setAttribute('aria-label', ariaText);
 
+		// Rich popover with the lines that link to the watched notes, loaded on first hover
+		element.addEventListener('mouseenter', () => {
+			const loadLines = this.watchedNotePath || this.series.length > 0 ? () => this.loadBacklinkLines(date) : undefined;
+			this.popover.show(element, date, summary, loadLines, valueLabel);
+		});
+		element.addEventListener('mouseleave', () => {
+			this.popover.hide();
+		});
+
 		// FEA002 Requirement 5: Make days with backlinks clickable
 		if (summary.linkCount > 0) {
 			element.addClass('yearly-tracker-square-clickable');
@@ -376,13 +666,36 @@ export class YearlyTrackerComponent {
 
 	}
 
+	/**
+	 * Get the lines of the daily notes for a date that link to the watched note(s)
+	 * Several daily notes can share a date; the lines of each of them are listed
+	 */
+	private async loadBacklinkLines(date: Date): Promise<string[]> {
+		// The daily notes of the day were kept when the day data was built, so the vault is not scanned
+		const dateString = this.formatDateString(date);
+		const lookups: Promise<string[]>[] = [];
+		if (this.series.length > 0) {
+			for (const item of this.series) {
+				for (const file of item.data[dateString]?.files ?? []) {
+					lookups.push(this.classifier.getBacklinkLines(file, item.notePath));
+				}
+			}
+		} else if (this.watchedNotePath) {
+			for (const file of this.yearlyData[dateString]?.files ?? []) {
+				lookups.push(this.classifier.getBacklinkLines(file, this.watchedNotePath));
+			}
+		}
+		const linesPerLookup = await Promise.all(lookups);
+		// A line linking several watched notes is listed once
+		return Array.from(new Set(linesPerLookup.reduce((all, lines) => all.concat(lines), [])));
+	}
+
 	/**
 	 * Open the daily note for a specific date
 	 * FEA002 Requirement 5: Click on day to open corresponding daily note
 	 */
 	private async openDailyNote(date: Date): Promise<void> {
-		const classifier = new DailyNoteClassifier(this.app);
-		const file = classifier.findDailyNote(date);
+		const file = this.classifier.findDailyNote(date);
 		
 		if (file) {
 			await this.app.workspace.getLeaf(false).openFile(file);
@@ -390,6 +703,7 @@ export class YearlyTrackerComponent {
 	}
 
 	public cleanup(): void {
-		// No special cleanup needed for this component
+		// The popover lives in document.body, outside the container
+		this.popover.hide();
 	}
 }
@@ -1,84 +1,338 @@
-import { App, TFile } from 'obsidian';
-import { BacklinkInfo, DailyNoteYearlyData, YearBounds, MonthBounds } from '../types';
+import { App, TFile, getLinkpath } from 'obsidian';
+import { BacklinkInfo, DailyNoteYearlyData, YearBounds, MonthBounds, DailyNoteDetectionMode, DateRange, PeriodicGranularity, PeriodicNoteSpan } from '../types';
+import { SettingsService } from '../services/settings-service';
+import { DateFormatParser, ParsedPeriodParts } from './date-format-parser';
+import { DateRangeCalculator } from './date-range-calculator';
+
+/**
+ * Periodic notes location and naming as configured in Obsidian
+ */
+interface PeriodicNoteSettings {
+	folder: string;
+	format: string;
+}
+
+/**
+ * Default formats, matching those of the Daily Notes and Periodic Notes plugins
+ */
+const DEFAULT_FORMATS: Record<PeriodicGranularity, string> = {
+	[PeriodicGranularity.DAY]: 'YYYY-MM-DD',
+	[PeriodicGranularity.WEEK]: 'gggg-[W]ww',
+	[PeriodicGranularity.MONTH]: 'YYYY-MM',
+	[PeriodicGranularity.QUARTER]: 'YYYY-[Q]Q'
+};
+
+/**
+ * Keys of each granularity in the Periodic Notes plugin settings
+ */
+const PERIODIC_NOTES_KEYS: Record<PeriodicGranularity, string> = {
+	[PeriodicGranularity.DAY]: 'daily',
+	[PeriodicGranularity.WEEK]: 'weekly',
+	[PeriodicGranularity.MONTH]: 'monthly',
+	[PeriodicGranularity.QUARTER]: 'quarterly'
+};
 
 /**
  * Utility class for identifying and working with daily notes
  */
 export class DailyNoteClassifier {
 	private app: App;
+	private settingsService?: SettingsService;
+	private parsers: Map<string, DateFormatParser> = new Map();
 
-	constructor(app: App) {
+	/**
+	 * @param settingsService Optional - provides the detection mode; file names only when omitted
+	 */
+	constructor(app: App, settingsService?: SettingsService) {
 		this.app = app;
+		this.settingsService = settingsService;
 	}
 
 	/**
-	 * Get the daily notes folder path from Obsidian settings
+	 * Get the configured daily note detection strategy
 	 */
-	private getDailyNotesFolder(): string {
+	private getDetectionMode(): DailyNoteDetectionMode {
+		return this.settingsService?.getSettings().dailyNoteDetectionMode ?? DailyNoteDetectionMode.FILENAME;
+	}
+
+	/**
+	 * Get the Periodic Notes plugin settings for a granularity, or undefined when the plugin is not installed
+	 */
+	private getPeriodicNotesPluginSettings(granularity: PeriodicGranularity): Record<string, unknown> | undefined {
+		// Access plugin settings using type narrowing
+		const communityPlugins = (this.app as unknown as Record<string, unknown>).plugins as Record<string, unknown> | undefined;
+		const periodicNotesPlugin = (communityPlugins?.plugins as Record<string, unknown> | undefined)?.['periodic-notes'] as Record<string, unknown> | undefined;
+		const periodicSettings = periodicNotesPlugin?.settings as Record<string, unknown> | undefined;
+		return periodicSettings?.[PERIODIC_NOTES_KEYS[granularity]] as Record<string, unknown> | undefined;
+	}
+
+	/**
+	 * Get the daily notes folder and date format from Obsidian settings
+	 * Periodic Notes takes precedence over the core Daily Notes plugin when its daily notes are enabled
+	 */
+	private getDailyNoteSettings(): PeriodicNoteSettings {
 		try {
-			// Access daily notes plugin settings using type narrowing
+			const periodicDaily = this.getPeriodicNotesPluginSettings(PeriodicGranularity.DAY);
+			if (periodicDaily?.enabled) {
+				return this.normalizeSettings(PeriodicGranularity.DAY, periodicDaily.folder, periodicDaily.format);
+			}
+
 			const internalPlugins = (this.app as unknown as Record<string, unknown>).internalPlugins as Record<string, unknown> | undefined;
 			const plugins = internalPlugins?.plugins as Record<string, unknown> | undefined;
 			const dailyNotesPlugin = plugins?.['daily-notes'] as Record<string, unknown> | undefined;
 			const instance = dailyNotesPlugin?.instance as Record<string, unknown> | undefined;
 			const options = instance?.options as Record<string, unknown> | undefined;
-			return (options?.folder as string) || '';
+			return this.normalizeSettings(PeriodicGranularity.DAY, options?.folder, options?.format);
 		} catch {
-			return '';
+			return { folder: '', format: DEFAULT_FORMATS[PeriodicGranularity.DAY] };
 		}
 	}
 
 	/**
-	 * Check if a file path represents a daily note for the current month
+	 * Get folder and format for weekly, monthly or quarterly notes
+	 * Uses Periodic Notes settings when installed (null if that granularity is disabled),
+	 * otherwise the default format anywhere in the vault
 	 */
-	isDailyNoteFromCurrentMonth(file: TFile): boolean {
-		// Get the daily notes folder
-		const dailyNotesFolder = this.getDailyNotesFolder();
-		
-		// Check if file is in the daily notes folder
-		if (dailyNotesFolder && !file.path.startsWith(dailyNotesFolder)) {
-			return false;
+	private getPeriodicNoteSettings(granularity: PeriodicGranularity): PeriodicNoteSettings | null {
+		if (granularity === PeriodicGranularity.DAY) {
+			return this.getDailyNoteSettings();
 		}
 
-		// Extract date from filename using YYYY-MM-DD pattern
-		const dateMatch = file.basename.match(/(\d{4})-(\d{2})-(\d{2})/);
-		if (!dateMatch) {
-			return false;
+		try {
+			const periodic = this.getPeriodicNotesPluginSettings(granularity);
+			if (!periodic) {
+				return { folder: '', format: DEFAULT_FORMATS[granularity] };
+			}
+			return periodic.enabled ? this.normalizeSettings(granularity, periodic.folder, periodic.format) : null;
+		} catch {
+			return { folder: '', format: DEFAULT_FORMATS[granularity] };
 		}
+	}
 
-		const [, year, month] = dateMatch;
-		const fileDate = new Date(parseInt(year), parseInt(month) - 1); // month is 0-indexed
+	/**
+	 * Fill in defaults and strip surrounding slashes from the folder path
+	 */
+	private normalizeSettings(granularity: PeriodicGranularity, folder: unknown, format: unknown): PeriodicNoteSettings {
+		return {
+			folder: typeof folder === 'string' ? folder.trim().replace(/^\/+|\/+$/g, '') : '',
+			format: typeof format === 'string' && format.trim() ? format.trim() : DEFAULT_FORMATS[granularity]
+		};
+	}
 
-		// Get current month/year
-		const now = new Date();
-		const currentYear = now.getFullYear();
-		const currentMonth = now.getMonth();
+	/**
+	 * Get a parser for a format, compiling it on first use
+	 */
+	private getParser(format: string): DateFormatParser {
+		let parser = this.parsers.get(format);
+		if (!parser) {
+			parser = new DateFormatParser(format);
+			this.parsers.set(format, parser);
+		}
+		return parser;
+	}
 
-		return fileDate.getFullYear() === currentYear && fileDate.getMonth() === currentMonth;
+	/**
+	 * Get parsers for a format and for its last path segment
+	 * The basename parser only uses the last path segment of formats such as YYYY/MM/YYYY-MM-DD
+	 */
+	private getParsers(format: string): { parser: DateFormatParser; basenameParser: DateFormatParser } {
+		const lastSegment = format.substring(format.lastIndexOf('/') + 1);
+		return { parser: this.getParser(format), basenameParser: this.getParser(lastSegment) };
 	}
 
 	/**
-	 * Check if a file path represents a daily note for a specific year
+	 * Get the path of a file relative to a periodic notes folder, without extension
+	 * Returns null when the file lies outside the folder
 	 */
-	isDailyNoteFromYear(file: TFile, year: number): boolean {
-		// Get the daily notes folder
-		const dailyNotesFolder = this.getDailyNotesFolder();
-		
+	private getRelativePath(file: TFile, folder: string): string | null {
+		if (folder && !file.path.startsWith(`${folder}/`)) {
+			return null;
+		}
+		return (folder ? file.path.substring(folder.length + 1) : file.path).replace(/\.md$/, '');
+	}
+
+	/**
+	 * Parse the date of a daily note, or return null if the file is not a daily note
+	 * All daily note checks go through this method
+	 */
+	parseDailyNoteDate(file: TFile): Date | null {
+		const mode = this.getDetectionMode();
+		if (mode !== DailyNoteDetectionMode.FILENAME) {
+			const frontmatterDate = this.parseFrontmatterDate(file);
+			if (frontmatterDate || mode === DailyNoteDetectionMode.FRONTMATTER) {
+				return frontmatterDate;
+			}
+		}
+		return this.parseFilenameDate(file);
+	}
+
+	/**
+	 * Read the journal date from the configured frontmatter property
+	 * Not restricted to the daily notes folder: the property itself marks the note as a journal entry
+	 */
+	private parseFrontmatterDate(file: TFile): Date | null {
+		const key = this.settingsService?.getSettings().dailyNoteDateProperty?.trim();
+		if (!key) {
+			return null;
+		}
+
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		let value: unknown = frontmatter?.[key];
+		if (Array.isArray(value)) {
+			value = value[0];
+		}
+		if (typeof value !== 'string' || !value.trim()) {
+			return null;
+		}
+
+		// Date and datetime properties are stored as ISO strings; also accept the daily note format
+		const text = value.trim();
+		const isoMatch = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+		if (isoMatch) {
+			const date = new Date(parseInt(isoMatch[1]), parseInt(isoMatch[2]) - 1, parseInt(isoMatch[3]));
+			return date.getMonth() === parseInt(isoMatch[2]) - 1 ? date : null;
+		}
+
+		const { format } = this.getDailyNoteSettings();
+		const parts = this.getParsers(format).basenameParser.parse(text);
+		return parts ? new Date(parts.year, parts.month, parts.day) : null;
+	}
+
+	/**
+	 * Parse the journal date from the file path using the daily notes folder and format
+	 */
+	private parseFilenameDate(file: TFile): Date | null {
+		const { folder, format } = this.getDailyNoteSettings();
+
 		// Check if file is in the daily notes folder
-		if (dailyNotesFolder && !file.path.startsWith(dailyNotesFolder)) {
-			return false;
+		const relativePath = this.getRelativePath(file, folder);
+		if (relativePath === null) {
+			return null;
 		}
 
-		// Extract date from filename using YYYY-MM-DD pattern
-		const dateMatch = file.basename.match(/(\d{4})-(\d{2})-(\d{2})/);
-		if (!dateMatch) {
-			return false;
+		// Match the path relative to the daily notes folder first (handles nested formats),
+		// then fall back to finding the date in the file name
+		const { parser, basenameParser } = this.getParsers(format);
+		const parts = parser.parse(relativePath) ?? basenameParser.search(file.basename);
+		if (!parts) {
+			return null;
+		}
+
+		return new Date(parts.year, parts.month, parts.day);
+	}
+
+	/**
+	 * Get the date span covered by a periodic note, or null if the file is not one of the given granularities
+	 * Daily notes are always checked first; they span a single day
+	 */
+	getPeriodicNoteSpan(file: TFile, granularities: PeriodicGranularity[] = [PeriodicGranularity.DAY]): PeriodicNoteSpan | null {
+		if (granularities.includes(PeriodicGranularity.DAY)) {
+			const date = this.parseDailyNoteDate(file);
+			if (date) {
+				return {
+					granularity: PeriodicGranularity.DAY,
+					startDate: date,
+					endDate: new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999)
+				};
+			}
+		}
+
+		for (const granularity of [PeriodicGranularity.WEEK, PeriodicGranularity.MONTH, PeriodicGranularity.QUARTER]) {
+			if (!granularities.includes(granularity)) {
+				continue;
+			}
+			const settings = this.getPeriodicNoteSettings(granularity);
+			const relativePath = settings ? this.getRelativePath(file, settings.folder) : null;
+			if (!settings || relativePath === null) {
+				continue;
+			}
+
+			// Periodic names are short, so only whole-name matches are accepted
+			const { parser, basenameParser } = this.getParsers(settings.format);
+			const parts = parser.parsePeriod(relativePath) ?? basenameParser.parsePeriod(file.basename);
+			const span = parts ? this.computeSpan(granularity, parts) : null;
+			if (span) {
+				return span;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Turn parsed period components into the span of days they cover
+	 */
+	private computeSpan(granularity: PeriodicGranularity, parts: ParsedPeriodParts): PeriodicNoteSpan | null {
+		let start: Date;
+		let end: Date;
+
+		switch (granularity) {
+			case PeriodicGranularity.WEEK: {
+				const weekYear = parts.weekYear ?? parts.year;
+				if (weekYear === undefined || parts.week === undefined || parts.week < 1 || parts.week > 53) {
+					return null;
+				}
+				start = this.getWeekStart(weekYear, parts.week, parts.isoWeek ?? false);
+				end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 6);
+				break;
+			}
+			case PeriodicGranularity.MONTH:
+				if (parts.year === undefined || parts.month === undefined || parts.month < 0 || parts.month > 11) {
+					return null;
+				}
+				start = new Date(parts.year, parts.month, 1);
+				end = new Date(parts.year, parts.month + 1, 0);
+				break;
+			case PeriodicGranularity.QUARTER:
+				if (parts.year === undefined || parts.quarter === undefined) {
+					return null;
+				}
+				start = new Date(parts.year, (parts.quarter - 1) * 3, 1);
+				end = new Date(parts.year, parts.quarter * 3, 0);
+				break;
+			default:
+				return null;
 		}
 
-		const [, yearStr] = dateMatch;
-		const fileYear = parseInt(yearStr);
+		end.setHours(23, 59, 59, 999);
+		return { granularity, startDate: start, endDate: end };
+	}
+
+	/**
+	 * Get the first day of a week number
+	 * ISO weeks start on Monday, week 1 containing January 4th; locale weeks start on the
+	 * configured first day of week, week 1 containing January 1st
+	 */
+	private getWeekStart(weekYear: number, week: number, isoWeek: boolean): Date {
+		const firstDayOfWeek = isoWeek ? 1 : (this.settingsService?.getSettings().firstDayOfWeek ?? 1);
+		const anchor = new Date(weekYear, 0, isoWeek ? 4 : 1);
+		const offset = (anchor.getDay() - firstDayOfWeek + 7) % 7;
+		return new Date(weekYear, 0, anchor.getDate() - offset + (week - 1) * 7);
+	}
+
+	/**
+	 * Format a date as a YYYY-MM-DD key, as used by DailyNoteYearlyData
+	 */
+	private toDateKey(date: Date): string {
+		const year = date.getFullYear();
+		const month = String(date.getMonth() + 1).padStart(2, '0');
+		const day = String(date.getDate()).padStart(2, '0');
+		return `${year}-${month}-${day}`;
+	}
 
-		return fileYear === year;
+	/**
+	 * Check if a file path represents a daily note for the current month
+	 */
+	isDailyNoteFromCurrentMonth(file: TFile): boolean {
+		const now = new Date();
+		return this.isDailyNoteFromMonth(file, now.getMonth(), now.getFullYear());
+	}
+
+	/**
+	 * Check if a file path represents a daily note for a specific year
+	 */
+	isDailyNoteFromYear(file: TFile, year: number): boolean {
+		const fileDate = this.parseDailyNoteDate(file);
+		return fileDate !== null && fileDate.getFullYear() === year;
 	}
 
 	/**
@@ -110,28 +364,15 @@ export class DailyNoteClassifier {
 	 * Check if a file is a daily note (regardless of year)
 	 */
 	isDailyNote(file: TFile): boolean {
-		// Get the daily notes folder
-		const dailyNotesFolder = this.getDailyNotesFolder();
-		
-		// Check if file is in the daily notes folder
-		if (dailyNotesFolder && !file.path.startsWith(dailyNotesFolder)) {
-			return false;
-		}
-
-		// Extract date from filename using YYYY-MM-DD pattern
-		const dateMatch = file.basename.match(/(\d{4})-(\d{2})-(\d{2})/);
-		return dateMatch !== null;
+		return this.parseDailyNoteDate(file) !== null;
 	}
 
 	/**
 	 * Extract date string (YYYY-MM-DD) from daily note file
 	 */
 	extractDateFromDailyNote(file: TFile): string | null {
-		const dateMatch = file.basename.match(/(\d{4})-(\d{2})-(\d{2})/);
-		if (!dateMatch) {
-			return null;
-		}
-		return `${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}`;
+		const fileDate = this.parseDailyNoteDate(file);
+		return fileDate ? this.toDateKey(fileDate) : null;
 	}
 
 	/**
@@ -163,60 +404,97 @@ export class DailyNoteClassifier {
 		for (const backlinkInfo of yearBacklinks) {
 			const dateString = this.extractDateFromDailyNote(backlinkInfo.file);
 			if (dateString) {
-				// Optionally extract lines from the daily note file for hover summary
-				const lines: string[] | undefined = undefined;
-				// Try to get file contents and extract lines containing the active note link
-				// This is best-effort and may be skipped for performance
-				// Uncomment below if you want to extract lines:
-				// const fileCache = this.app.vault.getAbstractFileByPath(backlinkInfo.file.path);
-				// if (fileCache instanceof TFile) {
-				//     this.app.vault.read(fileCache).then(content => {
-				//         // Find lines containing links to the active note
-				//         // (Assume note title is available in context)
-				//     });
-				// }
-				yearlyData[dateString] = {
-					linkCount: backlinkInfo.linkCount,
-					lines: lines
-				};
+				this.addToDay(yearlyData, dateString, backlinkInfo);
 			}
 		}
 		return yearlyData;
 	}
 
 	/**
-	 * Check if a file path represents a daily note for a specific month/year
+	 * Get daily note backlink data for every day, without date bounds
 	 */
-	isDailyNoteFromMonth(file: TFile, month: number, year: number): boolean {
-		// Get the daily notes folder
-		const dailyNotesFolder = this.getDailyNotesFolder();
-		
-		// Check if file is in the daily notes folder
-		if (dailyNotesFolder && !file.path.startsWith(dailyNotesFolder)) {
-			return false;
+	getAllDailyNoteBacklinks(backlinks: BacklinkInfo[]): DailyNoteYearlyData {
+		const data: DailyNoteYearlyData = {};
+		for (const backlinkInfo of backlinks) {
+			const dateString = this.extractDateFromDailyNote(backlinkInfo.file);
+			if (dateString) {
+				this.addToDay(data, dateString, backlinkInfo);
+			}
+		}
+		return data;
+	}
+
+	/**
+	 * Get daily note backlink data for the days of a date range spanning several years
+	 * Used by the rolling 12 months window of the yearly tracker
+	 */
+	getWindowDailyNoteBacklinks(backlinks: BacklinkInfo[], dateRange: DateRange): DailyNoteYearlyData {
+		const startKey = DateRangeCalculator.formatDateKey(dateRange.startDate);
+		const endKey = DateRangeCalculator.formatDateKey(dateRange.endDate);
+		const windowData: DailyNoteYearlyData = {};
+
+		for (let year = dateRange.startDate.getFullYear(); year <= dateRange.endDate.getFullYear(); year++) {
+			const yearlyData = this.getYearlyDailyNoteBacklinks(backlinks, year);
+			for (const [dateString, summary] of Object.entries(yearlyData)) {
+				// Date keys are YYYY-MM-DD, so they compare as strings
+				if (dateString >= startKey && dateString <= endKey) {
+					windowData[dateString] = summary;
+				}
+			}
 		}
+		return windowData;
+	}
 
-		// Extract date from filename using YYYY-MM-DD pattern
-		const dateMatch = file.basename.match(/(\d{4})-(\d{2})-(\d{2})/);
-		if (!dateMatch) {
-			return false;
+	/**
+	 * Get the lines of a daily note that link to the target note
+	 * Uses the link positions from metadataCache, so only the note content is read
+	 */
+	async getBacklinkLines(dailyNote: TFile, targetPath: string): Promise<string[]> {
+		const cache = this.app.metadataCache.getFileCache(dailyNote);
+		const references = [...(cache?.links ?? []), ...(cache?.embeds ?? [])];
+
+		const lineNumbers = new Set<number>();
+		for (const reference of references) {
+			const target = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(reference.link), dailyNote.path);
+			if (target?.path === targetPath) {
+				lineNumbers.add(reference.position.start.line);
+			}
+		}
+		if (lineNumbers.size === 0) {
+			return [];
 		}
 
-		const [, fileYearStr, fileMonthStr] = dateMatch;
-		const fileYear = parseInt(fileYearStr);
-		const fileMonth = parseInt(fileMonthStr) - 1; // month is 0-indexed in JS
+		const contentLines = (await this.app.vault.cachedRead(dailyNote)).split('\n');
+		return Array.from(lineNumbers)
+			.sort((a, b) => a - b)
+			.map(lineNumber => (contentLines[lineNumber] ?? '').trim())
+			.filter(line => line.length > 0);
+	}
 
-		return fileYear === year && fileMonth === month;
+	/**
+	 * Check if a file path represents a daily note for a specific month/year
+	 */
+	isDailyNoteFromMonth(file: TFile, month: number, year: number): boolean {
+		const fileDate = this.parseDailyNoteDate(file);
+		return fileDate !== null && fileDate.getFullYear() === year && fileDate.getMonth() === month;
 	}
 
 	/**
 	 * Find the daily note file for a specific date
 	 */
 	findDailyNote(date: Date): TFile | null {
-		const year = date.getFullYear();
-		const month = String(date.getMonth() + 1).padStart(2, '0');
-		const day = String(date.getDate()).padStart(2, '0');
-		const targetDateString = `${year}-${month}-${day}`;
+		const targetDateString = this.toDateKey(date);
+
+		// Try the path the configured format would produce before scanning the vault
+		if (this.getDetectionMode() === DailyNoteDetectionMode.FILENAME) {
+			const { folder, format } = this.getDailyNoteSettings();
+			const { parser } = this.getParsers(format);
+			const expectedPath = `${folder ? folder + '/' : ''}${parser.formatDate(date)}.md`;
+			const expectedFile = this.app.vault.getAbstractFileByPath(expectedPath);
+			if (expectedFile instanceof TFile) {
+				return expectedFile;
+			}
+		}
 
 		const files = this.app.vault.getMarkdownFiles();
 		for (const file of files) {
@@ -243,15 +521,27 @@ export class DailyNoteClassifier {
 		for (const backlinkInfo of monthBacklinks) {
 			const dateString = this.extractDateFromDailyNote(backlinkInfo.file);
 			if (dateString) {
-				monthlyData[dateString] = {
-					linkCount: backlinkInfo.linkCount,
-					lines: undefined
-				};
+				this.addToDay(monthlyData, dateString, backlinkInfo);
 			}
 		}
 		return monthlyData;
 	}
 
+	/**
+	 * Add the links of a daily note to its day
+	 * Several notes can share a date (frontmatter date property), so their links and values add up
+	 */
+	private addToDay(data: DailyNoteYearlyData, dateKey: string, backlinkInfo: BacklinkInfo): void {
+		const existing = data[dateKey];
+		// Lines are extracted lazily on hover, see getBacklinkLines
+		data[dateKey] = {
+			linkCount: (existing?.linkCount ?? 0) + backlinkInfo.linkCount,
+			lines: undefined,
+			values: backlinkInfo.values ? (existing?.values ?? []).concat(backlinkInfo.values) : existing?.values,
+			files: (existing?.files ?? []).concat(backlinkInfo.file)
+		};
+	}
+
 	/**
 	 * Calculate month bounds based on available daily notes
 	 */
@@ -271,28 +561,25 @@ export class DailyNoteClassifier {
 		let hasData = false;
 
 		for (const backlinkInfo of backlinks) {
-			if (this.isDailyNote(backlinkInfo.file)) {
-				const dateString = this.extractDateFromDailyNote(backlinkInfo.file);
-				if (dateString) {
-					const date = new Date(dateString);
-					const year = date.getFullYear();
-					const month = date.getMonth();
-
-					if (!hasData) {
+			const date = this.parseDailyNoteDate(backlinkInfo.file);
+			if (date) {
+				const year = date.getFullYear();
+				const month = date.getMonth();
+
+				if (!hasData) {
+					minYear = year;
+					maxYear = year;
+					minMonth = month;
+					maxMonth = month;
+					hasData = true;
+				} else {
+					if (year < minYear || (year === minYear && month < minMonth)) {
 						minYear = year;
-						maxYear = year;
 						minMonth = month;
+					}
+					if (year > maxYear || (year === maxYear && month > maxMonth)) {
+						maxYear = year;
 						maxMonth = month;
-						hasData = true;
-					} else {
-						if (year < minYear || (year === minYear && month < minMonth)) {
-							minYear = year;
-							minMonth = month;
-						}
-						if (year > maxYear || (year === maxYear && month > maxMonth)) {
-							maxYear = year;
-							maxMonth = month;
-						}
 					}
 				}
 			}
@@ -311,10 +598,51 @@ export class DailyNoteClassifier {
 		return { minMonth, minYear, maxMonth, maxYear };
 	}
 
+	/**
+	 * Get the dates (YYYY-MM-DD) of all daily notes in the vault within a date range
+	 */
+	getDailyNoteDatesInRange(dateRange: DateRange): Set<string> {
+		const dates = new Set<string>();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const fileDate = this.parseDailyNoteDate(file);
+			if (fileDate && fileDate >= dateRange.startDate && fileDate <= dateRange.endDate) {
+				dates.add(this.toDateKey(fileDate));
+			}
+		}
+		return dates;
+	}
+
+	/**
+	 * Count links from periodic notes within a date range
+	 * Daily notes count when their day starts inside the range; longer periodic notes count
+	 * when the span they cover overlaps the range
+	 */
+	countBacklinksInRange(backlinks: BacklinkInfo[], dateRange: DateRange, granularities: PeriodicGranularity[] = [PeriodicGranularity.DAY]): number {
+		return this.filterBacklinksInRange(backlinks, dateRange, granularities)
+			.reduce((total, backlinkInfo) => total + backlinkInfo.linkCount, 0);
+	}
+
+	/**
+	 * Keep the backlinks from periodic notes within a date range (same rules as countBacklinksInRange)
+	 */
+	filterBacklinksInRange(backlinks: BacklinkInfo[], dateRange: DateRange, granularities: PeriodicGranularity[] = [PeriodicGranularity.DAY]): BacklinkInfo[] {
+		return backlinks.filter(backlinkInfo => {
+			const span = this.getPeriodicNoteSpan(backlinkInfo.file, granularities);
+			if (!span) {
+				return false;
+			}
+			return span.granularity === PeriodicGranularity.DAY
+				? span.startDate >= dateRange.startDate && span.startDate <= dateRange.endDate
+				: span.startDate <= dateRange.endDate && span.endDate >= dateRange.startDate;
+		});
+	}
+
 	/**
 	 * Get daily backlinks within a specific date range
+	 * Links from weekly, monthly or quarterly notes (when included) are attributed to the first
+	 * day of their span that falls within the range
 	 */
-	getDailyBacklinksInRange(backlinks: BacklinkInfo[], startDate: Date, endDate: Date): DailyNoteYearlyData {
+	getDailyBacklinksInRange(backlinks: BacklinkInfo[], startDate: Date, endDate: Date, granularities: PeriodicGranularity[] = [PeriodicGranularity.DAY]): DailyNoteYearlyData {
 		const rangeData: DailyNoteYearlyData = {};
 		
 		// Normalize dates to start of day for comparison
@@ -324,18 +652,11 @@ export class DailyNoteClassifier {
 		end.setHours(23, 59, 59, 999);
 
 		for (const backlinkInfo of backlinks) {
-			if (this.isDailyNote(backlinkInfo.file)) {
-				const dateString = this.extractDateFromDailyNote(backlinkInfo.file);
-				if (dateString) {
-					const date = new Date(dateString);
-					// Check if date is within range
-					if (date >= start && date <= end) {
-						rangeData[dateString] = {
-							linkCount: backlinkInfo.linkCount,
-							lines: undefined
-						};
-					}
-				}
+			const span = this.getPeriodicNoteSpan(backlinkInfo.file, granularities);
+			// Check if span overlaps the range
+			if (span && span.startDate <= end && span.endDate >= start) {
+				const dateKey = this.toDateKey(span.startDate < start ? start : span.startDate);
+				this.addToDay(rangeData, dateKey, backlinkInfo);
 			}
 		}
 		return rangeData;
@@ -0,0 +1,99 @@
+import { App, TFile } from 'obsidian';
+import { DailyNoteYearlyData, DataExportFormat, DataTable, DateRange } from '../types';
+import { DateRangeCalculator } from './date-range-calculator';
+import { ValueAggregator } from './value-aggregator';
+import { VisualizationExporter } from './visualization-exporter';
+
+/**
+ * Exports the numbers behind a visualization as CSV or JSON
+ * Tables are built by the components from the data they render (current period, watched notes)
+ */
+export class DataExporter {
+	private app: App;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/**
+	 * Write a table as a CSV or JSON file in the attachments folder
+	 * @param baseName File name without extension (e.g., the watched note title)
+	 * @param sourcePath Note the file belongs to, used by the attachments folder setting
+	 * @returns The created file
+	 */
+	async export(table: DataTable, format: DataExportFormat, baseName: string, sourcePath: string = ''): Promise<TFile> {
+		const fileName = VisualizationExporter.getFileName(baseName, format);
+		const path = await this.app.fileManager.getAvailablePathForAttachment(fileName, sourcePath);
+		return this.app.vault.create(path, DataExporter.serialize(table, format));
+	}
+
+	/**
+	 * Serialize a table in the given format
+	 */
+	static serialize(table: DataTable, format: DataExportFormat): string {
+		return format === DataExportFormat.CSV ? DataExporter.toCsv(table) : DataExporter.toJson(table);
+	}
+
+	/**
+	 * CSV with a header row; cells with separators, quotes or line breaks are quoted
+	 */
+	static toCsv(table: DataTable): string {
+		const escape = (cell: string | number): string => {
+			const text = String(cell);
+			return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+		};
+		return [table.columns, ...table.rows]
+			.map(row => row.map(escape).join(','))
+			.join('\n') + '\n';
+	}
+
+	/**
+	 * JSON array with one object per row, keyed by column
+	 */
+	static toJson(table: DataTable): string {
+		const records = table.rows.map(row => {
+			const record: Record<string, string | number> = {};
+			table.columns.forEach((column, index) => {
+				record[column] = row[index];
+			});
+			return record;
+		});
+		return JSON.stringify(records, null, 2) + '\n';
+	}
+
+	/**
+	 * Date × note table: one row per date, one column per series (and a total when there are several)
+	 * Days without mentions are written as 0, so every date of the period has a row
+	 */
+	static buildDailyTable(dates: string[], series: Array<{ title: string; data: DailyNoteYearlyData }>): DataTable {
+		const withTotal = series.length > 1;
+		const columns = ['date', ...series.map(item => item.title)];
+		if (withTotal) {
+			columns.push('total');
+		}
+
+		const rows = dates.map(date => {
+			const values = series.map(item => ValueAggregator.round(item.data[date]?.linkCount ?? 0));
+			const row: Array<string | number> = [date, ...values];
+			if (withTotal) {
+				row.push(ValueAggregator.round(values.reduce((total, value) => total + value, 0)));
+			}
+			return row;
+		});
+
+		return { columns, rows };
+	}
+
+	/**
+	 * Date keys (YYYY-MM-DD) of every day of a range
+	 */
+	static getDates(dateRange: DateRange): string[] {
+		const dates: string[] = [];
+		const end = new Date(dateRange.endDate);
+		end.setHours(23, 59, 59, 999);
+		for (let date = new Date(dateRange.startDate); date <= end; date.setDate(date.getDate() + 1)) {
+			dates.push(DateRangeCalculator.formatDateKey(date));
+		}
+		return dates;
+	}
+}
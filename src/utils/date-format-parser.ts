@@ -0,0 +1,270 @@
+import { moment } from 'obsidian';
+
+/**
+ * Parsed components of a date extracted from a note name
+ */
+export interface ParsedDateParts {
+	year: number;
+	month: number; // 0-11
+	day: number; // 1-31
+}
+
+/**
+ * Parsed components of a period (week, month, quarter...) extracted from a note name
+ * Only the components present in the format are set
+ */
+export interface ParsedPeriodParts {
+	year?: number;
+	month?: number; // 0-11
+	day?: number; // 1-31
+	weekYear?: number;
+	week?: number;
+	isoWeek?: boolean; // true for W/WW/GGGG tokens, false for locale w/ww/gggg tokens
+	quarter?: number; // 1-4
+}
+
+/**
+ * Kind of value captured by a format token
+ */
+type TokenKind = 'year4' | 'year2' | 'monthName' | 'monthShort' | 'month' | 'day' | 'dayOrdinal' | 'weekdayName' | 'weekdayNumber'
+	| 'weekYear' | 'isoWeekYear' | 'week' | 'isoWeek' | 'quarter';
+
+interface CompiledToken {
+	kind: TokenKind | null; // null = literal
+	pattern: string;
+}
+
+/**
+ * Matches moment.js tokens, longest first, plus bracket-escaped literals
+ */
+const TOKEN_REGEX = /\[[^\]]*\]|YYYY|YY|gggg|GGGG|MMMM|MMM|MM|M|Do|DD|D|dddd|ddd|dd|d|ww|w|WW|W|Q|E|e|./g;
+
+/**
+ * Tokenizer for moment.js-compatible date formats (as used by the Daily Notes
+ * and Periodic Notes plugins). Compiles a format into a regular expression so
+ * note names can be parsed back into dates, also when they are only found within a longer name.
+ * Month names, weekday names and ordinals come from the moment locale Obsidian runs in.
+ *
+ * Supported tokens: YYYY, YY, gggg, GGGG, MMMM, MMM, MM, M, Do, DD, D, dddd, ddd, dd, d,
+ * ww, w, WW, W, Q, E, e and `[escaped text]`. Any other character is treated as a literal.
+ */
+export class DateFormatParser {
+	private format: string;
+	private tokens: CompiledToken[];
+	private kinds: TokenKind[] = [];
+	private fullRegex: RegExp;
+	private searchRegex: RegExp;
+	// Names of each month in the locale: standalone and in-format forms (e.g., "январь" and "января")
+	private monthNames: string[][];
+	private monthShortNames: string[][];
+
+	constructor(format: string) {
+		this.format = format;
+		this.monthNames = this.groupByMonth(moment.months(), moment.months(format));
+		this.monthShortNames = this.groupByMonth(moment.monthsShort(), moment.monthsShort(format));
+		this.tokens = this.tokenize(format);
+
+		let source = '';
+		for (const token of this.tokens) {
+			if (token.kind) {
+				this.kinds.push(token.kind);
+				source += `(${token.pattern})`;
+			} else {
+				source += token.pattern;
+			}
+		}
+		this.fullRegex = new RegExp(`^${source}$`, 'i');
+		// Unanchored variant tolerates surrounding text but not adjacent digits
+		this.searchRegex = new RegExp(`(?:^|\\D)${source}(?!\\d)`, 'i');
+	}
+
+	/**
+	 * Get the format string this parser was compiled from
+	 */
+	getFormat(): string {
+		return this.format;
+	}
+
+	/**
+	 * Check whether the format carries enough information to identify a single day
+	 */
+	hasDayPrecision(): boolean {
+		const hasYear = this.kinds.includes('year4') || this.kinds.includes('year2');
+		const hasMonth = this.kinds.some(kind => kind === 'month' || kind === 'monthName' || kind === 'monthShort');
+		const hasDay = this.kinds.includes('day') || this.kinds.includes('dayOrdinal');
+		return hasYear && hasMonth && hasDay;
+	}
+
+	/**
+	 * Parse text that must match the whole format
+	 */
+	parse(text: string): ParsedDateParts | null {
+		return this.toDateParts(this.extractParts(text.match(this.fullRegex)));
+	}
+
+	/**
+	 * Parse the first occurrence of the format anywhere in the text
+	 */
+	search(text: string): ParsedDateParts | null {
+		return this.toDateParts(this.extractParts(text.match(this.searchRegex)));
+	}
+
+	/**
+	 * Parse text that must match the whole format, keeping whatever components it has
+	 * Used for periodic notes that name a week, month or quarter rather than a day
+	 */
+	parsePeriod(text: string): ParsedPeriodParts | null {
+		return this.extractParts(text.match(this.fullRegex));
+	}
+
+	/**
+	 * Format a date using the compiled format, with the names of the locale
+	 */
+	formatDate(date: Date): string {
+		return moment(date).format(this.format);
+	}
+
+	/**
+	 * Split a format into literal and capturing tokens
+	 */
+	private tokenize(format: string): CompiledToken[] {
+		const tokens: CompiledToken[] = [];
+		const raw = format.match(TOKEN_REGEX) || [];
+
+		for (const token of raw) {
+			switch (token) {
+				case 'YYYY': tokens.push({ kind: 'year4', pattern: '\\d{4}' }); break;
+				case 'YY': tokens.push({ kind: 'year2', pattern: '\\d{2}' }); break;
+				case 'MMMM': tokens.push({ kind: 'monthName', pattern: this.alternation(this.flatten(this.monthNames)) }); break;
+				case 'MMM': tokens.push({ kind: 'monthShort', pattern: this.alternation(this.flatten(this.monthShortNames)) }); break;
+				case 'MM': tokens.push({ kind: 'month', pattern: '\\d{2}' }); break;
+				case 'M': tokens.push({ kind: 'month', pattern: '\\d{1,2}' }); break;
+				case 'Do': tokens.push({ kind: 'dayOrdinal', pattern: this.alternation(this.getOrdinals()) }); break;
+				case 'DD': tokens.push({ kind: 'day', pattern: '\\d{2}' }); break;
+				case 'D': tokens.push({ kind: 'day', pattern: '\\d{1,2}' }); break;
+				case 'dddd': tokens.push({ kind: 'weekdayName', pattern: this.alternation(moment.weekdays()) }); break;
+				case 'ddd': tokens.push({ kind: 'weekdayName', pattern: this.alternation(moment.weekdaysShort()) }); break;
+				case 'dd': tokens.push({ kind: 'weekdayName', pattern: this.alternation(moment.weekdaysMin()) }); break;
+				case 'd':
+				case 'E':
+				case 'e':
+					tokens.push({ kind: 'weekdayNumber', pattern: '\\d' });
+					break;
+				case 'gggg': tokens.push({ kind: 'weekYear', pattern: '\\d{4}' }); break;
+				case 'GGGG': tokens.push({ kind: 'isoWeekYear', pattern: '\\d{4}' }); break;
+				case 'ww': tokens.push({ kind: 'week', pattern: '\\d{2}' }); break;
+				case 'w': tokens.push({ kind: 'week', pattern: '\\d{1,2}' }); break;
+				case 'WW': tokens.push({ kind: 'isoWeek', pattern: '\\d{2}' }); break;
+				case 'W': tokens.push({ kind: 'isoWeek', pattern: '\\d{1,2}' }); break;
+				case 'Q': tokens.push({ kind: 'quarter', pattern: '[1-4]' }); break;
+				default: {
+					const literal = token.startsWith('[') ? token.substring(1, token.length - 1) : token;
+					tokens.push({ kind: null, pattern: this.escapeRegex(literal) });
+				}
+			}
+		}
+		return tokens;
+	}
+
+	/**
+	 * Turn a regex match into the components captured by the format
+	 */
+	private extractParts(match: RegExpMatchArray | null): ParsedPeriodParts | null {
+		if (!match) {
+			return null;
+		}
+
+		const parts: ParsedPeriodParts = {};
+		for (let index = 0; index < this.kinds.length; index++) {
+			const kind = this.kinds[index];
+			const value = match[index + 1];
+			switch (kind) {
+				case 'year4': parts.year = parseInt(value, 10); break;
+				case 'year2': parts.year = 2000 + parseInt(value, 10); break;
+				case 'monthName':
+				case 'monthShort': {
+					const names = kind === 'monthName' ? this.monthNames : this.monthShortNames;
+					parts.month = names.findIndex(monthNames => monthNames.some(name => name.toLowerCase() === value.toLowerCase()));
+					break;
+				}
+				case 'month': parts.month = parseInt(value, 10) - 1; break;
+				case 'day': parts.day = parseInt(value, 10); break;
+				case 'dayOrdinal':
+					// The number is not always first in the locale ordinal
+					parts.day = parseInt(value.replace(/^\D+/, ''), 10);
+					break;
+				case 'weekYear':
+				case 'isoWeekYear':
+					parts.weekYear = parseInt(value, 10);
+					parts.isoWeek = kind === 'isoWeekYear';
+					break;
+				case 'week':
+				case 'isoWeek':
+					parts.week = parseInt(value, 10);
+					parts.isoWeek = kind === 'isoWeek';
+					break;
+				case 'quarter': parts.quarter = parseInt(value, 10); break;
+			}
+		}
+		return parts;
+	}
+
+	/**
+	 * Validate that parsed components identify a real day
+	 */
+	private toDateParts(parts: ParsedPeriodParts | null): ParsedDateParts | null {
+		if (!parts || parts.year === undefined || parts.month === undefined || parts.day === undefined) {
+			return null;
+		}
+
+		const { year, month, day } = parts;
+
+		// Reject impossible dates such as 2024-02-31
+		const date = new Date(year, month, day);
+		if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) {
+			return null;
+		}
+
+		return { year, month, day };
+	}
+
+	/**
+	 * Names of each month, from lists of the twelve names in several forms
+	 */
+	private groupByMonth(...lists: string[][]): string[][] {
+		const months: string[][] = [];
+		for (let month = 0; month < 12; month++) {
+			months.push(lists.map(list => list[month]).filter(name => !!name));
+		}
+		return months;
+	}
+
+	private flatten(groups: string[][]): string[] {
+		return groups.reduce((all, group) => all.concat(group), []);
+	}
+
+	/**
+	 * Day numbers as the locale writes them with the Do token (e.g., "1st", "1er")
+	 */
+	private getOrdinals(): string[] {
+		const ordinals: string[] = [];
+		for (let day = 1; day <= 31; day++) {
+			ordinals.push(moment.localeData().ordinal(day));
+		}
+		return ordinals;
+	}
+
+	/**
+	 * Regex alternation of names, longest first so a name is not cut at a shorter one it starts with
+	 */
+	private alternation(names: string[]): string {
+		return Array.from(new Set(names))
+			.sort((a, b) => b.length - a.length)
+			.map(name => this.escapeRegex(name))
+			.join('|');
+	}
+
+	private escapeRegex(text: string): string {
+		return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	}
+}
@@ -1,4 +1,4 @@
-import { TimePeriod, DateRange } from '../types';
+import { TimePeriod, DateRange, CustomDateRange, PeriodicGranularity } from '../types';
 
 /**
  * Utility class for converting TimePeriod enums to concrete DateRange objects
@@ -9,8 +9,9 @@ export class DateRangeCalculator {
 	 * Convert a TimePeriod to a DateRange
 	 * @param period The time period to convert
 	 * @param firstDayOfWeek First day of week (0=Sunday, 1=Monday, etc.) - used for THIS_WEEK calculation
+	 * @param customRange Absolute range - used for CUSTOM calculation
 	 */
-	static calculateDateRange(period: TimePeriod, firstDayOfWeek: number = 1): DateRange {
+	static calculateDateRange(period: TimePeriod, firstDayOfWeek: number = 1, customRange?: CustomDateRange): DateRange {
 		const now = new Date();
 		let startDate: Date;
 		let endDate: Date;
@@ -92,6 +93,19 @@ export class DateRangeCalculator {
 				endDate = new Date(now.getFullYear(), 11, 31, 23, 59, 59, 999);
 				break;
 
+			case TimePeriod.CUSTOM: {
+				const range = customRange ? DateRangeCalculator.parseCustomRange(customRange) : null;
+				if (range) {
+					startDate = range.startDate;
+					endDate = range.endDate;
+				} else {
+					// No valid range yet - behave like past 30 days
+					startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 29, 0, 0, 0, 0);
+					endDate = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
+				}
+				break;
+			}
+
 			default:
 				// Default to past 30 days
 				startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
@@ -101,6 +115,84 @@ export class DateRangeCalculator {
 		return { startDate, endDate };
 	}
 
+	/**
+	 * Get the window preceding a period, of the same kind and length
+	 * Calendar periods step back one unit (last month, last quarter...); rolling and custom
+	 * periods shift back by their own number of days
+	 */
+	static calculatePreviousDateRange(period: TimePeriod, firstDayOfWeek: number = 1, customRange?: CustomDateRange): DateRange {
+		const current = DateRangeCalculator.calculateDateRange(period, firstDayOfWeek, customRange);
+		const start = current.startDate;
+		const year = start.getFullYear();
+		const month = start.getMonth();
+		const date = start.getDate();
+
+		switch (period) {
+			case TimePeriod.PAST_24_HOURS:
+				return {
+					startDate: new Date(start.getTime() - 24 * 60 * 60 * 1000),
+					endDate: new Date(start.getTime() - 1)
+				};
+
+			case TimePeriod.THIS_MONTH:
+				return {
+					startDate: new Date(year, month - 1, 1, 0, 0, 0, 0),
+					endDate: new Date(year, month, 0, 23, 59, 59, 999)
+				};
+
+			case TimePeriod.THIS_QUARTER:
+				return {
+					startDate: new Date(year, month - 3, 1, 0, 0, 0, 0),
+					endDate: new Date(year, month, 0, 23, 59, 59, 999)
+				};
+
+			case TimePeriod.THIS_YEAR:
+				return {
+					startDate: new Date(year - 1, 0, 1, 0, 0, 0, 0),
+					endDate: new Date(year - 1, 11, 31, 23, 59, 59, 999)
+				};
+
+			default: {
+				// Whole-day windows: same number of calendar days, ending the day before
+				const dayCount = Math.round((current.endDate.getTime() + 1 - start.getTime()) / (24 * 60 * 60 * 1000));
+				return {
+					startDate: new Date(year, month, date - dayCount, 0, 0, 0, 0),
+					endDate: new Date(year, month, date - 1, 23, 59, 59, 999)
+				};
+			}
+		}
+	}
+
+	/**
+	 * Get a human-readable label for the window preceding a time period
+	 */
+	static getPreviousPeriodLabel(period: TimePeriod): string {
+		switch (period) {
+			case TimePeriod.PAST_24_HOURS:
+				return 'previous 24 hours';
+			case TimePeriod.PAST_7_DAYS:
+				return 'previous 7 days';
+			case TimePeriod.PAST_30_DAYS:
+				return 'previous 30 days';
+			case TimePeriod.PAST_90_DAYS:
+				return 'previous 90 days';
+			case TimePeriod.PAST_YEAR:
+				return 'previous year';
+			case TimePeriod.TODAY:
+				return 'yesterday';
+			case TimePeriod.THIS_WEEK:
+				return 'last week';
+			case TimePeriod.THIS_MONTH:
+				return 'last month';
+			case TimePeriod.THIS_QUARTER:
+				return 'last quarter';
+			case TimePeriod.THIS_YEAR:
+				return 'last year';
+			default:
+				return 'previous period';
+		}
+	}
+
 	/**
 	 * Get a human-readable label for a time period
 	 */
@@ -126,6 +218,8 @@ export class DateRangeCalculator {
 				return 'this quarter';
 			case TimePeriod.THIS_YEAR:
 				return 'this year';
+			case TimePeriod.CUSTOM:
+				return 'custom range';
 			default:
 				return 'past 30 days';
 		}
@@ -145,7 +239,121 @@ export class DateRangeCalculator {
 			{ value: TimePeriod.THIS_WEEK, label: DateRangeCalculator.getPeriodLabel(TimePeriod.THIS_WEEK) },
 			{ value: TimePeriod.THIS_MONTH, label: DateRangeCalculator.getPeriodLabel(TimePeriod.THIS_MONTH) },
 			{ value: TimePeriod.THIS_QUARTER, label: DateRangeCalculator.getPeriodLabel(TimePeriod.THIS_QUARTER) },
-			{ value: TimePeriod.THIS_YEAR, label: DateRangeCalculator.getPeriodLabel(TimePeriod.THIS_YEAR) }
+			{ value: TimePeriod.THIS_YEAR, label: DateRangeCalculator.getPeriodLabel(TimePeriod.THIS_YEAR) },
+			{ value: TimePeriod.CUSTOM, label: DateRangeCalculator.getPeriodLabel(TimePeriod.CUSTOM) }
 		];
 	}
+
+	/**
+	 * Convert a custom range to a DateRange covering whole days
+	 * Returns null if either date is invalid; reversed ranges are swapped
+	 */
+	static parseCustomRange(customRange: CustomDateRange): DateRange | null {
+		const start = DateRangeCalculator.parseDateKey(customRange.startDate);
+		const end = DateRangeCalculator.parseDateKey(customRange.endDate);
+		if (!start || !end) {
+			return null;
+		}
+
+		const [first, last] = start <= end ? [start, end] : [end, start];
+		return {
+			startDate: new Date(first.getFullYear(), first.getMonth(), first.getDate(), 0, 0, 0, 0),
+			endDate: new Date(last.getFullYear(), last.getMonth(), last.getDate(), 23, 59, 59, 999)
+		};
+	}
+
+	/**
+	 * Get a human-readable label for a custom range (e.g., "2026-03-01 to 2026-05-31")
+	 */
+	static getCustomRangeLabel(customRange: CustomDateRange): string {
+		const range = DateRangeCalculator.parseCustomRange(customRange);
+		if (!range) {
+			return DateRangeCalculator.getPeriodLabel(TimePeriod.CUSTOM);
+		}
+		return `${DateRangeCalculator.formatDateKey(range.startDate)} to ${DateRangeCalculator.formatDateKey(range.endDate)}`;
+	}
+
+	/**
+	 * Parse a YYYY-MM-DD string to a local date at midnight
+	 */
+	static parseDateKey(value: string): Date | null {
+		const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+		if (!match) {
+			return null;
+		}
+
+		const year = parseInt(match[1], 10);
+		const month = parseInt(match[2], 10) - 1;
+		const day = parseInt(match[3], 10);
+		const date = new Date(year, month, day);
+		// Reject impossible dates such as 2026-02-31
+		if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) {
+			return null;
+		}
+		return date;
+	}
+
+	/**
+	 * Calculate the rolling 12 months window of the yearly tracker: 53 weeks ending at the end of a month
+	 * The window of the current month ends today; it starts on a Monday so weeks fill whole columns
+	 */
+	static calculateRollingYearRange(endMonth: number, endYear: number): DateRange {
+		const now = new Date();
+		const isCurrentMonth = endMonth === now.getMonth() && endYear === now.getFullYear();
+		const endDate = isCurrentMonth
+			? new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999)
+			: new Date(endYear, endMonth + 1, 0, 23, 59, 59, 999); // Day 0 of next month = last day of month
+
+		const startDate = new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate() - 364, 0, 0, 0, 0);
+		// Back to Monday, the first row of the tracker grid
+		startDate.setDate(startDate.getDate() - (startDate.getDay() + 6) % 7);
+
+		return { startDate, endDate };
+	}
+
+	/**
+	 * Calculate the day, week, month or quarter containing a date
+	 * @param firstDayOfWeek First day of week (0=Sunday, 1=Monday, etc.) - used for weeks
+	 */
+	static calculateContainingRange(date: Date, granularity: PeriodicGranularity, firstDayOfWeek: number = 1): DateRange {
+		const year = date.getFullYear();
+		const month = date.getMonth();
+		const day = date.getDate();
+		switch (granularity) {
+			case PeriodicGranularity.WEEK: {
+				const daysToSubtract = (date.getDay() - firstDayOfWeek + 7) % 7;
+				return {
+					startDate: new Date(year, month, day - daysToSubtract, 0, 0, 0, 0),
+					endDate: new Date(year, month, day - daysToSubtract + 6, 23, 59, 59, 999)
+				};
+			}
+			case PeriodicGranularity.MONTH:
+				return {
+					startDate: new Date(year, month, 1, 0, 0, 0, 0),
+					endDate: new Date(year, month + 1, 0, 23, 59, 59, 999)
+				};
+			case PeriodicGranularity.QUARTER: {
+				const quarterStartMonth = Math.floor(month / 3) * 3;
+				return {
+					startDate: new Date(year, quarterStartMonth, 1, 0, 0, 0, 0),
+					endDate: new Date(year, quarterStartMonth + 3, 0, 23, 59, 59, 999)
+				};
+			}
+			default:
+				return {
+					startDate: new Date(year, month, day, 0, 0, 0, 0),
+					endDate: new Date(year, month, day, 23, 59, 59, 999)
+				};
+		}
+	}
+
+	/**
+	 * Format a date as YYYY-MM-DD (local time)
+	 */
+	static formatDateKey(date: Date): string {
+		const year = date.getFullYear();
+		const month = String(date.getMonth() + 1).padStart(2, '0');
+		const day = String(date.getDate()).padStart(2, '0');
+		return `${year}-${month}-${day}`;
+	}
 }
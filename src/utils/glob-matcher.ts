@@ -0,0 +1,39 @@
+/**
+ * Glob patterns over vault paths and property values
+ * `**` matches across folders, `*` within a folder name, `?` one character
+ */
+export class GlobMatcher {
+	/**
+	 * Convert a glob pattern to an anchored regular expression
+	 */
+	static toRegExp(pattern: string, caseInsensitive: boolean = false): RegExp {
+		let source = '';
+		for (let index = 0; index < pattern.length; index++) {
+			const char = pattern[index];
+			if (char === '*' && pattern[index + 1] === '*') {
+				// "a/**/b" also matches "a/b"
+				if (pattern[index + 2] === '/') {
+					source += '(?:.*/)?';
+					index += 2;
+				} else {
+					source += '.*';
+					index++;
+				}
+			} else if (char === '*') {
+				source += '[^/]*';
+			} else if (char === '?') {
+				source += '[^/]';
+			} else {
+				source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+			}
+		}
+		return new RegExp(`^${source}$`, caseInsensitive ? 'i' : '');
+	}
+
+	/**
+	 * Whether a value matches a glob pattern
+	 */
+	static matches(value: string, pattern: string, caseInsensitive: boolean = false): boolean {
+		return GlobMatcher.toRegExp(pattern, caseInsensitive).test(value);
+	}
+}
@@ -0,0 +1,241 @@
+import { App, CachedMetadata, TFile, getAllTags } from 'obsidian';
+import { GlobMatcher } from './glob-matcher';
+
+type QueryNode =
+	| { kind: 'and' | 'or'; children: QueryNode[] }
+	| { kind: 'not'; child: QueryNode }
+	| { kind: 'tag'; tag: string }
+	| { kind: 'path'; pattern: RegExp }
+	| { kind: 'property'; key: string; pattern: RegExp };
+
+interface QueryToken {
+	type: 'open' | 'close' | 'operator' | 'word' | 'string';
+	value: string;
+}
+
+// Parentheses, operators, quoted strings and bare words ("!" only ends a word before "=")
+const TOKEN_PATTERN = /\s*(?:(\()|(\))|(!=|=|:)|"((?:[^"\\]|\\.)*)"|((?:[^\s()"=:!]|!(?!=))+))/y;
+
+/**
+ * Error raised for a query that cannot be parsed, with a message meant for the note author
+ */
+export class NoteQueryError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'NoteQueryError';
+	}
+}
+
+/**
+ * Small filter language selecting notes by tags, frontmatter properties and path globs
+ *
+ * - `#person` - tagged #person or a nested tag (#person/friend), in the body or the frontmatter
+ * - `type: project`, `status = active`, `status != done` - frontmatter property (case-insensitive, globs allowed)
+ * - `path: People/**` - path glob
+ * - `and` (implicit between terms), `or`, `not` or `-`, parentheses; quote values with spaces
+ *
+ * Example: `type: project and status: active -#archived`
+ */
+export class NoteQuery {
+	readonly text: string;
+	private root: QueryNode;
+
+	private constructor(text: string, root: QueryNode) {
+		this.text = text;
+		this.root = root;
+	}
+
+	/**
+	 * Parse a query
+	 * @throws NoteQueryError when the query is empty or malformed
+	 */
+	static parse(text: string): NoteQuery {
+		const tokens = NoteQuery.tokenize(text);
+		if (tokens.length === 0) {
+			throw new NoteQueryError('Query is empty');
+		}
+		const parser = new QueryParser(tokens);
+		return new NoteQuery(text.trim(), parser.parse());
+	}
+
+	/**
+	 * Notes of the vault matching the query, read from the metadata cache
+	 * This is dynamic - re-queries on each call to reflect current vault state
+	 */
+	getMatchingNotes(app: App): TFile[] {
+		return app.vault.getMarkdownFiles()
+			.filter(file => this.matches(file, app.metadataCache.getFileCache(file)));
+	}
+
+	/**
+	 * Whether a note matches the query
+	 */
+	matches(file: TFile, cache: CachedMetadata | null): boolean {
+		return this.evaluate(this.root, file, cache);
+	}
+
+	private evaluate(node: QueryNode, file: TFile, cache: CachedMetadata | null): boolean {
+		switch (node.kind) {
+			case 'and':
+				return node.children.every(child => this.evaluate(child, file, cache));
+			case 'or':
+				return node.children.some(child => this.evaluate(child, file, cache));
+			case 'not':
+				return !this.evaluate(node.child, file, cache);
+			case 'tag':
+				return (cache ? getAllTags(cache) ?? [] : [])
+					.map(tag => tag.toLowerCase())
+					.some(tag => tag === node.tag || tag.startsWith(`${node.tag}/`));
+			case 'path':
+				return node.pattern.test(file.path);
+			case 'property':
+				return this.getPropertyValues(cache, node.key).some(value => node.pattern.test(value));
+		}
+	}
+
+	/**
+	 * Values of a frontmatter property as strings (list properties give one value per item)
+	 */
+	private getPropertyValues(cache: CachedMetadata | null, key: string): string[] {
+		const frontmatter = cache?.frontmatter;
+		if (!frontmatter) {
+			return [];
+		}
+		const actualKey = Object.keys(frontmatter).find(candidate => candidate.toLowerCase() === key);
+		const raw: unknown = actualKey !== undefined ? frontmatter[actualKey] : undefined;
+		const values: unknown[] = Array.isArray(raw) ? raw : [raw];
+		return values
+			.filter(value => typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean')
+			.map(value => String(value));
+	}
+
+	private static tokenize(text: string): QueryToken[] {
+		const tokens: QueryToken[] = [];
+		TOKEN_PATTERN.lastIndex = 0;
+		while (TOKEN_PATTERN.lastIndex < text.length) {
+			if (text.slice(TOKEN_PATTERN.lastIndex).trim() === '') {
+				break;
+			}
+			const start = TOKEN_PATTERN.lastIndex;
+			const match = TOKEN_PATTERN.exec(text);
+			if (!match) {
+				throw new NoteQueryError(`Unexpected "${text.slice(start).trim().charAt(0)}" in query`);
+			}
+			if (match[1]) {
+				tokens.push({ type: 'open', value: '(' });
+			} else if (match[2]) {
+				tokens.push({ type: 'close', value: ')' });
+			} else if (match[3]) {
+				tokens.push({ type: 'operator', value: match[3] });
+			} else if (match[4] !== undefined) {
+				tokens.push({ type: 'string', value: match[4].replace(/\\(.)/g, '$1') });
+			} else {
+				tokens.push({ type: 'word', value: match[5] });
+			}
+		}
+		return tokens;
+	}
+}
+
+/**
+ * Recursive descent parser: or > and > not > term
+ */
+class QueryParser {
+	private tokens: QueryToken[];
+	private position = 0;
+
+	constructor(tokens: QueryToken[]) {
+		this.tokens = tokens;
+	}
+
+	parse(): QueryNode {
+		const node = this.parseOr();
+		const extra = this.peek();
+		if (extra) {
+			throw new NoteQueryError(`Unexpected "${extra.value}" in query`);
+		}
+		return node;
+	}
+
+	private parseOr(): QueryNode {
+		const children = [this.parseAnd()];
+		while (this.isKeyword(this.peek(), 'or')) {
+			this.position++;
+			children.push(this.parseAnd());
+		}
+		return children.length === 1 ? children[0] : { kind: 'or', children };
+	}
+
+	private parseAnd(): QueryNode {
+		const children = [this.parseUnary()];
+		for (let token = this.peek(); token && token.type !== 'close' && !this.isKeyword(token, 'or'); token = this.peek()) {
+			if (this.isKeyword(token, 'and')) {
+				this.position++;
+			}
+			children.push(this.parseUnary());
+		}
+		return children.length === 1 ? children[0] : { kind: 'and', children };
+	}
+
+	private parseUnary(): QueryNode {
+		const token = this.peek();
+		if (!token) {
+			throw new NoteQueryError('Query ends too early');
+		}
+		if (this.isKeyword(token, 'not')) {
+			this.position++;
+			return { kind: 'not', child: this.parseUnary() };
+		}
+		if (token.type === 'word' && token.value.startsWith('-') && token.value.length > 1) {
+			// "-#archived" is "not #archived"
+			this.tokens[this.position] = { type: 'word', value: token.value.slice(1) };
+			return { kind: 'not', child: this.parseUnary() };
+		}
+		if (token.type === 'open') {
+			this.position++;
+			const node = this.parseOr();
+			if (this.peek()?.type !== 'close') {
+				throw new NoteQueryError('Missing ")" in query');
+			}
+			this.position++;
+			return node;
+		}
+		return this.parseTerm();
+	}
+
+	private parseTerm(): QueryNode {
+		const token = this.tokens[this.position++];
+		if (token.type === 'word' && token.value.startsWith('#') && token.value.length > 1) {
+			return { kind: 'tag', tag: token.value.toLowerCase() };
+		}
+
+		const operator = this.peek();
+		if ((token.type !== 'word' && token.type !== 'string') || operator?.type !== 'operator') {
+			throw new NoteQueryError(`Expected "#tag", "path: glob" or "property: value" at "${token.value}"`);
+		}
+		this.position++;
+		const value = this.tokens[this.position++];
+		if (!value || (value.type !== 'word' && value.type !== 'string')) {
+			throw new NoteQueryError(`Missing value after "${token.value}${operator.value}"`);
+		}
+
+		const key = token.value.toLowerCase();
+		let node: QueryNode;
+		if (key === 'path') {
+			node = { kind: 'path', pattern: GlobMatcher.toRegExp(value.value) };
+		} else if (key === 'tag') {
+			node = { kind: 'tag', tag: `#${value.value.replace(/^#/, '').toLowerCase()}` };
+		} else {
+			node = { kind: 'property', key, pattern: GlobMatcher.toRegExp(value.value, true) };
+		}
+		return operator.value === '!=' ? { kind: 'not', child: node } : node;
+	}
+
+	private peek(): QueryToken | undefined {
+		return this.tokens[this.position];
+	}
+
+	private isKeyword(token: QueryToken | undefined, keyword: string): boolean {
+		return token?.type === 'word' && token.value.toLowerCase() === keyword;
+	}
+}
@@ -0,0 +1,98 @@
+import { DailyNoteYearlyData, DateRange, StreakStats } from '../types';
+import { DateRangeCalculator } from './date-range-calculator';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Habit statistics over the date-keyed data of a note: streaks, active days, gaps and weekdays
+ * A day is active when it has at least one mention (or a logged value, see ValueAggregator)
+ */
+export class StreakCalculator {
+	/**
+	 * Calculate the statistics of a period; days after today are ignored
+	 */
+	static calculate(data: DailyNoteYearlyData, dateRange: DateRange): StreakStats {
+		const now = new Date();
+		const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+		const start = new Date(dateRange.startDate.getFullYear(), dateRange.startDate.getMonth(), dateRange.startDate.getDate());
+		const rangeEnd = new Date(dateRange.endDate.getFullYear(), dateRange.endDate.getMonth(), dateRange.endDate.getDate());
+		const end = rangeEnd > today ? today : rangeEnd;
+
+		const activity: boolean[] = [];
+		const weekdayCounts = [0, 0, 0, 0, 0, 0, 0];
+		let longestStreak = 0;
+		let run = 0;
+		let gapTotal = 0;
+		let previousActiveIndex: number | null = null;
+
+		for (let date = new Date(start); date <= end; date.setDate(date.getDate() + 1)) {
+			const summary = data[DateRangeCalculator.formatDateKey(date)];
+			const isActive = !!summary && summary.linkCount > 0;
+			const dayIndex = activity.length;
+			activity.push(isActive);
+			if (!isActive) {
+				run = 0;
+				continue;
+			}
+
+			weekdayCounts[date.getDay()]++;
+			run++;
+			longestStreak = Math.max(longestStreak, run);
+			if (previousActiveIndex !== null) {
+				gapTotal += dayIndex - previousActiveIndex;
+			}
+			previousActiveIndex = dayIndex;
+		}
+
+		// Trailing run of active days; a period ending today is not broken before today is logged
+		let currentStreak = 0;
+		let index = activity.length - 1;
+		if (index >= 0 && !activity[index] && end.getTime() === today.getTime()) {
+			index--;
+		}
+		while (index >= 0 && activity[index]) {
+			currentStreak++;
+			index--;
+		}
+
+		const activeDays = weekdayCounts.reduce((total, count) => total + count, 0);
+		return {
+			currentStreak,
+			longestStreak,
+			activeDays,
+			totalDays: activity.length,
+			averageGap: activeDays > 1 ? gapTotal / (activeDays - 1) : null,
+			weekdayCounts
+		};
+	}
+
+	/**
+	 * Weekday with the most active days (0 = Sunday), or null without activity
+	 */
+	static getMostActiveWeekday(stats: StreakStats): number | null {
+		const max = Math.max(...stats.weekdayCounts);
+		return max > 0 ? stats.weekdayCounts.indexOf(max) : null;
+	}
+
+	/**
+	 * Weekdays in display order, starting with the first day of the week from settings
+	 */
+	static getWeekdayOrder(firstDayOfWeek: number): number[] {
+		return [0, 1, 2, 3, 4, 5, 6].map(offset => (firstDayOfWeek + offset) % 7);
+	}
+
+	/**
+	 * Short weekday label (0 = Sunday)
+	 */
+	static getWeekdayLabel(weekday: number): string {
+		return WEEKDAY_LABELS[weekday];
+	}
+
+	/**
+	 * Format a number of days (e.g., "1 day", "4 days", "2.5 days")
+	 */
+	static formatDays(days: number): string {
+		const rounded = Math.round(days * 10) / 10;
+		return `${rounded} ${rounded === 1 ? 'day' : 'days'}`;
+	}
+}
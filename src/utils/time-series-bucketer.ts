@@ -0,0 +1,85 @@
+import { DailyNoteYearlyData, DateRange, TimeSeriesGranularity, ValueAggregation } from '../types';
+import { DateRangeCalculator } from './date-range-calculator';
+import { ValueAggregator } from './value-aggregator';
+
+/**
+ * Time-series helpers: group daily values into days, weeks or months,
+ * then derive the running total and the moving average of the buckets
+ * FEA008: Evolution Visualization
+ */
+export class TimeSeriesBucketer {
+	/**
+	 * Key of the bucket holding a day: the day itself, the first day of its week or of its month (YYYY-MM-DD)
+	 */
+	static getBucketKey(date: Date, granularity: TimeSeriesGranularity, firstDayOfWeek: number = 1): string {
+		const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+		if (granularity === TimeSeriesGranularity.WEEK) {
+			start.setDate(start.getDate() - ((start.getDay() - firstDayOfWeek + 7) % 7));
+		} else if (granularity === TimeSeriesGranularity.MONTH) {
+			start.setDate(1);
+		}
+		return DateRangeCalculator.formatDateKey(start);
+	}
+
+	/**
+	 * Keys of every bucket of a range, in order
+	 * Days after today are left out, so running totals do not plateau into the future
+	 */
+	static getBucketKeys(dateRange: DateRange, granularity: TimeSeriesGranularity, firstDayOfWeek: number = 1): string[] {
+		const today = new Date();
+		const end = dateRange.endDate < today ? dateRange.endDate : today;
+		const keys: string[] = [];
+		for (let date = new Date(dateRange.startDate); date <= end; date.setDate(date.getDate() + 1)) {
+			const key = TimeSeriesBucketer.getBucketKey(date, granularity, firstDayOfWeek);
+			if (keys[keys.length - 1] !== key) {
+				keys.push(key);
+			}
+		}
+		return keys;
+	}
+
+	/**
+	 * Value of each bucket: days are added up, except averaged and max values which keep their meaning
+	 * @param keys Bucket keys from getBucketKeys
+	 */
+	static bucket(
+		data: DailyNoteYearlyData,
+		keys: string[],
+		granularity: TimeSeriesGranularity,
+		firstDayOfWeek: number = 1,
+		aggregation: ValueAggregation = ValueAggregation.COUNT
+	): number[] {
+		const bucketDays = new Map<string, number[]>();
+		for (const [dateString, summary] of Object.entries(data)) {
+			const date = DateRangeCalculator.parseDateKey(dateString);
+			if (!date) {
+				continue;
+			}
+			const key = TimeSeriesBucketer.getBucketKey(date, granularity, firstDayOfWeek);
+			bucketDays.set(key, (bucketDays.get(key) ?? []).concat(summary.linkCount));
+		}
+
+		const combine = aggregation === ValueAggregation.AVERAGE || aggregation === ValueAggregation.MAX
+			? aggregation
+			: ValueAggregation.SUM;
+		return keys.map(key => ValueAggregator.aggregate(bucketDays.get(key) ?? [], combine));
+	}
+
+	/**
+	 * Running total of the bucket values
+	 */
+	static accumulate(values: number[]): number[] {
+		let total = 0;
+		return values.map(value => (total += value));
+	}
+
+	/**
+	 * Trailing moving average; the first buckets average over the buckets available so far
+	 */
+	static movingAverage(values: number[], window: number): number[] {
+		return values.map((_value, index) => {
+			const slice = values.slice(Math.max(0, index - window + 1), index + 1);
+			return slice.reduce((total, value) => total + value, 0) / slice.length;
+		});
+	}
+}
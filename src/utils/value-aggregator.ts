@@ -0,0 +1,126 @@
+import { DailyNoteYearlyData, ValueAggregation } from '../types';
+
+// Leading number of a value, so units are ignored: "5km" → 5, "7,5 h" → 7.5
+const NUMERIC_VALUE = /^[-+]?\d+(?:[.,]\d+)?/;
+
+/**
+ * Weighted counting helpers: combine the numbers logged with mentions
+ * ("[[Running]]:: 5km", "sleep:: 7.5") into a single value per day or per period
+ */
+export class ValueAggregator {
+	/**
+	 * Parse the leading number of a field value
+	 * @returns The number, or null when the value does not start with one
+	 */
+	static parse(value: unknown): number | null {
+		if (typeof value === 'number') {
+			return isFinite(value) ? value : null;
+		}
+		if (typeof value !== 'string') {
+			return null;
+		}
+		const match = NUMERIC_VALUE.exec(value.trim());
+		return match ? parseFloat(match[0].replace(',', '.')) : null;
+	}
+
+	/**
+	 * Parse an aggregation from its code block value
+	 */
+	static parseAggregation(raw: unknown): ValueAggregation | undefined {
+		if (typeof raw !== 'string') {
+			return undefined;
+		}
+		const value = raw.trim().toLowerCase() as ValueAggregation;
+		return Object.values(ValueAggregation).includes(value) ? value : undefined;
+	}
+
+	/**
+	 * Combine values (0 when there are none)
+	 */
+	static aggregate(values: number[], aggregation: ValueAggregation): number {
+		if (values.length === 0) {
+			return 0;
+		}
+		switch (aggregation) {
+			case ValueAggregation.COUNT:
+				return values.length;
+			case ValueAggregation.SUM:
+				return values.reduce((total, value) => total + value, 0);
+			case ValueAggregation.AVERAGE:
+				return values.reduce((total, value) => total + value, 0) / values.length;
+			case ValueAggregation.MAX:
+				return Math.max(...values);
+		}
+	}
+
+	/**
+	 * Replace the mention count of each day by the aggregated value of the day
+	 * Days without values are dropped: a mention without a number says nothing about the amount
+	 */
+	static aggregateDays(data: DailyNoteYearlyData, aggregation: ValueAggregation): DailyNoteYearlyData {
+		if (aggregation === ValueAggregation.COUNT) {
+			return data;
+		}
+
+		const aggregated: DailyNoteYearlyData = {};
+		for (const [dateString, summary] of Object.entries(data)) {
+			if (summary.values && summary.values.length > 0) {
+				aggregated[dateString] = {
+					...summary,
+					linkCount: ValueAggregator.aggregate(summary.values, aggregation)
+				};
+			}
+		}
+		return aggregated;
+	}
+
+	/**
+	 * Merge the days of several notes into one set of days
+	 * Counts are added; values are pooled and aggregated again (the average of a day is over all its values)
+	 */
+	static mergeDays(dataSets: DailyNoteYearlyData[], aggregation: ValueAggregation): DailyNoteYearlyData {
+		const merged: DailyNoteYearlyData = {};
+		for (const data of dataSets) {
+			for (const [dateString, summary] of Object.entries(data)) {
+				const existing = merged[dateString];
+				merged[dateString] = {
+					linkCount: (existing?.linkCount ?? 0) + summary.linkCount,
+					lines: undefined,
+					values: summary.values ? (existing?.values ?? []).concat(summary.values) : existing?.values,
+					files: summary.files ? (existing?.files ?? []).concat(summary.files) : existing?.files
+				};
+			}
+		}
+		return aggregation === ValueAggregation.COUNT ? merged : ValueAggregator.aggregateDays(merged, aggregation);
+	}
+
+	/**
+	 * Round an aggregated value to at most 2 decimals
+	 */
+	static round(value: number): number {
+		return Math.round(value * 100) / 100;
+	}
+
+	/**
+	 * Format an aggregated value for display, with at most 2 decimals
+	 */
+	static format(value: number): string {
+		return ValueAggregator.round(value).toString();
+	}
+
+	/**
+	 * Label shown next to an aggregated value (e.g., "12.5 total")
+	 */
+	static getLabel(aggregation: ValueAggregation): string {
+		switch (aggregation) {
+			case ValueAggregation.SUM:
+				return 'total';
+			case ValueAggregation.AVERAGE:
+				return 'average';
+			case ValueAggregation.MAX:
+				return 'max';
+			default:
+				return 'count';
+		}
+	}
+}
@@ -0,0 +1,178 @@
+import { App, TFile } from 'obsidian';
+import { ExportFormat } from '../types';
+
+const XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+// Class of the parts of a component that are not exported (controls, pickers)
+export const EXPORT_IGNORE_CLASS = 'note-insight-export-ignore';
+
+// Interactive elements are left out of the image
+const IGNORED_TAGS = ['button', 'select', 'input', 'textarea'];
+
+// Computed styles copied onto the exported elements, so theme variables are resolved to plain colors
+const HTML_STYLE_PROPERTIES = [
+	'display', 'position', 'top', 'right', 'bottom', 'left', 'z-index', 'box-sizing',
+	'width', 'height', 'min-width', 'min-height', 'max-width', 'max-height',
+	'margin-top', 'margin-right', 'margin-bottom', 'margin-left',
+	'padding-top', 'padding-right', 'padding-bottom', 'padding-left',
+	'border-top', 'border-right', 'border-bottom', 'border-left', 'border-radius',
+	'background-color', 'background-image', 'color', 'opacity', 'overflow', 'visibility',
+	'font-family', 'font-size', 'font-weight', 'font-style', 'line-height', 'letter-spacing',
+	'text-align', 'text-decoration', 'text-overflow', 'white-space', 'vertical-align',
+	'flex-direction', 'flex-wrap', 'flex-grow', 'flex-shrink', 'flex-basis',
+	'align-items', 'align-self', 'justify-content', 'gap', 'row-gap', 'column-gap',
+	'grid-template-columns', 'grid-template-rows', 'grid-auto-flow', 'grid-column', 'grid-row',
+	'transform', 'transform-origin'
+];
+const SVG_STYLE_PROPERTIES = [
+	'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray', 'stroke-linecap',
+	'opacity', 'font-family', 'font-size', 'font-weight', 'text-anchor', 'dominant-baseline', 'visibility'
+];
+
+/**
+ * Exports a rendered visualization as a standalone image in the vault attachments folder
+ * The element is cloned with its computed styles inlined, so the image keeps the theme colors
+ * without the theme: SVG wraps the HTML in a foreignObject, PNG rasterises that SVG
+ */
+export class VisualizationExporter {
+	private app: App;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/**
+	 * Export an element as an SVG or PNG file
+	 * @param baseName File name without extension (e.g., the watched note title)
+	 * @param sourcePath Note the attachment belongs to, used by the attachments folder setting
+	 * @returns The created file
+	 */
+	async export(element: HTMLElement, format: ExportFormat, baseName: string, sourcePath: string = ''): Promise<TFile> {
+		const { svg, width, height } = this.buildSvg(element);
+		const fileName = VisualizationExporter.getFileName(baseName, format);
+		const path = await this.app.fileManager.getAvailablePathForAttachment(fileName, sourcePath);
+
+		if (format === ExportFormat.SVG) {
+			return this.app.vault.create(path, svg);
+		}
+		const png = await this.rasterise(element, svg, width, height);
+		return this.app.vault.createBinary(path, png);
+	}
+
+	/**
+	 * Build a standalone SVG document from an element
+	 */
+	private buildSvg(element: HTMLElement): { svg: string; width: number; height: number } {
+		const width = Math.ceil(Math.max(element.scrollWidth, element.getBoundingClientRect().width));
+		const height = Math.ceil(Math.max(element.scrollHeight, element.getBoundingClientRect().height));
+
+		const clone = element.cloneNode(true) as HTMLElement;
+		this.inlineStyles(element, clone);
+		clone.setAttribute('xmlns', XHTML_NAMESPACE);
+		// Classes are dropped with the theme: the root is sized and filled inline
+		clone.setCssProps({
+			margin: '0',
+			width: `${width}px`,
+			height: `${height}px`,
+			overflow: 'visible',
+			'background-color': this.getBackgroundColor(element)
+		});
+
+		const content = new XMLSerializer().serializeToString(clone);
+		const svg = `<svg xmlns="${SVG_NAMESPACE}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+			+ `<foreignObject x="0" y="0" width="100%" height="100%">${content}</foreignObject></svg>`;
+		return { svg, width, height };
+	}
+
+	/**
+	 * Copy the computed styles of each element onto its clone, and drop the controls
+	 */
+	private inlineStyles(original: Element, clone: Element): void {
+		const view = original.ownerDocument.defaultView;
+		if (!view) {
+			return;
+		}
+
+		const computed = view.getComputedStyle(original);
+		const isSvg = original.namespaceURI === SVG_NAMESPACE;
+		const properties = isSvg ? SVG_STYLE_PROPERTIES : HTML_STYLE_PROPERTIES;
+		const style = properties
+			.map(property => `${property}: ${computed.getPropertyValue(property)};`)
+			.join(' ');
+		clone.setAttribute('style', style);
+		clone.removeAttribute('class');
+
+		const originalChildren = Array.from(original.children);
+		const cloneChildren = Array.from(clone.children);
+		originalChildren.forEach((child, index) => {
+			const cloneChild = cloneChildren[index];
+			if (this.isIgnored(child)) {
+				cloneChild.remove();
+			} else {
+				this.inlineStyles(child, cloneChild);
+			}
+		});
+	}
+
+	/**
+	 * Whether an element is left out of the export
+	 */
+	private isIgnored(element: Element): boolean {
+		return IGNORED_TAGS.includes(element.tagName.toLowerCase()) || element.classList.contains(EXPORT_IGNORE_CLASS);
+	}
+
+	/**
+	 * Background of the element, or of the first ancestor with one (the pane background)
+	 */
+	private getBackgroundColor(element: HTMLElement): string {
+		const view = element.ownerDocument.defaultView;
+		let current: HTMLElement | null = element;
+		while (current && view) {
+			const color = view.getComputedStyle(current).backgroundColor;
+			if (color && color !== 'transparent' && color !== 'rgba(0, 0, 0, 0)') {
+				return color;
+			}
+			current = current.parentElement;
+		}
+		return '#ffffff';
+	}
+
+	/**
+	 * Draw the SVG on a canvas at twice the screen size and encode it as PNG
+	 */
+	private async rasterise(element: HTMLElement, svg: string, width: number, height: number): Promise<ArrayBuffer> {
+		const scale = 2;
+		const image = element.ownerDocument.createElement('img');
+		image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+		await image.decode();
+
+		const canvas = element.ownerDocument.createElement('canvas');
+		canvas.width = width * scale;
+		canvas.height = height * scale;
+		const context = canvas.getContext('2d');
+		if (!context) {
+			throw new Error('Canvas is not available');
+		}
+		context.scale(scale, scale);
+		context.drawImage(image, 0, 0, width, height);
+
+		const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+		if (!blob) {
+			throw new Error('PNG encoding failed');
+		}
+		return blob.arrayBuffer();
+	}
+
+	/**
+	 * File name of an export: the sanitized base name and a timestamp that keeps successive exports apart
+	 * (e.g., "Running yearly tracker 2026-10-19 1430.png")
+	 */
+	static getFileName(baseName: string, extension: string): string {
+		const name = baseName.replace(/[\\/:*?"<>|#^[\]]/g, '').trim() || 'Visualization';
+		const date = new Date();
+		const pad = (value: number) => String(value).padStart(2, '0');
+		const timestamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}${pad(date.getMinutes())}`;
+		return `${name} ${timestamp}.${extension}`;
+	}
+}